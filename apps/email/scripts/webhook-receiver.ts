@@ -0,0 +1,41 @@
+/**
+ * A stub webhook receiver for local testing. It prints every call and
+ * checks its signature when WEBHOOK_SECRET is set:
+ *
+ *   WEBHOOK_SECRET=whsec_... pnpm webhooks:receiver
+ *
+ * Register http://localhost:4000/webhooks as the webhook URL. Set
+ * WEBHOOK_RECEIVER_STATUS (e.g. 500) to answer with an error and watch the
+ * service retry.
+ */
+import { createServer } from 'node:http';
+import {
+  SIGNATURE_HEADER,
+  verifyWebhook,
+} from '../src/webhooks/webhook-signature';
+
+const port = Number(process.env.WEBHOOK_RECEIVER_PORT ?? 4000);
+const status = Number(process.env.WEBHOOK_RECEIVER_STATUS ?? 204);
+const secret = process.env.WEBHOOK_SECRET;
+
+createServer((request, response) => {
+  const chunks: Buffer[] = [];
+  request.on('data', (chunk: Buffer) => chunks.push(chunk));
+  request.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const header = request.headers[SIGNATURE_HEADER];
+    const signature = !secret
+      ? 'not checked'
+      : typeof header === 'string' && verifyWebhook(secret, body, header)
+        ? 'valid'
+        : 'INVALID';
+    response.statusCode = signature === 'INVALID' ? 401 : status;
+    console.log(
+      `${new Date().toISOString()} ${request.method} ${request.url} ` +
+        `(signature ${signature}, answering ${response.statusCode})\n${body}\n`,
+    );
+    response.end();
+  });
+}).listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}`);
+});
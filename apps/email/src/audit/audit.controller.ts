@@ -0,0 +1,36 @@
+import {
+  Controller,
+  DefaultValuePipe,
+  Get,
+  ParseDatePipe,
+  ParseIntPipe,
+  Query,
+} from '@nestjs/common';
+import { AdminOnly } from '../auth/auth.decorators';
+import { AuditService } from './audit.service';
+import { AuditEntry } from './entities/audit-entry.entity';
+
+@Controller('audit')
+@AdminOnly()
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  findAll(
+    @Query('limit', new DefaultValuePipe(100), ParseIntPipe) limit: number,
+    @Query('from', new ParseDatePipe({ optional: true })) from?: Date,
+    @Query('to', new ParseDatePipe({ optional: true })) to?: Date,
+    @Query('source') source?: string,
+    @Query('actor') actor?: string,
+    @Query('action') action?: string,
+  ): Promise<AuditEntry[]> {
+    return this.auditService.findAll({
+      source,
+      actor,
+      action,
+      from,
+      to,
+      limit: Math.min(limit, 1000),
+    });
+  }
+}
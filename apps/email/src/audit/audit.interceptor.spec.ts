@@ -0,0 +1,133 @@
+import type { AuthenticatedRequest } from '../auth/principal';
+import { describeRequest } from './audit.interceptor';
+import { AuditOutcome } from './entities/audit-entry.entity';
+
+function createRequest(
+  overrides: Partial<AuthenticatedRequest> = {},
+): AuthenticatedRequest {
+  return {
+    method: 'POST',
+    path: '/api/email/send',
+    params: {},
+    query: {},
+    body: {},
+    ip: '127.0.0.1',
+    principal: { kind: 'source', source: 'QR-Pay', keyId: 'key-1' },
+    is: () => false,
+    ...overrides,
+  } as unknown as AuthenticatedRequest;
+}
+
+describe('describeRequest', () => {
+  it('records who sent what, for which source', () => {
+    const body = { txnRefNo: 'Email-1', source: 'QR-Pay', payload: {} };
+
+    expect(
+      describeRequest(createRequest({ body }), 'email.send', 202, {}),
+    ).toEqual({
+      actor: 'QR-Pay (key key-1)',
+      source: 'QR-Pay',
+      action: 'email.send',
+      target: 'Email-1',
+      outcome: AuditOutcome.Succeeded,
+      statusCode: 202,
+      ipAddress: '127.0.0.1',
+      details: { method: 'POST', path: '/api/email/send', body },
+    });
+  });
+
+  it('names the person behind an admin action and records failures', () => {
+    const entry = describeRequest(
+      createRequest({
+        path: '/api/email/Email-1/cancel',
+        params: { txnRefNo: 'Email-1' },
+        body: { reason: 'Sent by mistake', requestedBy: 'Aina' },
+        principal: { kind: 'admin' },
+      }),
+      'email.cancel',
+      409,
+      { error: new Error('Email-1 has already been sent') },
+    );
+
+    expect(entry).toMatchObject({
+      actor: 'Aina via admin',
+      source: null,
+      target: 'Email-1',
+      outcome: AuditOutcome.Failed,
+      details: { error: 'Email-1 has already been sent' },
+    });
+  });
+
+  it('takes the source of an admin action from the query', () => {
+    const entry = describeRequest(
+      createRequest({
+        path: '/api/email/Email-1/cancel',
+        params: { txnRefNo: 'Email-1' },
+        query: { source: 'QR-Pay' },
+        body: { reason: 'Sent by mistake' },
+        principal: { kind: 'admin' },
+      }),
+      'email.cancel',
+      200,
+      {},
+    );
+
+    expect(entry).toMatchObject({
+      actor: 'admin',
+      source: 'QR-Pay',
+      target: 'Email-1',
+      outcome: AuditOutcome.Succeeded,
+    });
+  });
+
+  it('reads multipart sends from their payload part, listing the files', () => {
+    const entry = describeRequest(
+      createRequest({
+        path: '/api/email/send/multipart',
+        body: { payload: '{"txnRefNo":"Email-2","source":"QR-Pay"}' },
+        is: () => 'multipart/form-data',
+        files: {
+          attachment_files: [
+            {
+              fieldname: 'attachment_files',
+              originalname: 'statement.pdf',
+              mimetype: 'application/pdf',
+              size: 1024,
+            },
+          ],
+        },
+      } as unknown as Partial<AuthenticatedRequest>),
+      'email.send',
+      202,
+      {},
+    );
+
+    expect(entry.target).toBe('Email-2');
+    expect(entry.details).toMatchObject({
+      body: { txnRefNo: 'Email-2', source: 'QR-Pay' },
+      files: [
+        {
+          field: 'attachment_files',
+          filename: 'statement.pdf',
+          contentType: 'application/pdf',
+          size: 1024,
+        },
+      ],
+    });
+  });
+
+  it('takes the target from the response for created resources', () => {
+    expect(
+      describeRequest(
+        createRequest({
+          path: '/api/templates',
+          body: { name: 'welcome' },
+          principal: { kind: 'admin' },
+        }),
+        'template.create',
+        201,
+        { result: { id: 7, name: 'welcome' } },
+      ).target,
+    ).toBe('7');
+  });
+});
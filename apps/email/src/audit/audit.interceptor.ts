@@ -0,0 +1,184 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpException,
+  Injectable,
+  Logger,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Response } from 'express';
+import { Observable, tap } from 'rxjs';
+import {
+  describePrincipal,
+  type AuthenticatedRequest,
+} from '../auth/principal';
+import { AuditService, type NewAuditEntry } from './audit.service';
+import { AUDIT_ACTION_KEY } from './audited.decorator';
+import { AuditOutcome } from './entities/audit-entry.entity';
+
+type UploadedFiles =
+  | Express.Multer.File[]
+  | Record<string, Express.Multer.File[]>
+  | undefined;
+
+/**
+ * Records calls to `@Audited()` routes once their response is finished, so
+ * the entry has the final status code, including errors that exception
+ * filters map. A failure to record is logged but doesn't fail the request,
+ * which has already been handled by then.
+ */
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(AuditInterceptor.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly audit: AuditService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const action = this.reflector.get<string | undefined>(
+      AUDIT_ACTION_KEY,
+      context.getHandler(),
+    );
+    if (!action) {
+      return next.handle();
+    }
+
+    const http = context.switchToHttp();
+    const request = http.getRequest<AuthenticatedRequest>();
+    const response = http.getResponse<Response>();
+    let result: unknown;
+    let error: unknown;
+    response.once('close', () => {
+      const entry = describeRequest(request, action, response.statusCode, {
+        result,
+        error,
+      });
+      this.audit.record(entry).catch((failure: Error) => {
+        this.logger.error(
+          `Could not record ${action} by ${entry.actor} in the audit log: ${failure.message}`,
+          failure.stack,
+        );
+      });
+    });
+    return next.handle().pipe(
+      tap({
+        next: (value: unknown) => {
+          result = value;
+        },
+        error: (failure: unknown) => {
+          error = failure;
+        },
+      }),
+    );
+  }
+}
+
+/** Builds the entry for a finished request; details are redacted later. */
+export function describeRequest(
+  request: AuthenticatedRequest,
+  action: string,
+  statusCode: number,
+  { result, error }: { result?: unknown; error?: unknown },
+): NewAuditEntry {
+  const body = requestBody(request);
+  const caller = request.principal
+    ? describePrincipal(request.principal)
+    : 'anonymous';
+  const requestedBy = stringField(body, 'requestedBy');
+  return {
+    actor: requestedBy ? `${requestedBy} via ${caller}` : caller,
+    source: sourceOf(request, body),
+    action,
+    target:
+      request.params.txnRefNo ??
+      request.params.id ??
+      stringField(body, 'txnRefNo') ??
+      stringField(result, 'txnRefNo') ??
+      stringField(result, 'id'),
+    outcome: statusCode < 400 ? AuditOutcome.Succeeded : AuditOutcome.Failed,
+    statusCode,
+    ipAddress: request.ip ?? null,
+    details: {
+      method: request.method,
+      path: request.path,
+      ...(Object.keys(request.params).length > 0
+        ? { params: request.params }
+        : {}),
+      ...(body !== undefined ? { body } : {}),
+      ...describeFiles(request.files as UploadedFiles),
+      ...(error !== undefined ? { error: describeError(error) } : {}),
+    },
+  };
+}
+
+/**
+ * The source a request acts for: the API key's, or for the admin the one
+ * named in the body or, failing that, the `?source=` query, if any.
+ */
+export function requestSource(request: AuthenticatedRequest): string | null {
+  return sourceOf(request, requestBody(request));
+}
+
+/** The email a request is about, from the path or the body. */
+export function requestTxnRefNo(request: AuthenticatedRequest): string | null {
+  return (
+    request.params.txnRefNo ?? stringField(requestBody(request), 'txnRefNo')
+  );
+}
+
+function sourceOf(request: AuthenticatedRequest, body: unknown): string | null {
+  return request.principal?.kind === 'source'
+    ? request.principal.source
+    : (stringField(body, 'source') ?? stringField(request.query, 'source'));
+}
+
+/** The body; for multipart sends, the JSON in their `payload` part. */
+function requestBody(request: AuthenticatedRequest): unknown {
+  const body: unknown = request.body;
+  const payload = stringField(body, 'payload');
+  if (payload === null || !request.is('multipart/form-data')) {
+    return body;
+  }
+  try {
+    return JSON.parse(payload) as unknown;
+  } catch {
+    return body;
+  }
+}
+
+function stringField(value: unknown, field: string): string | null {
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+  const fieldValue = (value as Record<string, unknown>)[field];
+  if (typeof fieldValue === 'string' && fieldValue !== '') {
+    return fieldValue;
+  }
+  return typeof fieldValue === 'number' ? String(fieldValue) : null;
+}
+
+/** Names, types and sizes of uploaded files; never their content. */
+function describeFiles(files: UploadedFiles): { files?: unknown[] } {
+  const list = Array.isArray(files) ? files : Object.values(files ?? {}).flat();
+  if (list.length === 0) {
+    return {};
+  }
+  return {
+    files: list.map(({ fieldname, originalname, mimetype, size }) => ({
+      field: fieldname,
+      filename: originalname,
+      contentType: mimetype,
+      size,
+    })),
+  };
+}
+
+function describeError(error: unknown): unknown {
+  if (error instanceof HttpException) {
+    return error.getResponse();
+  }
+  return error instanceof Error ? error.message : String(error);
+}
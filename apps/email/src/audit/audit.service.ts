@@ -0,0 +1,77 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { auditConfig, type AuditConfig } from '../config/audit.config';
+import { AuditEntry } from './entities/audit-entry.entity';
+import { redactionRules, redactValue, type RedactionRule } from './redaction';
+
+export type NewAuditEntry = Omit<AuditEntry, 'id' | 'occurredAt'>;
+
+export interface AuditFilter {
+  source?: string;
+  /** Matches any part of the actor, case-insensitively. */
+  actor?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+}
+
+@Injectable()
+export class AuditService {
+  private readonly rules: RedactionRule[];
+
+  constructor(
+    @InjectRepository(AuditEntry)
+    private readonly entries: Repository<AuditEntry>,
+    @Inject(auditConfig.KEY) config: AuditConfig,
+  ) {
+    this.rules = redactionRules(config);
+  }
+
+  /** Adds an entry, redacting its details first. Entries are never changed. */
+  async record(entry: NewAuditEntry): Promise<void> {
+    await this.entries.save(
+      this.entries.create({
+        ...entry,
+        details: redactValue(entry.details, this.rules) as Record<
+          string,
+          unknown
+        >,
+      }),
+    );
+  }
+
+  /** Newest first. `from` is inclusive and `to` exclusive. */
+  findAll({
+    source,
+    actor,
+    action,
+    from,
+    to,
+    limit,
+  }: AuditFilter): Promise<AuditEntry[]> {
+    const query = this.entries
+      .createQueryBuilder('entry')
+      .orderBy('entry.occurredAt', 'DESC')
+      .take(limit);
+    if (source) {
+      query.andWhere('entry.source = :source', { source });
+    }
+    if (actor) {
+      query.andWhere('entry.actor ILIKE :actor', {
+        actor: `%${actor.replace(/[\\%_]/g, '\\$&')}%`,
+      });
+    }
+    if (action) {
+      query.andWhere('entry.action = :action', { action });
+    }
+    if (from) {
+      query.andWhere('entry.occurredAt >= :from', { from });
+    }
+    if (to) {
+      query.andWhere('entry.occurredAt < :to', { to });
+    }
+    return query.getMany();
+  }
+}
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const AUDIT_ACTION_KEY = 'audit:action';
+
+/**
+ * Records every call to the route in the audit log as `action`, e.g.
+ * `template.update`, whether it succeeds or not.
+ */
+export const Audited = (action: string) =>
+  SetMetadata(AUDIT_ACTION_KEY, action);
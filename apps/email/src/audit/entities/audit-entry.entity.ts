@@ -0,0 +1,57 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+export enum AuditOutcome {
+  Succeeded = 'succeeded',
+  Failed = 'failed',
+}
+
+/**
+ * One audited request: who did what, to what, and what they sent, with
+ * personal data redacted. Rows can't be changed or deleted; a database
+ * trigger rejects it.
+ */
+@Entity({ name: 'email_audit_entries' })
+@Index('IDX_email_audit_entries_source_occurred_at', ['source', 'occurredAt'])
+export class AuditEntry {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index('IDX_email_audit_entries_occurred_at')
+  @CreateDateColumn({ name: 'occurred_at', type: 'timestamptz' })
+  occurredAt: Date;
+
+  /** e.g. `admin`, `QR-something (key 1f0c…)` or `Aina via admin`. */
+  @Column({ type: 'varchar', length: 256 })
+  actor: string;
+
+  /** The source acted for, when the request names or is bound to one. */
+  @Column({ type: 'varchar', length: 128, nullable: true })
+  source: string | null;
+
+  /** e.g. `email.send` or `template.update`. */
+  @Column({ type: 'varchar', length: 64 })
+  action: string;
+
+  /** What was acted on, e.g. a txnRefNo or a template id. */
+  @Column({ type: 'varchar', length: 256, nullable: true })
+  target: string | null;
+
+  @Column({ type: 'varchar', length: 16 })
+  outcome: AuditOutcome;
+
+  @Column({ name: 'status_code', type: 'int' })
+  statusCode: number;
+
+  @Column({ name: 'ip_address', type: 'varchar', length: 64, nullable: true })
+  ipAddress: string | null;
+
+  /** The redacted request: route parameters, body and uploaded files. */
+  @Column({ type: 'jsonb' })
+  details: Record<string, unknown>;
+}
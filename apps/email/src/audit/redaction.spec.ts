@@ -0,0 +1,73 @@
+import { redactionRules, redactText, redactValue } from './redaction';
+
+const rules = redactionRules({
+  redactions: ['nric', 'card', 'account'],
+  customRedactions: { passport: /\b[A-Z]\d{8}\b/g },
+});
+
+describe('redactText', () => {
+  it.each([
+    ['Savings Account 123123133213', 'Savings Account ********3213'],
+    ['Account no. 1234-5678-9012', 'Account no. ****-****-9012'],
+    ['Card 4111 1111 1111 1111 ends', 'Card **** **** **** 1111 ends'],
+    ['MyKad 900101-14-5678', 'MyKad ******-**-****'],
+    ['MyKad 900101145678', 'MyKad ************'],
+    ['NRIC S1234567D', 'NRIC *********'],
+    ['Passport A12345678', 'Passport *********'],
+  ])('masks %s', (text, expected) => {
+    expect(redactText(text, rules)).toBe(expected);
+  });
+
+  it.each([
+    'Due on 2026-10-19 at 10:30',
+    'Reference Email-1234567',
+    'Call 03-2345 6789',
+    'Id 0b7e1c1e-3f7a-4c59-9b51-1d0f2d5a6e11',
+  ])('leaves %s alone', (text) => {
+    expect(redactText(text, rules)).toBe(text);
+  });
+
+  it('only applies the configured rules', () => {
+    const cardsOnly = redactionRules({
+      redactions: ['card'],
+      customRedactions: {},
+    });
+
+    expect(redactText('4111111111111111 and 123123133213', cardsOnly)).toBe(
+      '************1111 and 123123133213',
+    );
+  });
+});
+
+describe('redactValue', () => {
+  it('redacts nested values, secrets and base64 content', () => {
+    expect(
+      redactValue(
+        {
+          payload: {
+            html: '<p>Account 123123133213</p><img src="data:image/png;base64,iVBORw0KGgo=">',
+          },
+          additionalInfo: {
+            variables: { account: 123123133213, amount: 120.5 },
+            attachment_files: [
+              { filename: 'statement.pdf', base64: 'JVBERi0xLjQK' },
+            ],
+          },
+          secret: 'whsec_123',
+        },
+        rules,
+      ),
+    ).toEqual({
+      payload: {
+        html: '<p>Account ********3213</p><img src="data:image/png;base64,[8 bytes]">',
+      },
+      additionalInfo: {
+        variables: { account: '********3213', amount: 120.5 },
+        attachment_files: [
+          { filename: 'statement.pdf', base64: '[base64, 9 bytes]' },
+        ],
+      },
+      secret: '[redacted]',
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import type { AuditConfig, BuiltInRedaction } from '../config/audit.config';
+
+export interface RedactionRule {
+  name: string;
+  /** Must be global, so every occurrence is masked. */
+  pattern: RegExp;
+  mask: (match: string) => string;
+}
+
+/** Fields whose values are replaced outright, wherever they appear. */
+const SECRET_FIELDS = new Set([
+  'authorization',
+  'password',
+  'pass',
+  'secret',
+  'token',
+  'apikey',
+  'x-api-key',
+]);
+
+/** Fields holding base64 file content, e.g. `attachment_files[].base64`. */
+const BASE64_FIELDS = new Set(['base64']);
+
+const DATA_URL_PATTERN =
+  /data:([\w.+-]+\/[\w.+-]+)?((?:;[\w.+-]+=[^;,\s"')]*)*);base64,[A-Za-z0-9+/=]+/g;
+
+/** Structures nested deeper than this are cut off. */
+const MAX_DEPTH = 10;
+
+const BUILT_IN_RULES: Record<BuiltInRedaction, RedactionRule> = {
+  // Malaysian MyKad numbers (YYMMDD-PB-###G, with or without dashes) and
+  // Singapore NRIC/FIN numbers.
+  nric: {
+    name: 'nric',
+    pattern:
+      /(?<![\d-])\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])-?\d{2}-?\d{4}(?![\d-])|(?<![A-Za-z\d])[STFGM]\d{7}[A-Z](?![A-Za-z\d])/g,
+    mask: maskAll,
+  },
+  // 13 to 19 digits, optionally grouped with spaces or dashes, that pass
+  // the Luhn check.
+  card: {
+    name: 'card',
+    pattern: /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/g,
+    mask: (match) => (passesLuhn(match) ? maskAllButLastFour(match) : match),
+  },
+  // Runs of 8 or more digits, e.g. `Savings Account 123123133213`, or
+  // dash-separated groups of 3 or more (which leaves dates alone).
+  account: {
+    name: 'account',
+    pattern: /(?<![\d-])(?:\d{8,}|\d{3,}(?:-\d{3,})+)(?![\d-])/g,
+    mask: maskAllButLastFour,
+  },
+};
+
+/**
+ * The rules to apply, in a fixed order: custom rules first, as the most
+ * specific, then NRIC numbers and cards before the account rule, which
+ * would otherwise take them.
+ */
+export function redactionRules({
+  redactions,
+  customRedactions,
+}: Pick<AuditConfig, 'redactions' | 'customRedactions'>): RedactionRule[] {
+  return [
+    ...Object.entries(customRedactions).map(([name, pattern]) => ({
+      name,
+      pattern,
+      mask: maskAll,
+    })),
+    ...(['nric', 'card', 'account'] as const)
+      .filter((name) => redactions.includes(name))
+      .map((name) => BUILT_IN_RULES[name]),
+  ];
+}
+
+export function redactText(text: string, rules: RedactionRule[]): string {
+  return rules.reduce(
+    (redacted, { pattern, mask }) => redacted.replace(pattern, mask),
+    text,
+  );
+}
+
+/**
+ * A copy of `value` that is safe to store: secrets are dropped, base64
+ * content is replaced by its size, and every string (and long number) is
+ * redacted.
+ */
+export function redactValue(
+  value: unknown,
+  rules: RedactionRule[],
+  depth = 0,
+): unknown {
+  if (typeof value === 'string') {
+    return redactText(omitEncodedContent(value), rules);
+  }
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    const text = String(value);
+    const redacted = redactText(text, rules);
+    return redacted === text ? value : redacted;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[too deeply nested]';
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, rules, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => {
+      const name = key.toLowerCase();
+      if (SECRET_FIELDS.has(name)) {
+        return [key, '[redacted]'];
+      }
+      if (BASE64_FIELDS.has(name) && typeof field === 'string') {
+        return [key, `[base64, ${decodedSize(field)} bytes]`];
+      }
+      return [key, redactValue(field, rules, depth + 1)];
+    }),
+  );
+}
+
+/**
+ * Replaces the content of `data:...;base64,` URLs in `text` with its size,
+ * e.g. inline images in HTML, keeping the media type.
+ */
+export function omitEncodedContent(text: string): string {
+  return text.replace(
+    DATA_URL_PATTERN,
+    (match: string, type: string | undefined, params: string) =>
+      `data:${type ?? ''}${params};base64,[${decodedSize(match)} bytes]`,
+  );
+}
+
+/** Accepts bare base64 or a data URL. */
+function decodedSize(base64: string): number {
+  const data = base64.slice(base64.indexOf(',') + 1).replace(/[\s=]/g, '');
+  return Math.floor((data.length * 3) / 4);
+}
+
+function maskAll(match: string): string {
+  return match.replace(/[A-Za-z\d]/g, '*');
+}
+
+/** e.g. `********3213`; separators are kept. */
+function maskAllButLastFour(match: string): string {
+  let kept = 0;
+  return [...match]
+    .reverse()
+    .map((char) => (/\d/.test(char) && kept++ >= 4 ? '*' : char))
+    .reverse()
+    .join('');
+}
+
+function passesLuhn(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
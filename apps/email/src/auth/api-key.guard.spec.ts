@@ -0,0 +1,99 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthConfig } from '../config/auth.config';
+import { ApiKeyGuard } from './api-key.guard';
+import { ApiKeysService } from './api-keys.service';
+import { ADMIN_ONLY_KEY, IS_PUBLIC_KEY } from './auth.decorators';
+import type { AuthenticatedRequest } from './principal';
+
+function createContext(headers: Record<string, string>) {
+  const request = { headers } as unknown as AuthenticatedRequest;
+  const context = {
+    getHandler: () => undefined,
+    getClass: () => undefined,
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext;
+  return { request, context };
+}
+
+describe('ApiKeyGuard', () => {
+  const metadata: Record<string, boolean> = {};
+  const reflector = {
+    getAllAndOverride: (key: string) => metadata[key],
+  } as unknown as Reflector;
+  const apiKeys = { authenticate: jest.fn() };
+  const config = { enabled: true, adminToken: 'admin-secret' } as AuthConfig;
+  const guard = new ApiKeyGuard(
+    reflector,
+    apiKeys as unknown as ApiKeysService,
+    config,
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete metadata[IS_PUBLIC_KEY];
+    delete metadata[ADMIN_ONLY_KEY];
+  });
+
+  it('binds requests to the source of their API key', async () => {
+    apiKeys.authenticate.mockResolvedValue({ id: 'key-1', source: 'Testing' });
+    const { request, context } = createContext({
+      authorization: 'Bearer esk_valid',
+    });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(apiKeys.authenticate).toHaveBeenCalledWith('esk_valid');
+    expect(request.principal).toEqual({
+      kind: 'source',
+      source: 'Testing',
+      keyId: 'key-1',
+    });
+  });
+
+  it('accepts the key in an X-API-Key header', async () => {
+    apiKeys.authenticate.mockResolvedValue({ id: 'key-1', source: 'Testing' });
+
+    await expect(
+      guard.canActivate(createContext({ 'x-api-key': 'esk_valid' }).context),
+    ).resolves.toBe(true);
+  });
+
+  it('rejects missing and unknown keys', async () => {
+    apiKeys.authenticate.mockResolvedValue(null);
+
+    await expect(
+      guard.canActivate(createContext({}).context),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    await expect(
+      guard.canActivate(createContext({ 'x-api-key': 'esk_revoked' }).context),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('keeps admin-only routes away from source keys', async () => {
+    metadata[ADMIN_ONLY_KEY] = true;
+    apiKeys.authenticate.mockResolvedValue({ id: 'key-1', source: 'Testing' });
+
+    await expect(
+      guard.canActivate(createContext({ 'x-api-key': 'esk_valid' }).context),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+
+    const { request, context } = createContext({
+      authorization: 'Bearer admin-secret',
+    });
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(request.principal).toEqual({ kind: 'admin' });
+    expect(apiKeys.authenticate).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets public routes through without credentials', async () => {
+    metadata[IS_PUBLIC_KEY] = true;
+
+    await expect(guard.canActivate(createContext({}).context)).resolves.toBe(
+      true,
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { authConfig, type AuthConfig } from '../config/auth.config';
+import { ApiKeysService } from './api-keys.service';
+import { ADMIN_ONLY_KEY, IS_PUBLIC_KEY } from './auth.decorators';
+import type { AuthenticatedRequest, Principal } from './principal';
+
+/**
+ * Authenticates every request with either a source API key or the admin
+ * token, sent as `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+ * Routes opt out with `@Public()` and restrict themselves to the admin with
+ * `@AdminOnly()`.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeys: ApiKeysService,
+    @Inject(authConfig.KEY) private readonly config: AuthConfig,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const principal = await this.authenticate(request);
+    if (
+      principal.kind !== 'admin' &&
+      this.reflector.getAllAndOverride<boolean>(ADMIN_ONLY_KEY, targets)
+    ) {
+      throw new ForbiddenException('This endpoint requires the admin token');
+    }
+    request.principal = principal;
+    return true;
+  }
+
+  private async authenticate(
+    request: AuthenticatedRequest,
+  ): Promise<Principal> {
+    if (!this.config.enabled) {
+      return { kind: 'admin' };
+    }
+
+    const presented = this.credential(request);
+    if (!presented) {
+      throw new UnauthorizedException('An API key is required');
+    }
+    if (this.isAdminToken(presented)) {
+      return { kind: 'admin' };
+    }
+
+    const key = await this.apiKeys.authenticate(presented);
+    if (!key) {
+      throw new UnauthorizedException('API key is invalid, expired or revoked');
+    }
+    return { kind: 'source', source: key.source, keyId: key.id };
+  }
+
+  private credential(request: AuthenticatedRequest): string | undefined {
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+    if (scheme?.toLowerCase() === 'bearer' && token) {
+      return token.trim();
+    }
+    const header = request.headers['x-api-key'];
+    return typeof header === 'string' && header ? header.trim() : undefined;
+  }
+
+  private isAdminToken(presented: string): boolean {
+    const { adminToken } = this.config;
+    if (!adminToken) {
+      return false;
+    }
+    // Compare digests so the comparison takes the same time for any length.
+    const digest = (value: string) =>
+      createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(presented), digest(adminToken));
+  }
+}
@@ -0,0 +1,20 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+const KEY_PREFIX = 'esk_';
+
+export interface GeneratedApiKey {
+  key: string;
+  prefix: string;
+  hash: string;
+}
+
+/** A new random key, e.g. `esk_3q2Vb0...`, with what gets stored about it. */
+export function generateApiKey(): GeneratedApiKey {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  return { key, prefix: key.slice(0, 12), hash: hashApiKey(key) };
+}
+
+/** Keys are high-entropy, so a plain SHA-256 is enough to store them safely. */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
@@ -0,0 +1,54 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { Audited } from '../audit/audited.decorator';
+import { ApiKeysService } from './api-keys.service';
+import { AdminOnly } from './auth.decorators';
+import {
+  ApiKeyResponseDto,
+  IssuedApiKeyResponseDto,
+} from './dto/api-key-response.dto';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { RotateApiKeyDto } from './dto/rotate-api-key.dto';
+
+@Controller('api-keys')
+@AdminOnly()
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Get()
+  findAll(@Query('source') source?: string): Promise<ApiKeyResponseDto[]> {
+    return this.apiKeysService.findAll(source);
+  }
+
+  @Post()
+  @Audited('api-key.issue')
+  issue(@Body() dto: CreateApiKeyDto): Promise<IssuedApiKeyResponseDto> {
+    return this.apiKeysService.issue(dto);
+  }
+
+  @Post(':id/rotate')
+  @Audited('api-key.rotate')
+  rotate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: RotateApiKeyDto,
+  ): Promise<IssuedApiKeyResponseDto> {
+    return this.apiKeysService.rotate(id, dto.graceSeconds);
+  }
+
+  @Delete(':id')
+  @Audited('api-key.revoke')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  revoke(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    return this.apiKeysService.revoke(id);
+  }
+}
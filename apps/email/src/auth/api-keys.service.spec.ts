@@ -0,0 +1,142 @@
+import { NotFoundException } from '@nestjs/common';
+import { IsNull, Repository } from 'typeorm';
+import { AuthConfig } from '../config/auth.config';
+import { hashApiKey } from './api-key';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKey } from './entities/api-key.entity';
+
+describe('ApiKeysService', () => {
+  const query = {
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    update: jest.fn().mockReturnThis(),
+    set: jest.fn().mockReturnThis(),
+    getOne: jest.fn(),
+    execute: jest.fn(),
+  };
+  const apiKeys = {
+    create: jest.fn((fields: Partial<ApiKey>) => fields),
+    save: jest.fn((key: Partial<ApiKey>) =>
+      Promise.resolve({ id: 'key-2', ...key }),
+    ),
+    findOneBy: jest.fn(),
+    createQueryBuilder: jest.fn(() => query),
+  };
+  const service = new ApiKeysService(
+    apiKeys as unknown as Repository<ApiKey>,
+    { rotationGraceSeconds: 3_600 } as AuthConfig,
+  );
+  const now = new Date('2026-01-01T10:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('stores only the hash of issued keys', async () => {
+    const issued = await service.issue({ source: 'Testing', name: 'billing' });
+
+    expect(issued.key).toMatch(/^esk_/);
+    expect(issued.keyPrefix).toBe(issued.key.slice(0, 12));
+    expect(apiKeys.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        source: 'Testing',
+        keyHash: hashApiKey(issued.key),
+      }),
+    );
+    expect(JSON.stringify(apiKeys.save.mock.calls)).not.toContain(issued.key);
+  });
+
+  it('looks presented keys up by their hash, among live keys only', async () => {
+    const key = { id: 'key-1', source: 'Testing' } as ApiKey;
+    query.getOne.mockResolvedValue(key);
+
+    await expect(service.authenticate('esk_presented')).resolves.toBe(key);
+    expect(query.where).toHaveBeenCalledWith('key.keyHash = :hash', {
+      hash: hashApiKey('esk_presented'),
+    });
+    expect(query.andWhere).toHaveBeenCalledWith('key.revokedAt IS NULL');
+    expect(query.andWhere).toHaveBeenCalledWith(
+      '(key.expiresAt IS NULL OR key.expiresAt > now())',
+    );
+    expect(query.execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('finds nothing for unknown keys and records no use', async () => {
+    query.getOne.mockResolvedValue(null);
+
+    await expect(service.authenticate('esk_unknown')).resolves.toBeNull();
+    expect(query.execute).not.toHaveBeenCalled();
+  });
+
+  it('keeps the old key working for the grace period on rotation', async () => {
+    const current = {
+      id: 'key-1',
+      source: 'Testing',
+      name: 'billing',
+      expiresAt: null,
+    } as ApiKey;
+    apiKeys.findOneBy.mockResolvedValue(current);
+
+    const replacement = await service.rotate('key-1');
+
+    expect(apiKeys.findOneBy).toHaveBeenCalledWith({
+      id: 'key-1',
+      revokedAt: IsNull(),
+    });
+    expect(apiKeys.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 'key-1',
+        expiresAt: new Date('2026-01-01T11:00:00Z'),
+      }),
+    );
+    expect(replacement).toMatchObject({
+      id: 'key-2',
+      source: 'Testing',
+      name: 'billing',
+      expiresAt: null,
+    });
+    expect(replacement.key).toMatch(/^esk_/);
+  });
+
+  it('leaves a sooner expiry alone on rotation', async () => {
+    const expiresAt = new Date('2026-01-01T10:10:00Z');
+    apiKeys.findOneBy.mockResolvedValue({
+      id: 'key-1',
+      source: 'Testing',
+      name: null,
+      expiresAt,
+    } as ApiKey);
+
+    await service.rotate('key-1');
+
+    expect(apiKeys.save).toHaveBeenCalledTimes(1);
+    expect(apiKeys.save).not.toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'key-1' }),
+    );
+  });
+
+  it('revokes active keys', async () => {
+    apiKeys.findOneBy.mockResolvedValue({ id: 'key-1' } as ApiKey);
+
+    await service.revoke('key-1');
+
+    expect(apiKeys.save).toHaveBeenCalledWith({ id: 'key-1', revokedAt: now });
+  });
+
+  it('refuses to rotate or revoke keys that are already revoked', async () => {
+    apiKeys.findOneBy.mockResolvedValue(null);
+
+    await expect(service.revoke('key-1')).rejects.toThrow(
+      new NotFoundException('No active API key found with id key-1'),
+    );
+    await expect(service.rotate('key-1')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+    expect(apiKeys.save).not.toHaveBeenCalled();
+  });
+});
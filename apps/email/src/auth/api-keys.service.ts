@@ -0,0 +1,120 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { authConfig, type AuthConfig } from '../config/auth.config';
+import { generateApiKey, hashApiKey } from './api-key';
+import {
+  ApiKeyResponseDto,
+  IssuedApiKeyResponseDto,
+} from './dto/api-key-response.dto';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { ApiKey } from './entities/api-key.entity';
+
+/** `last_used_at` is refreshed at most this often per key. */
+const LAST_USED_RESOLUTION_SECONDS = 60;
+
+@Injectable()
+export class ApiKeysService {
+  constructor(
+    @InjectRepository(ApiKey)
+    private readonly apiKeys: Repository<ApiKey>,
+    @Inject(authConfig.KEY) private readonly config: AuthConfig,
+  ) {}
+
+  async findAll(source?: string): Promise<ApiKeyResponseDto[]> {
+    const keys = await this.apiKeys.find({
+      where: source ? { source } : {},
+      order: { createdAt: 'DESC' },
+    });
+    return keys.map((key) => this.toResponse(key));
+  }
+
+  issue(dto: CreateApiKeyDto): Promise<IssuedApiKeyResponseDto> {
+    return this.generate({
+      source: dto.source,
+      name: dto.name ?? null,
+      expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : null,
+    });
+  }
+
+  /**
+   * Issues a replacement for a key. The old key keeps working for the grace
+   * period so the holder can switch over without dropping requests.
+   */
+  async rotate(
+    id: string,
+    graceSeconds = this.config.rotationGraceSeconds,
+  ): Promise<IssuedApiKeyResponseDto> {
+    const current = await this.findActive(id);
+    const retiresAt = new Date(Date.now() + graceSeconds * 1000);
+    if (!current.expiresAt || current.expiresAt > retiresAt) {
+      current.expiresAt = retiresAt;
+      await this.apiKeys.save(current);
+    }
+    return this.generate({
+      source: current.source,
+      name: current.name,
+      expiresAt: null,
+    });
+  }
+
+  async revoke(id: string): Promise<void> {
+    const key = await this.findActive(id);
+    key.revokedAt = new Date();
+    await this.apiKeys.save(key);
+  }
+
+  /** The live key matching a presented credential, if there is one. */
+  async authenticate(presented: string): Promise<ApiKey | null> {
+    const key = await this.apiKeys
+      .createQueryBuilder('key')
+      .where('key.keyHash = :hash', { hash: hashApiKey(presented) })
+      .andWhere('key.revokedAt IS NULL')
+      .andWhere('(key.expiresAt IS NULL OR key.expiresAt > now())')
+      .getOne();
+    if (key) {
+      await this.apiKeys
+        .createQueryBuilder()
+        .update()
+        .set({ lastUsedAt: () => 'now()' })
+        .where('id = :id', { id: key.id })
+        .andWhere(
+          `("last_used_at" IS NULL OR "last_used_at" < now() - make_interval(secs => :resolution))`,
+          { resolution: LAST_USED_RESOLUTION_SECONDS },
+        )
+        .execute();
+    }
+    return key;
+  }
+
+  private async findActive(id: string): Promise<ApiKey> {
+    const key = await this.apiKeys.findOneBy({ id, revokedAt: IsNull() });
+    if (!key) {
+      throw new NotFoundException(`No active API key found with id ${id}`);
+    }
+    return key;
+  }
+
+  private async generate(
+    fields: Pick<ApiKey, 'source' | 'name' | 'expiresAt'>,
+  ): Promise<IssuedApiKeyResponseDto> {
+    const { key, prefix, hash } = generateApiKey();
+    const saved = await this.apiKeys.save(
+      this.apiKeys.create({ ...fields, keyPrefix: prefix, keyHash: hash }),
+    );
+    return { ...this.toResponse(saved), key };
+  }
+
+  private toResponse(key: ApiKey): ApiKeyResponseDto {
+    return {
+      id: key.id,
+      source: key.source,
+      name: key.name,
+      keyPrefix: key.keyPrefix,
+      createdAt: key.createdAt,
+      expiresAt: key.expiresAt,
+      lastUsedAt: key.lastUsedAt,
+      revokedAt: key.revokedAt,
+    };
+  }
+}
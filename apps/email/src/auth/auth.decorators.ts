@@ -0,0 +1,29 @@
+import {
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { AuthenticatedRequest, Principal } from './principal';
+
+export const IS_PUBLIC_KEY = 'auth:public';
+export const ADMIN_ONLY_KEY = 'auth:admin-only';
+
+/** Lets a route be called without credentials. */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+
+/** Restricts a route to the operator's admin token. */
+export const AdminOnly = () => SetMetadata(ADMIN_ONLY_KEY, true);
+
+/** The principal the guard authenticated the request as. */
+export const CurrentPrincipal = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): Principal => {
+    const { principal } = context
+      .switchToHttp()
+      .getRequest<AuthenticatedRequest>();
+    if (!principal) {
+      throw new UnauthorizedException();
+    }
+    return principal;
+  },
+);
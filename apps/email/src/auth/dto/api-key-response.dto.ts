@@ -0,0 +1,15 @@
+export class ApiKeyResponseDto {
+  id: string;
+  source: string;
+  name: string | null;
+  keyPrefix: string;
+  createdAt: Date;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+}
+
+export class IssuedApiKeyResponseDto extends ApiKeyResponseDto {
+  /** The full key. It is not stored and cannot be retrieved again. */
+  key: string;
+}
@@ -0,0 +1,12 @@
+import { IsInt, IsOptional, Min } from 'class-validator';
+
+export class RotateApiKeyDto {
+  /**
+   * How long the old key keeps working. Defaults to
+   * API_KEY_ROTATION_GRACE_SECONDS; 0 retires it immediately.
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  graceSeconds?: number;
+}
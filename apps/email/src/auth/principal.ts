@@ -0,0 +1,52 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import type { Request } from 'express';
+
+/** Who a request was authenticated as. */
+export type Principal =
+  | { kind: 'admin' }
+  | { kind: 'source'; source: string; keyId: string };
+
+export interface AuthenticatedRequest extends Request {
+  principal?: Principal;
+}
+
+/** The source a principal is confined to, or undefined for the admin. */
+export function sourceScope(principal: Principal): string | undefined {
+  return principal.kind === 'source' ? principal.source : undefined;
+}
+
+/**
+ * The source whose emails a lookup by txnRefNo searches. A txnRefNo is only
+ * unique within a source, so the admin token has to name one; source keys
+ * get their own.
+ */
+export function lookupSource(principal: Principal, source?: string): string {
+  if (principal.kind === 'source') {
+    if (source !== undefined) {
+      assertSourceAccess(principal, source);
+    }
+    return principal.source;
+  }
+  if (!source) {
+    throw new BadRequestException(
+      'source is required: txnRefNo is only unique within a source',
+    );
+  }
+  return source;
+}
+
+/** How a principal is recorded in history, e.g. `QR-something (key 1f0c…)`. */
+export function describePrincipal(principal: Principal): string {
+  return principal.kind === 'admin'
+    ? 'admin'
+    : `${principal.source} (key ${principal.keyId})`;
+}
+
+/** Rejects requests made on behalf of a source the key isn't bound to. */
+export function assertSourceAccess(principal: Principal, source: string): void {
+  if (principal.kind === 'source' && principal.source !== source) {
+    throw new ForbiddenException(
+      `This API key is bound to source ${principal.source} and cannot send as ${source}`,
+    );
+  }
+}
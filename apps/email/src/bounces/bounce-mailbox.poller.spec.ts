@@ -0,0 +1,63 @@
+import { ImapFlow } from 'imapflow';
+import { BouncesConfig } from '../config/bounces.config';
+import { BounceMailboxPoller } from './bounce-mailbox.poller';
+import { BouncesService } from './bounces.service';
+
+jest.mock('imapflow', () => ({ ImapFlow: jest.fn() }));
+
+describe('BounceMailboxPoller', () => {
+  const client = {
+    connect: jest.fn(),
+    logout: jest.fn(),
+    getMailboxLock: jest.fn(),
+    search: jest.fn(),
+    fetchOne: jest.fn(),
+    messageFlagsAdd: jest.fn(),
+    mailboxCreate: jest.fn(),
+    messageMove: jest.fn(),
+  };
+  const bounces = { process: jest.fn() };
+  let poller: BounceMailboxPoller;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(ImapFlow).mockImplementation(() => client as never);
+    client.logout.mockResolvedValue(undefined);
+    client.getMailboxLock.mockResolvedValue({ release: jest.fn() });
+    client.search.mockResolvedValue([7]);
+    client.fetchOne.mockResolvedValue({ source: Buffer.from('report') });
+    poller = new BounceMailboxPoller(
+      bounces as unknown as BouncesService,
+      {
+        imapHost: 'imap.example.com',
+        imapMailbox: 'INBOX',
+        imapBatchSize: 50,
+        imapFailedMailbox: 'Bounces-Failed',
+      } as BouncesConfig,
+    );
+  });
+
+  it('marks recorded messages read', async () => {
+    await poller.poll();
+
+    expect(bounces.process).toHaveBeenCalledWith(Buffer.from('report'));
+    expect(client.messageFlagsAdd).toHaveBeenCalledWith('7', ['\\Seen'], {
+      uid: true,
+    });
+  });
+
+  it('moves a message out of the way once it has failed three times', async () => {
+    bounces.process.mockRejectedValue(new Error('unreadable'));
+
+    await poller.poll();
+    await poller.poll();
+    expect(client.messageMove).not.toHaveBeenCalled();
+
+    await poller.poll();
+    expect(client.mailboxCreate).toHaveBeenCalledWith('Bounces-Failed');
+    expect(client.messageMove).toHaveBeenCalledWith('7', 'Bounces-Failed', {
+      uid: true,
+    });
+    expect(client.messageFlagsAdd).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ImapFlow } from 'imapflow';
+import { bouncesConfig, type BouncesConfig } from '../config/bounces.config';
+import { BouncesService } from './bounces.service';
+
+/** Polls a message may fail on before it is moved out of the way. */
+const MAX_READ_ATTEMPTS = 3;
+
+/**
+ * Reads bounces from the return path's IMAP mailbox. Each poll processes
+ * the unread messages and marks them read; a message that couldn't be
+ * recorded stays unread and is tried again on the next poll, up to
+ * MAX_READ_ATTEMPTS times. After that it is moved to the failed mailbox,
+ * so it doesn't keep its place in every batch. Running it on several
+ * instances is safe, since a report is only counted once.
+ */
+@Injectable()
+export class BounceMailboxPoller
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(BounceMailboxPoller.name);
+  private timer?: NodeJS.Timeout;
+  private inFlight: Promise<void> = Promise.resolve();
+  private stopped = false;
+  /** Failed reads per message UID, for messages still being retried. */
+  private readonly failures = new Map<number, number>();
+
+  constructor(
+    private readonly bounces: BouncesService,
+    @Inject(bouncesConfig.KEY) private readonly config: BouncesConfig,
+  ) {}
+
+  onApplicationBootstrap() {
+    if (!this.config.imapHost) {
+      return;
+    }
+    this.logger.log(
+      `Reading bounces from ${this.config.imapMailbox} on ${this.config.imapHost}`,
+    );
+    this.scheduleNextPoll();
+  }
+
+  async onApplicationShutdown() {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    await this.inFlight;
+  }
+
+  async poll(): Promise<void> {
+    const client = new ImapFlow({
+      host: this.config.imapHost,
+      port: this.config.imapPort,
+      secure: this.config.imapSecure,
+      auth: { user: this.config.imapUser ?? '', pass: this.config.imapPass },
+      logger: false,
+    });
+    try {
+      await client.connect();
+      const lock = await client.getMailboxLock(this.config.imapMailbox);
+      try {
+        const unread =
+          (await client.search({ seen: false }, { uid: true })) || [];
+        for (const uid of unread.slice(0, this.config.imapBatchSize)) {
+          await this.read(client, uid);
+        }
+      } finally {
+        lock.release();
+      }
+    } catch (error) {
+      this.logger.error(`Failed to read the bounce mailbox: ${String(error)}`);
+    } finally {
+      await client.logout().catch(() => undefined);
+    }
+  }
+
+  private scheduleNextPoll() {
+    if (this.stopped) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.inFlight = this.poll().finally(() => this.scheduleNextPoll());
+    }, this.config.imapPollIntervalMs);
+  }
+
+  private async read(client: ImapFlow, uid: number): Promise<void> {
+    const message = await client.fetchOne(
+      String(uid),
+      { source: true },
+      { uid: true },
+    );
+    if (!message || !message.source) {
+      return;
+    }
+    try {
+      await this.bounces.process(message.source);
+    } catch (error) {
+      const attempts = (this.failures.get(uid) ?? 0) + 1;
+      this.logger.error(
+        `Failed to record bounce message ${uid} (attempt ${attempts}): ${String(error)}`,
+      );
+      if (attempts < MAX_READ_ATTEMPTS) {
+        this.failures.set(uid, attempts);
+        return;
+      }
+      this.failures.delete(uid);
+      await this.setAside(client, uid);
+      return;
+    }
+    this.failures.delete(uid);
+    await client.messageFlagsAdd(String(uid), ['\\Seen'], { uid: true });
+  }
+
+  /**
+   * Moves a message that keeps failing to the failed mailbox, or failing
+   * that marks it read, so it is left for someone to look at.
+   */
+  private async setAside(client: ImapFlow, uid: number): Promise<void> {
+    const mailbox = this.config.imapFailedMailbox;
+    try {
+      await client.mailboxCreate(mailbox);
+      await client.messageMove(String(uid), mailbox, { uid: true });
+      this.logger.warn(`Moved bounce message ${uid} to ${mailbox}`);
+    } catch (error) {
+      this.logger.warn(
+        `Marking bounce message ${uid} read, as it could not be moved to ${mailbox}: ${String(error)}`,
+      );
+      await client.messageFlagsAdd(String(uid), ['\\Seen'], { uid: true });
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { SMTPServer, type SMTPServerDataStream } from 'smtp-server';
+import { bouncesConfig, type BouncesConfig } from '../config/bounces.config';
+import { BouncesService } from './bounces.service';
+import { isReturnPath } from './verp';
+
+/**
+ * Receives bounces over SMTP, for an MTA that hands mail for the return
+ * path to this service instead of a mailbox. It has no authentication or
+ * TLS, so it should only be reachable by that MTA.
+ */
+@Injectable()
+export class BounceSmtpListener
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(BounceSmtpListener.name);
+  private server?: SMTPServer;
+
+  constructor(
+    private readonly bounces: BouncesService,
+    @Inject(bouncesConfig.KEY) private readonly config: BouncesConfig,
+  ) {}
+
+  onApplicationBootstrap() {
+    if (!this.config.smtpEnabled) {
+      return;
+    }
+    const { smtpHost, smtpPort, smtpMaxMessageBytes } = this.config;
+    this.server = new SMTPServer({
+      name: 'bounces',
+      banner: 'Bounce processor',
+      authOptional: true,
+      disabledCommands: ['AUTH', 'STARTTLS'],
+      size: smtpMaxMessageBytes,
+      logger: false,
+      onRcptTo: ({ address }, _session, callback) => {
+        const { returnPath } = this.config;
+        callback(
+          !returnPath || isReturnPath(returnPath, address)
+            ? null
+            : smtpError(550, `5.1.1 ${address} is not the return path`),
+        );
+      },
+      onData: (stream, session, callback) => {
+        const recipients = session.envelope.rcptTo.map(
+          ({ address }) => address,
+        );
+        this.receive(stream, recipients).then(
+          () => callback(),
+          (error: Error) => callback(error),
+        );
+      },
+    });
+    this.server.on('error', (error) =>
+      this.logger.error(`Bounce listener error: ${String(error)}`),
+    );
+    this.server.listen(smtpPort, smtpHost);
+    this.logger.log(`Receiving bounces over SMTP on ${smtpHost}:${smtpPort}`);
+  }
+
+  async onApplicationShutdown() {
+    const server = this.server;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(resolve));
+    }
+  }
+
+  /**
+   * A message that can't be recorded is refused with a temporary error, so
+   * the sending MTA keeps it and tries again later.
+   */
+  private async receive(
+    stream: SMTPServerDataStream,
+    recipients: string[],
+  ): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    if (stream.sizeExceeded) {
+      throw smtpError(552, '5.3.4 Message too big');
+    }
+    try {
+      await this.bounces.process(Buffer.concat(chunks), recipients);
+    } catch (error) {
+      this.logger.error(`Failed to record a bounce: ${String(error)}`);
+      throw smtpError(451, '4.3.0 Could not record the report, try later');
+    }
+  }
+}
+
+function smtpError(responseCode: number, message: string): Error {
+  return Object.assign(new Error(message), { responseCode });
+}
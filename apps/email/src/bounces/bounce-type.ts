@@ -0,0 +1,48 @@
+import type { RecipientReport } from './delivery-report';
+
+export enum BounceType {
+  /** The address can't receive mail; it is suppressed. */
+  Hard = 'hard',
+  /** A temporary or message-specific problem; the address is kept. */
+  Soft = 'soft',
+}
+
+/**
+ * Permanent failures that say nothing about whether the address works:
+ * a full mailbox, a message that's too big, or a policy rejection such as
+ * a spam block.
+ */
+const SOFT_PERMANENT_STATUSES = ['5.2.2', '5.2.3', '5.3.4', '5.7.'];
+
+/**
+ * Hard bounces are permanent failures (`failed` with a 5.x.x status) about
+ * the address itself. Delays and 4.x.x failures are soft. Reports of
+ * successful delivery aren't bounces and return null.
+ */
+export function classifyBounce({
+  action,
+  status,
+  diagnosticCode,
+}: Pick<
+  RecipientReport,
+  'action' | 'status' | 'diagnosticCode'
+>): BounceType | null {
+  if (action === 'delayed') {
+    return BounceType.Soft;
+  }
+  if (action !== 'failed') {
+    return null;
+  }
+
+  const code =
+    status ??
+    /\b[245]\.\d{1,3}\.\d{1,3}\b/.exec(diagnosticCode ?? '')?.[0] ??
+    /\b[45]\d\d\b/.exec(diagnosticCode ?? '')?.[0] ??
+    null;
+  if (code?.startsWith('4')) {
+    return BounceType.Soft;
+  }
+  return SOFT_PERMANENT_STATUSES.some((prefix) => code?.startsWith(prefix))
+    ? BounceType.Soft
+    : BounceType.Hard;
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { bouncesConfig } from '../config/bounces.config';
+import { EmailModule } from '../email/email.module';
+import { EmailTransaction } from '../email/entities/email-transaction.entity';
+import { SuppressionsModule } from '../suppressions/suppressions.module';
+import { BounceMailboxPoller } from './bounce-mailbox.poller';
+import { BounceSmtpListener } from './bounce-smtp.listener';
+import { BouncesService } from './bounces.service';
+import { EmailBounce } from './entities/email-bounce.entity';
+
+@Module({
+  imports: [
+    ConfigModule.forFeature(bouncesConfig),
+    TypeOrmModule.forFeature([EmailBounce, EmailTransaction]),
+    EmailModule,
+    SuppressionsModule,
+  ],
+  providers: [BouncesService, BounceSmtpListener, BounceMailboxPoller],
+})
+export class BouncesModule {}
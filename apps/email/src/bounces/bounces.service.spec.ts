@@ -0,0 +1,170 @@
+import { DataSource, Repository } from 'typeorm';
+import { BouncesConfig } from '../config/bounces.config';
+import { EmailHistoryService } from '../email/email-history.service';
+import { EmailStatus } from '../email/email-status.enum';
+import { EmailTransaction } from '../email/entities/email-transaction.entity';
+import { SuppressionReason } from '../suppressions/entities/email-suppression.entity';
+import { SuppressionsService } from '../suppressions/suppressions.service';
+import { BouncesService } from './bounces.service';
+
+const TRANSACTION_ID = '0b7e1c1e-3f7a-4c59-9b51-1d0f2d5a6e11';
+
+const transaction = {
+  id: TRANSACTION_ID,
+  txnRefNo: 'Email-1',
+  source: 'Testing',
+  toRecipients: ['Nobody <nobody@example.org>'],
+  ccRecipients: ['full@example.org'],
+  bccRecipients: [],
+} as unknown as EmailTransaction;
+
+function report(
+  to: string,
+  recipients: [string, string, string][],
+  messageId = '<original@example.com>',
+): string {
+  return [
+    `To: ${to}`,
+    'Message-ID: <report-1@mx.example.com>',
+    'Content-Type: multipart/report; report-type=delivery-status; boundary=B',
+    '',
+    '--B',
+    'Content-Type: message/delivery-status',
+    '',
+    'Reporting-MTA: dns; mx.example.com',
+    ...recipients.flatMap(([recipient, action, status]) => [
+      '',
+      `Final-Recipient: rfc822; ${recipient}`,
+      `Action: ${action}`,
+      `Status: ${status}`,
+    ]),
+    '',
+    '--B',
+    'Content-Type: text/rfc822-headers',
+    '',
+    `Message-ID: ${messageId}`,
+    '',
+    '--B--',
+  ].join('\r\n');
+}
+
+describe('BouncesService', () => {
+  const transactions = { findOneBy: jest.fn() };
+  const manager = { query: jest.fn(), update: jest.fn() };
+  const dataSource = { transaction: jest.fn() };
+  const history = { record: jest.fn() };
+  const suppressions = { add: jest.fn() };
+  let service: BouncesService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dataSource.transaction.mockImplementation((work: (m: unknown) => unknown) =>
+      work(manager),
+    );
+    manager.query.mockResolvedValue([{ id: 'bounce-1' }]);
+    transactions.findOneBy.mockResolvedValue(transaction);
+    service = new BouncesService(
+      transactions as unknown as Repository<EmailTransaction>,
+      dataSource as unknown as DataSource,
+      { returnPath: 'bounces@example.com' } as BouncesConfig,
+      history as unknown as EmailHistoryService,
+      suppressions as unknown as SuppressionsService,
+    );
+  });
+
+  it('marks hard bounces and suppresses the address for the source', async () => {
+    const raw = report(`bounces+${TRANSACTION_ID}@example.com`, [
+      ['nobody@example.org', 'failed', '5.1.1'],
+      ['full@example.org', 'delayed', '4.2.2'],
+    ]);
+
+    await expect(service.process(raw)).resolves.toEqual({
+      txnRefNo: 'Email-1',
+      hard: ['nobody@example.org'],
+      soft: ['full@example.org'],
+    });
+    expect(transactions.findOneBy).toHaveBeenCalledWith({
+      id: TRANSACTION_ID,
+    });
+    expect(manager.query).toHaveBeenCalledTimes(2);
+    expect(manager.update).toHaveBeenCalledWith(
+      EmailTransaction,
+      TRANSACTION_ID,
+      { status: EmailStatus.Bounced },
+    );
+    expect(history.record).toHaveBeenCalledWith(
+      manager,
+      TRANSACTION_ID,
+      EmailStatus.Bounced,
+      'nobody@example.org bounced: 5.1.1',
+      'bounce processor',
+    );
+    expect(suppressions.add).toHaveBeenCalledTimes(1);
+    expect(suppressions.add).toHaveBeenCalledWith(
+      expect.objectContaining({
+        email: 'nobody@example.org',
+        source: 'Testing',
+        reason: SuppressionReason.HardBounce,
+      }),
+      manager,
+    );
+  });
+
+  it('falls back to the Message-ID and only logs soft bounces', async () => {
+    const raw = report('bounces@example.com', [
+      ['full@example.org', 'delayed', '4.2.2'],
+    ]);
+
+    await expect(service.process(raw)).resolves.toMatchObject({
+      soft: ['full@example.org'],
+    });
+    expect(transactions.findOneBy).toHaveBeenCalledWith({
+      messageId: '<original@example.com>',
+    });
+    expect(manager.update).not.toHaveBeenCalled();
+    expect(suppressions.add).not.toHaveBeenCalled();
+  });
+
+  it('does nothing for repeated reports or addresses the email skipped', async () => {
+    manager.query.mockResolvedValue([]);
+
+    await service.process(
+      report(`bounces+${TRANSACTION_ID}@example.com`, [
+        ['nobody@example.org', 'failed', '5.1.1'],
+        ['stranger@example.org', 'failed', '5.1.1'],
+      ]),
+    );
+
+    expect(manager.query).toHaveBeenCalledTimes(1);
+    expect(manager.update).not.toHaveBeenCalled();
+    expect(suppressions.add).not.toHaveBeenCalled();
+  });
+
+  it('keys reports without a Message-ID by their content', async () => {
+    const raw = report(`bounces+${TRANSACTION_ID}@example.com`, [
+      ['nobody@example.org', 'failed', '5.1.1'],
+    ]).replace('Message-ID: <report-1@mx.example.com>\r\n', '');
+
+    await service.process(raw);
+    await service.process(raw);
+
+    const [first, second] = manager.query.mock.calls.map(
+      ([, params]) => (params as unknown[])[7],
+    );
+    expect(first).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect(second).toBe(first);
+  });
+
+  it('ignores reports that match no email', async () => {
+    transactions.findOneBy.mockResolvedValue(null);
+
+    await expect(
+      service.process(
+        report('bounces@example.com', [
+          ['nobody@example.org', 'failed', '5.1.1'],
+        ]),
+      ),
+    ).resolves.toEqual({ txnRefNo: null, hard: [], soft: [] });
+    expect(dataSource.transaction).not.toHaveBeenCalled();
+  });
+});
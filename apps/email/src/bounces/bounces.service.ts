@@ -0,0 +1,215 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash } from 'node:crypto';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { bouncesConfig, type BouncesConfig } from '../config/bounces.config';
+import { EmailHistoryService } from '../email/email-history.service';
+import { EmailStatus } from '../email/email-status.enum';
+import { EmailTransaction } from '../email/entities/email-transaction.entity';
+import { SuppressionReason } from '../suppressions/entities/email-suppression.entity';
+import {
+  normalizeAddress,
+  SuppressionsService,
+} from '../suppressions/suppressions.service';
+import { BounceType, classifyBounce } from './bounce-type';
+import { parseDeliveryReport, RecipientReport } from './delivery-report';
+import { parseVerpAddress } from './verp';
+
+/** Recorded as the actor of bounce statuses and suppressions. */
+const ACTOR = 'bounce processor';
+
+export interface BounceResult {
+  /** Null when the message wasn't a report or named no known email. */
+  txnRefNo: string | null;
+  hard: string[];
+  soft: string[];
+}
+
+@Injectable()
+export class BouncesService {
+  private readonly logger = new Logger(BouncesService.name);
+
+  constructor(
+    @InjectRepository(EmailTransaction)
+    private readonly transactions: Repository<EmailTransaction>,
+    private readonly dataSource: DataSource,
+    @Inject(bouncesConfig.KEY) private readonly config: BouncesConfig,
+    private readonly history: EmailHistoryService,
+    private readonly suppressions: SuppressionsService,
+  ) {}
+
+  /**
+   * Reads one message from the return path. If it is a delivery status
+   * report about one of our emails, records each bounced recipient; a hard
+   * bounce marks the email `bounced` and suppresses the address for its
+   * source. `envelopeRecipients` are the addresses the message was received
+   * for, when it arrived over SMTP. Reports already processed are ignored,
+   * so a message read twice does no harm.
+   */
+  async process(
+    raw: Buffer | string,
+    envelopeRecipients: string[] = [],
+  ): Promise<BounceResult> {
+    const ignored: BounceResult = { txnRefNo: null, hard: [], soft: [] };
+    const report = parseDeliveryReport(raw);
+    if (!report) {
+      this.logger.debug('Ignoring a message that is not a delivery report');
+      return ignored;
+    }
+
+    const transaction = await this.correlate(
+      [...envelopeRecipients, ...report.deliveredTo],
+      report.originalMessageId,
+    );
+    if (!transaction) {
+      this.logger.warn(
+        `Ignoring delivery report ${report.reportId ?? '(no Message-ID)'}: it matches no email`,
+      );
+      return ignored;
+    }
+
+    // Reports about addresses the email wasn't sent to are misrouted or
+    // forged, and mustn't get those addresses suppressed.
+    const addresses = new Set(
+      [
+        ...transaction.toRecipients,
+        ...transaction.ccRecipients,
+        ...transaction.bccRecipients,
+      ].map(normalizeAddress),
+    );
+    const bounces = report.recipients.flatMap((recipient) => {
+      const type = classifyBounce(recipient);
+      return type && addresses.has(normalizeAddress(recipient.recipient))
+        ? [{ ...recipient, type }]
+        : [];
+    });
+    // Reports without a Message-ID are told apart by their content instead.
+    const reportId =
+      report.reportId ??
+      `sha256:${createHash('sha256').update(raw).digest('hex')}`;
+    const recorded = await this.dataSource.transaction(async (manager) => {
+      const inserted: typeof bounces = [];
+      for (const bounce of bounces) {
+        if (await this.insert(manager, transaction, reportId, bounce)) {
+          inserted.push(bounce);
+        }
+      }
+      const hard = inserted.filter(({ type }) => type === BounceType.Hard);
+      if (hard.length > 0) {
+        await this.markBounced(manager, transaction, hard);
+      }
+      return inserted;
+    });
+
+    const result: BounceResult = {
+      txnRefNo: transaction.txnRefNo,
+      hard: recorded
+        .filter(({ type }) => type === BounceType.Hard)
+        .map(({ recipient }) => recipient),
+      soft: recorded
+        .filter(({ type }) => type === BounceType.Soft)
+        .map(({ recipient }) => recipient),
+    };
+    if (recorded.length > 0) {
+      this.logger.log(
+        `Bounce for ${transaction.txnRefNo}: ${[
+          ...result.hard.map((recipient) => `${recipient} (hard)`),
+          ...result.soft.map((recipient) => `${recipient} (soft)`),
+        ].join(', ')}`,
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Finds the email a report is about: by the VERP return path it was
+   * delivered to, which can't be lost along the way, or else by the
+   * Message-ID of the copy the report sent back.
+   */
+  private async correlate(
+    deliveredTo: string[],
+    originalMessageId: string | null,
+  ): Promise<EmailTransaction | null> {
+    const { returnPath } = this.config;
+    const id = returnPath
+      ? deliveredTo
+          .map((address) => parseVerpAddress(returnPath, address))
+          .find((match) => match !== null)
+      : undefined;
+    if (id) {
+      const transaction = await this.transactions.findOneBy({ id });
+      if (transaction) {
+        return transaction;
+      }
+    }
+    return originalMessageId
+      ? this.transactions.findOneBy({ messageId: originalMessageId })
+      : null;
+  }
+
+  /** False if this report already recorded the recipient. */
+  private async insert(
+    manager: EntityManager,
+    transaction: EmailTransaction,
+    reportId: string,
+    bounce: RecipientReport & { type: BounceType },
+  ): Promise<boolean> {
+    const rows: unknown[] = await manager.query(
+      `INSERT INTO "email_bounces"
+         ("transaction_id", "recipient", "type", "action", "status",
+          "diagnostic_code", "remote_mta", "report_id")
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT ("report_id", "recipient") DO NOTHING
+       RETURNING "id"`,
+      [
+        transaction.id,
+        bounce.recipient,
+        bounce.type,
+        bounce.action,
+        bounce.status,
+        bounce.diagnosticCode,
+        bounce.remoteMta,
+        reportId,
+      ],
+    );
+    return rows.length > 0;
+  }
+
+  private async markBounced(
+    manager: EntityManager,
+    transaction: EmailTransaction,
+    hard: RecipientReport[],
+  ): Promise<void> {
+    await manager.update(EmailTransaction, transaction.id, {
+      status: EmailStatus.Bounced,
+    });
+    await this.history.record(
+      manager,
+      transaction.id,
+      EmailStatus.Bounced,
+      hard.map(describeBounce).join('; '),
+      ACTOR,
+    );
+    for (const bounce of hard) {
+      await this.suppressions.add(
+        {
+          email: bounce.recipient,
+          source: transaction.source,
+          reason: SuppressionReason.HardBounce,
+          detail: `${transaction.txnRefNo}: ${describeBounce(bounce)}`,
+          actor: ACTOR,
+        },
+        manager,
+      );
+    }
+  }
+}
+
+function describeBounce({
+  recipient,
+  status,
+  diagnosticCode,
+}: RecipientReport): string {
+  const reason = diagnosticCode ?? status ?? 'no reason given';
+  return `${recipient} bounced: ${reason}`;
+}
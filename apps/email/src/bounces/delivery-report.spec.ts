@@ -0,0 +1,119 @@
+import { BounceType, classifyBounce } from './bounce-type';
+import { parseDeliveryReport } from './delivery-report';
+
+const VERP = 'bounces+0b7e1c1e-3f7a-4c59-9b51-1d0f2d5a6e11@example.com';
+
+function report(statusPart: string, encoding = '7bit'): string {
+  return [
+    'Return-Path: <>',
+    `Delivered-To: ${VERP}`,
+    'Message-ID: <report-1@mx.example.com>',
+    'From: Mail Delivery System <MAILER-DAEMON@mx.example.com>',
+    `To: ${VERP}`,
+    'Subject: Undelivered Mail Returned to Sender',
+    'MIME-Version: 1.0',
+    'Content-Type: multipart/report; report-type=delivery-status;',
+    '  boundary="BOUNDARY"',
+    '',
+    '--BOUNDARY',
+    'Content-Type: text/plain; charset=us-ascii',
+    '',
+    'Your message could not be delivered.',
+    '',
+    '--BOUNDARY',
+    'Content-Type: message/delivery-status',
+    `Content-Transfer-Encoding: ${encoding}`,
+    '',
+    encoding === 'base64'
+      ? Buffer.from(statusPart).toString('base64')
+      : statusPart,
+    '',
+    '--BOUNDARY',
+    'Content-Type: text/rfc822-headers',
+    '',
+    'Message-ID: <original@example.com>',
+    'From: noreply@example.com',
+    'Subject: Your statement',
+    '',
+    '--BOUNDARY--',
+    '',
+  ].join('\r\n');
+}
+
+const STATUS = [
+  'Reporting-MTA: dns; mx.example.com',
+  '',
+  'Final-Recipient: rfc822; nobody@example.org',
+  'Original-Recipient: rfc822;Nobody@example.org',
+  'Action: failed',
+  'Status: 5.1.1',
+  'Remote-MTA: dns; mx.example.org',
+  'Diagnostic-Code: smtp; 550 5.1.1 <nobody@example.org>: Recipient address',
+  '    rejected: User unknown',
+  '',
+  'Final-Recipient: rfc822; full@example.org',
+  'Action: delayed',
+  'Status: 4.2.2',
+].join('\r\n');
+
+describe('parseDeliveryReport', () => {
+  it('reads each recipient and the email the report is about', () => {
+    expect(parseDeliveryReport(Buffer.from(report(STATUS)))).toEqual({
+      reportId: '<report-1@mx.example.com>',
+      deliveredTo: [VERP, VERP],
+      originalMessageId: '<original@example.com>',
+      recipients: [
+        {
+          recipient: 'Nobody@example.org',
+          action: 'failed',
+          status: '5.1.1',
+          diagnosticCode:
+            '550 5.1.1 <nobody@example.org>: Recipient address rejected: User unknown',
+          remoteMta: 'mx.example.org',
+        },
+        {
+          recipient: 'full@example.org',
+          action: 'delayed',
+          status: '4.2.2',
+          diagnosticCode: null,
+          remoteMta: null,
+        },
+      ],
+    });
+  });
+
+  it('decodes encoded status parts', () => {
+    expect(
+      parseDeliveryReport(report(STATUS, 'base64'))?.recipients,
+    ).toHaveLength(2);
+  });
+
+  it('ignores messages that are not delivery reports', () => {
+    const autoReply = [
+      'From: someone@example.org',
+      `To: ${VERP}`,
+      'Subject: Out of office',
+      '',
+      'I am away until Monday.',
+    ].join('\r\n');
+
+    expect(parseDeliveryReport(autoReply)).toBeNull();
+  });
+});
+
+describe('classifyBounce', () => {
+  it.each([
+    ['failed', '5.1.1', null, BounceType.Hard],
+    ['failed', null, '550 No such user', BounceType.Hard],
+    ['failed', '5.2.2', null, BounceType.Soft],
+    ['failed', '5.7.1', 'Message rejected as spam', BounceType.Soft],
+    ['failed', '4.4.7', null, BounceType.Soft],
+    ['delayed', '4.2.2', null, BounceType.Soft],
+    ['delivered', '2.0.0', null, null],
+  ])(
+    'classifies %s %s (%s) as %s',
+    (action, status, diagnosticCode, expected) => {
+      expect(classifyBounce({ action, status, diagnosticCode })).toBe(expected);
+    },
+  );
+});
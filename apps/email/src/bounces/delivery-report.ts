@@ -0,0 +1,249 @@
+/** What a report says happened to one recipient (RFC 3464 section 2.3). */
+export interface RecipientReport {
+  /** The address as originally sent to, or else the one delivery ended at. */
+  recipient: string;
+  /** `failed`, `delayed`, `delivered`, `relayed` or `expanded`. */
+  action: string;
+  /** Enhanced status code (RFC 3463), e.g. `5.1.1`. */
+  status: string | null;
+  /** The remote server's reply, e.g. `550 5.1.1 User unknown`. */
+  diagnosticCode: string | null;
+  remoteMta: string | null;
+}
+
+export interface DeliveryReport {
+  /** Message-ID of the report itself, for telling repeats apart. */
+  reportId: string | null;
+  /** Addresses the report was delivered to, per its headers. */
+  deliveredTo: string[];
+  /** Message-ID of the email that bounced, from the copy sent back. */
+  originalMessageId: string | null;
+  recipients: RecipientReport[];
+}
+
+interface MimePart {
+  headers: Map<string, string[]>;
+  body: string;
+}
+
+const STATUS_PARTS = new Set([
+  'message/delivery-status',
+  'message/global-delivery-status',
+]);
+
+const ORIGINAL_PARTS = new Set([
+  'message/rfc822',
+  'message/global',
+  'text/rfc822-headers',
+  'message/global-headers',
+]);
+
+/** Headers a mailbox may carry the envelope recipient of a report in. */
+const DELIVERED_TO_HEADERS = [
+  'delivered-to',
+  'x-original-to',
+  'envelope-to',
+  'to',
+];
+
+/** Multiparts nested deeper than this are not looked into. */
+const MAX_DEPTH = 5;
+
+/**
+ * Reads a delivery status notification (RFC 3464). Returns null for any
+ * other message, such as an out-of-office reply or a bounce in some
+ * non-standard format, so the caller can skip it.
+ */
+export function parseDeliveryReport(
+  raw: Buffer | string,
+): DeliveryReport | null {
+  const message = parsePart(
+    typeof raw === 'string' ? raw : raw.toString('utf8'),
+  );
+  let status: MimePart | undefined;
+  let original: MimePart | undefined;
+  for (const part of walk(message, 0)) {
+    const type = contentType(part).type;
+    if (!status && STATUS_PARTS.has(type)) {
+      status = part;
+    } else if (!original && ORIGINAL_PARTS.has(type)) {
+      original = part;
+    }
+  }
+  if (!status) {
+    return null;
+  }
+
+  // The first group describes the message; the rest one recipient each.
+  const recipientFields = splitBlocks(decodeBody(status))
+    .map(parseHeaders)
+    .filter((fields) => fields.has('final-recipient'));
+  return {
+    reportId: header(message, 'message-id'),
+    deliveredTo: DELIVERED_TO_HEADERS.flatMap((name) =>
+      (message.headers.get(name) ?? []).flatMap(extractAddresses),
+    ),
+    originalMessageId: original
+      ? header(parsePart(decodeBody(original)), 'message-id')
+      : null,
+    recipients: recipientFields
+      .map(toRecipientReport)
+      .filter((report): report is RecipientReport => report !== null),
+  };
+}
+
+function toRecipientReport(
+  fields: Map<string, string[]>,
+): RecipientReport | null {
+  const field = (name: string) => fields.get(name)?.[0]?.trim() || null;
+  const recipient =
+    typedValue(field('original-recipient')) ??
+    typedValue(field('final-recipient'));
+  const action = field('action');
+  if (!recipient || !action) {
+    return null;
+  }
+  return {
+    recipient: recipient.replace(/^<|>$/g, ''),
+    action: action.toLowerCase().split(/[\s(]/)[0],
+    status:
+      /\b[245]\.\d{1,3}\.\d{1,3}\b/.exec(field('status') ?? '')?.[0] ?? null,
+    diagnosticCode: typedValue(field('diagnostic-code')),
+    remoteMta: typedValue(field('remote-mta')),
+  };
+}
+
+/** Drops the type from an `rfc822; someone@example.com` style value. */
+function typedValue(value: string | null): string | null {
+  if (value === null) {
+    return null;
+  }
+  const separator = value.indexOf(';');
+  const text = (separator >= 0 ? value.slice(separator + 1) : value).trim();
+  return text === '' ? null : text.replace(/\s+/g, ' ');
+}
+
+function* walk(part: MimePart, depth: number): Generator<MimePart> {
+  yield part;
+  const { type, params } = contentType(part);
+  if (
+    !type.startsWith('multipart/') ||
+    !params.boundary ||
+    depth >= MAX_DEPTH
+  ) {
+    return;
+  }
+  for (const section of splitMultipart(part.body, params.boundary)) {
+    yield* walk(parsePart(section), depth + 1);
+  }
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const sections: string[] = [];
+  let current: string[] | null = null;
+  for (const line of body.split(/\r?\n/)) {
+    if (line.startsWith(delimiter)) {
+      if (current) {
+        sections.push(current.join('\n'));
+      }
+      if (line.slice(delimiter.length).startsWith('--')) {
+        return sections;
+      }
+      current = [];
+    } else {
+      current?.push(line);
+    }
+  }
+  if (current) {
+    sections.push(current.join('\n'));
+  }
+  return sections;
+}
+
+function parsePart(text: string): MimePart {
+  const match = /\r?\n\r?\n/.exec(text);
+  return match
+    ? {
+        headers: parseHeaders(text.slice(0, match.index)),
+        body: text.slice(match.index + match[0].length),
+      }
+    : { headers: parseHeaders(text), body: '' };
+}
+
+/** Parses a header block, unfolding continued lines. Names are lowercased. */
+function parseHeaders(text: string): Map<string, string[]> {
+  const headers = new Map<string, string[]>();
+  for (const line of text.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) {
+      continue;
+    }
+    const name = line.slice(0, separator).trim().toLowerCase();
+    headers.set(name, [
+      ...(headers.get(name) ?? []),
+      line.slice(separator + 1).trim(),
+    ]);
+  }
+  return headers;
+}
+
+/** Splits the body of a delivery-status part into its field groups. */
+function splitBlocks(text: string): string[] {
+  return text.split(/(?:\r?\n){2,}/).filter((block) => block.trim() !== '');
+}
+
+function header(part: MimePart, name: string): string | null {
+  return part.headers.get(name)?.[0] || null;
+}
+
+function contentType(part: MimePart): {
+  type: string;
+  params: Record<string, string>;
+} {
+  const [type, ...rest] = (header(part, 'content-type') ?? 'text/plain').split(
+    ';',
+  );
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const separator = param.indexOf('=');
+    if (separator > 0) {
+      params[param.slice(0, separator).trim().toLowerCase()] = param
+        .slice(separator + 1)
+        .trim()
+        .replace(/^"|"$/g, '');
+    }
+  }
+  return { type: type.trim().toLowerCase(), params };
+}
+
+function decodeBody(part: MimePart): string {
+  const encoding = header(part, 'content-transfer-encoding')?.toLowerCase();
+  if (encoding === 'base64') {
+    return Buffer.from(part.body, 'base64').toString('utf8');
+  }
+  if (encoding === 'quoted-printable') {
+    return Buffer.from(
+      part.body
+        .replace(/=\r?\n/g, '')
+        .replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) =>
+          String.fromCharCode(parseInt(hex, 16)),
+        ),
+      'latin1',
+    ).toString('utf8');
+  }
+  return part.body;
+}
+
+function extractAddresses(value: string): string[] {
+  const bracketed = [...value.matchAll(/<([^<>\s]+@[^<>\s]+)>/g)].map(
+    (match) => match[1],
+  );
+  if (bracketed.length > 0) {
+    return bracketed;
+  }
+  return value
+    .split(',')
+    .map((address) => address.trim())
+    .filter((address) => address.includes('@'));
+}
@@ -0,0 +1,62 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { EmailTransaction } from '../../email/entities/email-transaction.entity';
+import { BounceType } from '../bounce-type';
+
+/** A recipient an email bounced for, as told by a delivery status report. */
+@Entity({ name: 'email_bounces' })
+@Index('UQ_email_bounces_report_recipient', ['reportId', 'recipient'], {
+  unique: true,
+})
+export class EmailBounce {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index('IDX_email_bounces_transaction_id')
+  @Column({ name: 'transaction_id', type: 'uuid' })
+  transactionId: string;
+
+  @ManyToOne(() => EmailTransaction, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'transaction_id',
+    foreignKeyConstraintName: 'FK_email_bounces_transaction',
+  })
+  transaction: EmailTransaction;
+
+  @Column({ type: 'varchar', length: 320 })
+  recipient: string;
+
+  @Column({ type: 'varchar', length: 16 })
+  type: BounceType;
+
+  /** The report's action, `failed` or `delayed`. */
+  @Column({ type: 'varchar', length: 16 })
+  action: string;
+
+  /** Enhanced status code, e.g. `5.1.1`. */
+  @Column({ type: 'varchar', length: 16, nullable: true })
+  status: string | null;
+
+  @Column({ name: 'diagnostic_code', type: 'text', nullable: true })
+  diagnosticCode: string | null;
+
+  @Column({ name: 'remote_mta', type: 'varchar', length: 255, nullable: true })
+  remoteMta: string | null;
+
+  /**
+   * Message-ID of the report, or a hash of it when it has none, so a report
+   * read twice is only counted once.
+   */
+  @Column({ name: 'report_id', type: 'varchar', length: 998, nullable: true })
+  reportId: string | null;
+
+  @CreateDateColumn({ name: 'received_at', type: 'timestamptz' })
+  receivedAt: Date;
+}
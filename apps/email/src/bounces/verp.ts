@@ -0,0 +1,41 @@
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * The return path an email is sent with, tagging `returnPath` with the
+ * email's id (VERP), e.g. `bounces+<id>@example.com`. Bounces come back to
+ * this address, which says which email they're about.
+ */
+export function verpAddress(returnPath: string, transactionId: string): string {
+  const [local, domain] = splitAddress(returnPath);
+  return `${local}+${transactionId}@${domain}`;
+}
+
+/** The email id a VERP address was made for, or null if it isn't one. */
+export function parseVerpAddress(
+  returnPath: string,
+  address: string,
+): string | null {
+  const [local, domain] = splitAddress(returnPath.toLowerCase());
+  const [addressLocal, addressDomain] = splitAddress(address.toLowerCase());
+  if (addressDomain !== domain || !addressLocal.startsWith(`${local}+`)) {
+    return null;
+  }
+  const id = addressLocal.slice(local.length + 1);
+  return UUID_PATTERN.test(id) ? id : null;
+}
+
+/** Whether `address` is the return path itself or one of its VERP variants. */
+export function isReturnPath(returnPath: string, address: string): boolean {
+  const [local, domain] = splitAddress(returnPath.toLowerCase());
+  const [addressLocal, addressDomain] = splitAddress(address.toLowerCase());
+  return (
+    addressDomain === domain &&
+    (addressLocal === local || addressLocal.startsWith(`${local}+`))
+  );
+}
+
+function splitAddress(address: string): [string, string] {
+  const at = address.lastIndexOf('@');
+  return at < 0 ? [address, ''] : [address.slice(0, at), address.slice(at + 1)];
+}
@@ -0,0 +1,46 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { envJsonObject, envNumber, envString } from './env';
+
+export interface AttachmentPolicy {
+  maxFiles: number;
+  maxFileBytes: number;
+  /** Attachments and inline images together. */
+  maxTotalBytes: number;
+  allowedTypes: string[];
+}
+
+/** Mirrors ACCEPTED_FILE_TYPES in the web app's SendEmailForm. */
+const DEFAULT_ALLOWED_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/plain',
+];
+
+export const attachmentsConfig = registerAs('attachments', () => ({
+  defaults: {
+    maxFiles: envNumber('ATTACHMENT_MAX_FILES', 10),
+    maxFileBytes: envNumber('ATTACHMENT_MAX_FILE_BYTES', 10 * 1024 * 1024),
+    maxTotalBytes: envNumber('ATTACHMENT_MAX_TOTAL_BYTES', 15 * 1024 * 1024),
+    allowedTypes:
+      envString('ATTACHMENT_ALLOWED_TYPES')
+        ?.split(',')
+        .map((type) => type.trim())
+        .filter(Boolean) ?? DEFAULT_ALLOWED_TYPES,
+  } satisfies AttachmentPolicy,
+  /**
+   * Per-source overrides keyed by `source`, e.g.
+   * `{"QR-something":{"allowedTypes":["application/pdf"]}}`.
+   */
+  sources: envJsonObject<Partial<AttachmentPolicy>>(
+    'ATTACHMENT_SOURCE_POLICIES',
+    'object',
+  ),
+}));
+
+export type AttachmentsConfig = ConfigType<typeof attachmentsConfig>;
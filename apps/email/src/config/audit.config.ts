@@ -0,0 +1,66 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { envString } from './env';
+
+/** Built-in redaction rules; see src/audit/redaction.ts. */
+export const BUILT_IN_REDACTIONS = ['nric', 'card', 'account'] as const;
+
+export type BuiltInRedaction = (typeof BUILT_IN_REDACTIONS)[number];
+
+function parseBuiltInRedactions(): BuiltInRedaction[] {
+  const raw = envString('AUDIT_REDACTIONS');
+  if (raw === undefined) {
+    return [...BUILT_IN_REDACTIONS];
+  }
+  const names = raw
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  const unknown = names.filter(
+    (name) => !(BUILT_IN_REDACTIONS as readonly string[]).includes(name),
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `AUDIT_REDACTIONS may only list ${BUILT_IN_REDACTIONS.join(', ')}; got ${unknown.join(', ')}`,
+    );
+  }
+  return names as BuiltInRedaction[];
+}
+
+function parseCustomRedactions(): Record<string, RegExp> {
+  const raw = envString('AUDIT_CUSTOM_REDACTIONS');
+  if (!raw) {
+    return {};
+  }
+  let patterns: unknown;
+  try {
+    patterns = JSON.parse(raw);
+  } catch {
+    throw new Error('AUDIT_CUSTOM_REDACTIONS must be a JSON object');
+  }
+  if (typeof patterns !== 'object' || patterns === null) {
+    throw new Error('AUDIT_CUSTOM_REDACTIONS must be a JSON object');
+  }
+  return Object.fromEntries(
+    Object.entries(patterns).map(([name, pattern]) => {
+      try {
+        return [name, new RegExp(String(pattern), 'g')];
+      } catch {
+        throw new Error(
+          `AUDIT_CUSTOM_REDACTIONS.${name} is not a valid regular expression`,
+        );
+      }
+    }),
+  );
+}
+
+export const auditConfig = registerAs('audit', () => ({
+  /** Built-in rules applied to everything recorded in the audit log. */
+  redactions: parseBuiltInRedactions(),
+  /**
+   * Extra patterns to mask, by name, e.g.
+   * `{"passport":"\\b[A-Z]\\d{8}\\b"}`.
+   */
+  customRedactions: parseCustomRedactions(),
+}));
+
+export type AuditConfig = ConfigType<typeof auditConfig>;
@@ -0,0 +1,28 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { envBoolean, envNumber, envString } from './env';
+
+/** Only for local development, where every request is treated as the admin. */
+function parseEnabled(): boolean {
+  const enabled = envBoolean('AUTH_ENABLED', true);
+  if (!enabled && envString('EMAIL_ENVIRONMENT') === 'production') {
+    throw new Error('AUTH_ENABLED=false cannot be used in production');
+  }
+  return enabled;
+}
+
+export const authConfig = registerAs('auth', () => ({
+  /** Only for local development: treats every request as the admin. */
+  enabled: parseEnabled(),
+  /**
+   * Operator credential for managing API keys, templates and dead letters.
+   * Admin endpoints are unreachable while it is unset.
+   */
+  adminToken: envString('EMAIL_ADMIN_TOKEN'),
+  /** How long a rotated key keeps working so callers can switch over. */
+  rotationGraceSeconds: envNumber(
+    'API_KEY_ROTATION_GRACE_SECONDS',
+    24 * 60 * 60,
+  ),
+}));
+
+export type AuthConfig = ConfigType<typeof authConfig>;
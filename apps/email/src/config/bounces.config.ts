@@ -0,0 +1,36 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { envBoolean, envNumber, envString } from './env';
+
+/**
+ * Where bounce reports come from. Either source, or both, can be enabled;
+ * with neither, bounces go unnoticed.
+ */
+export const bouncesConfig = registerAs('bounces', () => ({
+  /**
+   * Mailbox bounces are sent to, e.g. bounces@example.com. When set, each
+   * email goes out with its own return path (bounces+<id>@example.com) so a
+   * report can be traced back to it even if it leaves out the Message-ID.
+   */
+  returnPath: envString('BOUNCE_RETURN_PATH'),
+  /** Accept reports over SMTP, e.g. relayed by the MTA for the return path. */
+  smtpEnabled: envBoolean('BOUNCE_SMTP_ENABLED', false),
+  smtpHost: envString('BOUNCE_SMTP_HOST', '127.0.0.1'),
+  smtpPort: envNumber('BOUNCE_SMTP_PORT', 2525),
+  smtpMaxMessageBytes: envNumber(
+    'BOUNCE_SMTP_MAX_MESSAGE_BYTES',
+    10 * 1024 * 1024,
+  ),
+  /** Read reports from an IMAP mailbox; disabled while unset. */
+  imapHost: envString('BOUNCE_IMAP_HOST'),
+  imapPort: envNumber('BOUNCE_IMAP_PORT', 993),
+  imapSecure: envBoolean('BOUNCE_IMAP_SECURE', true),
+  imapUser: envString('BOUNCE_IMAP_USER'),
+  imapPass: envString('BOUNCE_IMAP_PASS'),
+  imapMailbox: envString('BOUNCE_IMAP_MAILBOX', 'INBOX'),
+  imapPollIntervalMs: envNumber('BOUNCE_IMAP_POLL_INTERVAL_MS', 60_000),
+  imapBatchSize: envNumber('BOUNCE_IMAP_BATCH_SIZE', 50),
+  /** Where messages that keep failing are moved, created if missing. */
+  imapFailedMailbox: envString('BOUNCE_IMAP_FAILED_MAILBOX', 'Bounces-Failed'),
+}));
+
+export type BouncesConfig = ConfigType<typeof bouncesConfig>;
@@ -0,0 +1,35 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { envBoolean, envNumber, envString } from './env';
+
+/** Only for a local Postgres with a self-signed certificate. */
+function parseSslAllowUnverified(): boolean {
+  const allow = envBoolean('DB_SSL_ALLOW_UNVERIFIED', false);
+  if (allow && envString('EMAIL_ENVIRONMENT') === 'production') {
+    throw new Error('DB_SSL_ALLOW_UNVERIFIED cannot be used in production');
+  }
+  return allow;
+}
+
+/**
+ * Postgres connection settings. The defaults match the postgres service in
+ * docker-compose.yml.
+ */
+export const databaseConfig = registerAs('database', () => ({
+  host: envString('DB_HOST', 'localhost'),
+  port: envNumber('DB_PORT', 5432),
+  username: envString('DB_USER', 'postgres'),
+  password: envString('DB_PASSWORD', 'postgre'),
+  database: envString('DB_NAME', 'postgres'),
+  ssl: envBoolean('DB_SSL', false),
+  /**
+   * PEM file of the CAs that sign the server's certificate, e.g. a cloud
+   * provider's bundle. Without it, Node's built-in CAs are trusted.
+   */
+  sslCaFile: envString('DB_SSL_CA_FILE'),
+  /** Connects over TLS without checking whose certificate it is. */
+  sslAllowUnverified: parseSslAllowUnverified(),
+  runMigrations: envBoolean('DB_RUN_MIGRATIONS', true),
+  logging: envBoolean('DB_LOGGING', false),
+}));
+
+export type DatabaseConfig = ConfigType<typeof databaseConfig>;
@@ -0,0 +1,26 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { envBoolean, envNumber } from './env';
+
+export const emailConfig = registerAs('email', () => ({
+  /**
+   * How long a txnRefNo is remembered as an idempotency key. Within the
+   * window a repeated request replays the original outcome; afterwards the
+   * txnRefNo may be reused for a new email.
+   */
+  idempotencyWindowSeconds: envNumber(
+    'EMAIL_IDEMPOTENCY_WINDOW_SECONDS',
+    24 * 60 * 60,
+  ),
+  /**
+   * Reject emails whose HTML references a `cid:` image that wasn't uploaded,
+   * instead of sending them with broken images.
+   */
+  rejectMissingInlineImages: envBoolean(
+    'EMAIL_REJECT_MISSING_INLINE_IMAGES',
+    true,
+  ),
+  /** Most recipients one bulk send may address. */
+  batchMaxRecipients: envNumber('EMAIL_BATCH_MAX_RECIPIENTS', 1000),
+}));
+
+export type EmailConfig = ConfigType<typeof emailConfig>;
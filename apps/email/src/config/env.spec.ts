@@ -0,0 +1,47 @@
+import { envJsonObject } from './env';
+
+describe('envJsonObject', () => {
+  const name = 'TEST_JSON_OBJECT';
+
+  afterEach(() => {
+    delete process.env[name];
+  });
+
+  it('reads JSON objects, and nothing as an empty one', () => {
+    expect(envJsonObject(name, 'object')).toEqual({});
+
+    process.env[name] = '{"Testing":{"requestsPerSecond":1}}';
+    expect(envJsonObject(name, 'object')).toEqual({
+      Testing: { requestsPerSecond: 1 },
+    });
+  });
+
+  it.each([
+    ['{', 'TEST_JSON_OBJECT must be a JSON object; it is not valid JSON'],
+    ['null', 'TEST_JSON_OBJECT must be a JSON object; got null'],
+    ['[]', 'TEST_JSON_OBJECT must be a JSON object; got an array'],
+    ['"x"', 'TEST_JSON_OBJECT must be a JSON object; got a string'],
+    [
+      '{"Testing":null}',
+      'TEST_JSON_OBJECT.Testing must be a JSON object; got null',
+    ],
+  ])('refuses %s', (raw, message) => {
+    process.env[name] = raw;
+
+    expect(() => envJsonObject(name, 'object')).toThrow(new Error(message));
+  });
+
+  it('checks entries against the expected type', () => {
+    process.env[name] = '{"/api/email/send":"25mb"}';
+    expect(envJsonObject(name, 'string')).toEqual({
+      '/api/email/send': '25mb',
+    });
+
+    process.env[name] = '{"/api/email/send":25}';
+    expect(() => envJsonObject(name, 'string')).toThrow(
+      new Error(
+        'TEST_JSON_OBJECT./api/email/send must be a JSON string; got a number',
+      ),
+    );
+  });
+});
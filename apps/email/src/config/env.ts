@@ -0,0 +1,66 @@
+export function envString(name: string, fallback: string): string;
+export function envString(name: string): string | undefined;
+export function envString(name: string, fallback?: string) {
+  const value = process.env[name];
+  return value === undefined || value === '' ? fallback : value;
+}
+
+export function envNumber(name: string, fallback: number): number {
+  const value = Number(envString(name));
+  return Number.isFinite(value) && envString(name) !== undefined
+    ? value
+    : fallback;
+}
+
+export function envBoolean(name: string, fallback: boolean): boolean {
+  const value = envString(name);
+  if (value === undefined) {
+    return fallback;
+  }
+  return ['1', 'true', 'yes', 'on'].includes(value.toLowerCase());
+}
+
+/**
+ * A JSON object from the environment, or an empty one when unset. Anything
+ * else fails startup, as do entries that aren't of the `entries` type, so a
+ * stray `null` or array can't break lookups by key later.
+ */
+export function envJsonObject<T>(
+  name: string,
+  entries: 'object' | 'string',
+): Record<string, T> {
+  const raw = envString(name);
+  if (raw === undefined) {
+    return {};
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    throw new Error(`${name} must be a JSON object; it is not valid JSON`);
+  }
+  if (!isPlainObject(value)) {
+    throw new Error(`${name} must be a JSON object; got ${jsonType(value)}`);
+  }
+  for (const [key, entry] of Object.entries(value)) {
+    const valid =
+      entries === 'object' ? isPlainObject(entry) : typeof entry === 'string';
+    if (!valid) {
+      throw new Error(
+        `${name}.${key} must be a JSON ${entries}; got ${jsonType(entry)}`,
+      );
+    }
+  }
+  return value as Record<string, T>;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'an array' : `a ${typeof value}`;
+}
@@ -0,0 +1,45 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { envString } from './env';
+
+export enum RecipientMode {
+  /** Send to the recipients as addressed. */
+  Deliver = 'deliver',
+  /** Send everything to one catch-all address instead. */
+  Redirect = 'redirect',
+  /** Only send to addresses in the allowed domains. */
+  Allowlist = 'allowlist',
+}
+
+/**
+ * Outside production, emails are redirected unless another mode is chosen,
+ * so an environment that was never configured can't mail customers.
+ */
+function parseRecipientMode(production: boolean): RecipientMode {
+  const raw = envString('EMAIL_RECIPIENT_MODE');
+  if (!raw) {
+    return production ? RecipientMode.Deliver : RecipientMode.Redirect;
+  }
+  const modes = Object.values(RecipientMode) as string[];
+  if (!modes.includes(raw)) {
+    throw new Error(`EMAIL_RECIPIENT_MODE must be one of ${modes.join(', ')}`);
+  }
+  return raw as RecipientMode;
+}
+
+export const environmentConfig = registerAs('environment', () => {
+  const name = envString('EMAIL_ENVIRONMENT', 'development');
+  const production = name === 'production';
+  return {
+    /** Tags subjects outside production, e.g. `[staging]`. */
+    name,
+    production,
+    recipientMode: parseRecipientMode(production),
+    redirectTo: envString('EMAIL_REDIRECT_TO', 'catch-all@example.com'),
+    allowedDomains: (envString('EMAIL_ALLOWED_DOMAINS') ?? '')
+      .split(',')
+      .map((domain) => domain.trim().toLowerCase())
+      .filter(Boolean),
+  };
+});
+
+export type EnvironmentConfig = ConfigType<typeof environmentConfig>;
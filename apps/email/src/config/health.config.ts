@@ -0,0 +1,20 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { envNumber } from './env';
+
+export const healthConfig = registerAs('health', () => ({
+  /** How long each check may take before it counts as down. */
+  checkTimeoutMs: envNumber('HEALTH_CHECK_TIMEOUT_MS', 5_000),
+  /**
+   * How long an SMTP handshake result is reused, so frequent probes don't
+   * open a connection to the relay every time.
+   */
+  smtpCacheMs: envNumber('HEALTH_SMTP_CACHE_MS', 30_000),
+  /** A due job waiting longer than this flags the queue as lagging. */
+  queueMaxLagMs: envNumber('HEALTH_QUEUE_MAX_LAG_MS', 5 * 60 * 1_000),
+  /** More due jobs than this flags the queue as backed up. */
+  queueMaxBacklog: envNumber('HEALTH_QUEUE_MAX_BACKLOG', 1_000),
+  /** The worker counts as stuck when it hasn't polled for this long. */
+  workerMaxSilenceMs: envNumber('HEALTH_WORKER_MAX_SILENCE_MS', 5 * 60 * 1_000),
+}));
+
+export type HealthConfig = ConfigType<typeof healthConfig>;
@@ -0,0 +1,18 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { envJsonObject, envString } from './env';
+
+export const httpConfig = registerAs('http', () => ({
+  /** Request body limit for routes without their own, e.g. `100kb`. */
+  bodyLimit: envString('HTTP_BODY_LIMIT', '100kb'),
+  /**
+   * Larger limits for the routes that carry attachments, keyed by path. The
+   * defaults fit the 15 MB attachment policy once base64 encoded.
+   */
+  routeBodyLimits: {
+    '/api/email/send': '25mb',
+    '/api/email/batches': '25mb',
+    ...envJsonObject<string>('HTTP_ROUTE_BODY_LIMITS', 'string'),
+  },
+}));
+
+export type HttpConfig = ConfigType<typeof httpConfig>;
@@ -0,0 +1,66 @@
+import type { LogLevel } from '@nestjs/common';
+import { ConfigType, registerAs } from '@nestjs/config';
+import { envString } from './env';
+
+/** From most to least severe; each level includes those before it. */
+export const LOG_LEVELS: readonly LogLevel[] = [
+  'fatal',
+  'error',
+  'warn',
+  'log',
+  'debug',
+  'verbose',
+];
+
+function parseLevel(name: string, value: string): LogLevel {
+  const level = value.trim().toLowerCase() as LogLevel;
+  if (!LOG_LEVELS.includes(level)) {
+    throw new Error(
+      `${name} must be one of ${LOG_LEVELS.join(', ')}; got ${value}`,
+    );
+  }
+  return level;
+}
+
+function parseModuleLevels(): Record<string, LogLevel> {
+  const raw = envString('LOG_LEVELS');
+  if (!raw) {
+    return {};
+  }
+  return Object.fromEntries(
+    raw
+      .split(',')
+      .filter((entry) => entry.trim() !== '')
+      .map((entry) => {
+        const [context, level] = entry.split('=');
+        if (!context?.trim() || level === undefined) {
+          throw new Error(
+            `LOG_LEVELS entries must look like EmailDeliveryWorker=debug; got ${entry}`,
+          );
+        }
+        return [context.trim(), parseLevel(`LOG_LEVELS.${context}`, level)];
+      }),
+  );
+}
+
+function parseFormat(): 'json' | 'text' {
+  const format = envString('LOG_FORMAT', 'json');
+  if (format !== 'json' && format !== 'text') {
+    throw new Error(`LOG_FORMAT must be json or text; got ${format}`);
+  }
+  return format;
+}
+
+export const loggingConfig = registerAs('logging', () => ({
+  /** `json`, one object per line, or `text` for reading in a terminal. */
+  format: parseFormat(),
+  /** The most verbose level logged by default. */
+  level: parseLevel('LOG_LEVEL', envString('LOG_LEVEL', 'log')),
+  /**
+   * Levels for single loggers, by context (usually the class name), e.g.
+   * `EmailDeliveryWorker=debug,HTTP=warn`.
+   */
+  moduleLevels: parseModuleLevels(),
+}));
+
+export type LoggingConfig = ConfigType<typeof loggingConfig>;
@@ -0,0 +1,11 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { envBoolean } from './env';
+
+export const metricsConfig = registerAs('metrics', () => ({
+  /** Serves `GET /api/metrics`; when off, it answers 404. */
+  enabled: envBoolean('METRICS_ENABLED', true),
+  /** Also exports Node.js process metrics: CPU, memory, event loop lag. */
+  processMetrics: envBoolean('METRICS_PROCESS_METRICS', true),
+}));
+
+export type MetricsConfig = ConfigType<typeof metricsConfig>;
@@ -0,0 +1,16 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { envBoolean, envNumber } from './env';
+
+export const queueConfig = registerAs('queue', () => ({
+  /** Disable to run an API-only instance that never delivers mail itself. */
+  workerEnabled: envBoolean('EMAIL_QUEUE_WORKER_ENABLED', true),
+  pollIntervalMs: envNumber('EMAIL_QUEUE_POLL_INTERVAL_MS', 1_000),
+  batchSize: envNumber('EMAIL_QUEUE_BATCH_SIZE', 10),
+  maxAttempts: envNumber('EMAIL_QUEUE_MAX_ATTEMPTS', 5),
+  backoffBaseMs: envNumber('EMAIL_QUEUE_BACKOFF_BASE_MS', 30_000),
+  backoffMaxMs: envNumber('EMAIL_QUEUE_BACKOFF_MAX_MS', 60 * 60 * 1_000),
+  /** Jobs locked longer than this are assumed abandoned by a dead worker. */
+  lockTimeoutMs: envNumber('EMAIL_QUEUE_LOCK_TIMEOUT_MS', 5 * 60 * 1_000),
+}));
+
+export type QueueConfig = ConfigType<typeof queueConfig>;
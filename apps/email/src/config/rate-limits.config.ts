@@ -0,0 +1,28 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { envJsonObject, envNumber } from './env';
+
+/** Limits on a source's use of the send endpoint; 0 disables a limit. */
+export interface RateLimits {
+  requestsPerSecond: number;
+  /** Unique to, cc and bcc addresses of accepted emails. */
+  recipientsPerHour: number;
+  recipientsPerDay: number;
+}
+
+export const rateLimitsConfig = registerAs('rateLimits', () => ({
+  defaults: {
+    requestsPerSecond: envNumber('RATE_LIMIT_REQUESTS_PER_SECOND', 10),
+    recipientsPerHour: envNumber('RATE_LIMIT_RECIPIENTS_PER_HOUR', 1_000),
+    recipientsPerDay: envNumber('RATE_LIMIT_RECIPIENTS_PER_DAY', 10_000),
+  } satisfies RateLimits,
+  /**
+   * Per-source overrides keyed by `source`, e.g.
+   * `{"QR-something":{"recipientsPerDay":50000}}`.
+   */
+  sources: envJsonObject<Partial<RateLimits>>(
+    'RATE_LIMIT_SOURCE_LIMITS',
+    'object',
+  ),
+}));
+
+export type RateLimitsConfig = ConfigType<typeof rateLimitsConfig>;
@@ -0,0 +1,23 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { envBoolean, envNumber, envString } from './env';
+
+/**
+ * SMTP relay settings. The defaults target the Mailpit container from
+ * docker-compose.yml so local development never leaves the machine.
+ */
+export const smtpConfig = registerAs('smtp', () => ({
+  host: envString('SMTP_HOST', 'localhost'),
+  port: envNumber('SMTP_PORT', 1025),
+  secure: envBoolean('SMTP_SECURE', false),
+  requireTLS: envBoolean('SMTP_REQUIRE_TLS', false),
+  ignoreTLS: envBoolean('SMTP_IGNORE_TLS', false),
+  rejectUnauthorized: envBoolean('SMTP_TLS_REJECT_UNAUTHORIZED', true),
+  user: envString('SMTP_USER'),
+  pass: envString('SMTP_PASS'),
+  pool: envBoolean('SMTP_POOL', false),
+  maxConnections: envNumber('SMTP_MAX_CONNECTIONS', 5),
+  maxMessages: envNumber('SMTP_MAX_MESSAGES', 100),
+  connectionTimeout: envNumber('SMTP_CONNECTION_TIMEOUT_MS', 10_000),
+}));
+
+export type SmtpConfig = ConfigType<typeof smtpConfig>;
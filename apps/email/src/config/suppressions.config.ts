@@ -0,0 +1,14 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { envString } from './env';
+
+export const suppressionsConfig = registerAs('suppressions', () => ({
+  /** Where recipients can reach this service, for unsubscribe links. */
+  publicUrl: envString('EMAIL_PUBLIC_URL', 'http://localhost:3000'),
+  /**
+   * Signs unsubscribe links so they can't be forged for other addresses.
+   * Marketing emails go out without List-Unsubscribe headers while unset.
+   */
+  unsubscribeSecret: envString('UNSUBSCRIBE_SECRET'),
+}));
+
+export type SuppressionsConfig = ConfigType<typeof suppressionsConfig>;
@@ -0,0 +1,12 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { envString } from './env';
+
+export const templatesConfig = registerAs('templates', () => ({
+  /** Locale the `currency`, `number` and `date` formatters default to. */
+  locale: envString('TEMPLATE_LOCALE', 'en-MY'),
+  currency: envString('TEMPLATE_CURRENCY', 'MYR'),
+  /** Dates are shown in this zone, not the server's. */
+  timeZone: envString('TEMPLATE_TIME_ZONE', 'Asia/Kuala_Lumpur'),
+}));
+
+export type TemplatesConfig = ConfigType<typeof templatesConfig>;
@@ -0,0 +1,31 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { envBoolean, envNumber, envString } from './env';
+
+/** Only for trying webhooks out against a receiver on this machine. */
+function parseAllowPrivateUrls(): boolean {
+  const allow = envBoolean('WEBHOOK_ALLOW_PRIVATE_URLS', false);
+  if (allow && envString('EMAIL_ENVIRONMENT') === 'production') {
+    throw new Error('WEBHOOK_ALLOW_PRIVATE_URLS cannot be used in production');
+  }
+  return allow;
+}
+
+export const webhooksConfig = registerAs('webhooks', () => ({
+  /** Disable to leave callbacks to other instances. */
+  workerEnabled: envBoolean('WEBHOOK_WORKER_ENABLED', true),
+  pollIntervalMs: envNumber('WEBHOOK_POLL_INTERVAL_MS', 1_000),
+  batchSize: envNumber('WEBHOOK_BATCH_SIZE', 10),
+  maxAttempts: envNumber('WEBHOOK_MAX_ATTEMPTS', 8),
+  backoffBaseMs: envNumber('WEBHOOK_BACKOFF_BASE_MS', 10_000),
+  backoffMaxMs: envNumber('WEBHOOK_BACKOFF_MAX_MS', 60 * 60 * 1_000),
+  /** How long a receiver has to answer before the attempt counts as failed. */
+  timeoutMs: envNumber('WEBHOOK_TIMEOUT_MS', 10_000),
+  lockTimeoutMs: envNumber('WEBHOOK_LOCK_TIMEOUT_MS', 5 * 60 * 1_000),
+  /**
+   * Lets webhooks call loopback and private addresses, which are otherwise
+   * refused when registered and again before every call.
+   */
+  allowPrivateUrls: parseAllowPrivateUrls(),
+}));
+
+export type WebhooksConfig = ConfigType<typeof webhooksConfig>;
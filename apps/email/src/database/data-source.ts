@@ -0,0 +1,7 @@
+import 'reflect-metadata';
+import { DataSource } from 'typeorm';
+import { databaseConfig } from '../config/database.config';
+import { createTypeOrmOptions } from './typeorm-options';
+
+// Used by the TypeORM CLI (see the `migration:*` scripts in package.json).
+export default new DataSource(createTypeOrmOptions(databaseConfig()));
@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateEmailTransactions1760860800000
+  implements MigrationInterface
+{
+  name = 'CreateEmailTransactions1760860800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "email_transactions" (
+        "id" uuid NOT NULL DEFAULT gen_random_uuid(),
+        "txn_ref_no" varchar(128) NOT NULL,
+        "source" varchar(128) NOT NULL,
+        "from_address" varchar(320) NOT NULL,
+        "to_recipients" text[] NOT NULL,
+        "cc_recipients" text[] NOT NULL DEFAULT '{}',
+        "bcc_recipients" text[] NOT NULL DEFAULT '{}',
+        "subject" text NOT NULL,
+        "template_id" integer,
+        "status" varchar(32) NOT NULL DEFAULT 'received',
+        "message_id" varchar(998),
+        "provider_response" text,
+        "error_code" varchar(64),
+        "error_message" text,
+        "created_at" timestamptz NOT NULL DEFAULT now(),
+        "updated_at" timestamptz NOT NULL DEFAULT now(),
+        "sent_at" timestamptz,
+        "failed_at" timestamptz,
+        CONSTRAINT "PK_email_transactions" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_email_transactions_txn_ref_no" ON "email_transactions" ("txn_ref_no")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_email_transactions_source" ON "email_transactions" ("source")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_email_transactions_status" ON "email_transactions" ("status")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "email_transactions"`);
+  }
+}
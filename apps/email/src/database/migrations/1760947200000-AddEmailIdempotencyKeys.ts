@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEmailIdempotencyKeys1760947200000
+  implements MigrationInterface
+{
+  name = 'AddEmailIdempotencyKeys1760947200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // A txnRefNo may be reused once its idempotency window has passed, so it
+    // is no longer unique across the transaction history.
+    await queryRunner.query(`DROP INDEX "UQ_email_transactions_txn_ref_no"`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_email_transactions_txn_ref_no" ON "email_transactions" ("txn_ref_no")`,
+    );
+    await queryRunner.query(`
+      CREATE TABLE "email_idempotency_keys" (
+        "txn_ref_no" varchar(128) NOT NULL,
+        "request_hash" char(64) NOT NULL,
+        "transaction_id" uuid NOT NULL,
+        "created_at" timestamptz NOT NULL DEFAULT now(),
+        "expires_at" timestamptz NOT NULL,
+        CONSTRAINT "PK_email_idempotency_keys" PRIMARY KEY ("txn_ref_no"),
+        CONSTRAINT "FK_email_idempotency_keys_transaction" FOREIGN KEY ("transaction_id")
+          REFERENCES "email_transactions" ("id") ON DELETE CASCADE
+          DEFERRABLE INITIALLY DEFERRED
+      )
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "email_idempotency_keys"`);
+    await queryRunner.query(`DROP INDEX "IDX_email_transactions_txn_ref_no"`);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_email_transactions_txn_ref_no" ON "email_transactions" ("txn_ref_no")`,
+    );
+  }
+}
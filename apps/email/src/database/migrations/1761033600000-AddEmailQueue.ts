@@ -0,0 +1,54 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEmailQueue1761033600000 implements MigrationInterface {
+  name = 'AddEmailQueue1761033600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "email_jobs" (
+        "id" uuid NOT NULL DEFAULT gen_random_uuid(),
+        "transaction_id" uuid NOT NULL,
+        "payload" jsonb NOT NULL,
+        "state" varchar(16) NOT NULL DEFAULT 'pending',
+        "attempts" integer NOT NULL DEFAULT 0,
+        "max_attempts" integer NOT NULL,
+        "next_attempt_at" timestamptz NOT NULL DEFAULT now(),
+        "locked_at" timestamptz,
+        "locked_by" varchar(128),
+        "created_at" timestamptz NOT NULL DEFAULT now(),
+        "updated_at" timestamptz NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_email_jobs" PRIMARY KEY ("id"),
+        CONSTRAINT "REL_email_jobs_transaction_id" UNIQUE ("transaction_id"),
+        CONSTRAINT "FK_email_jobs_transaction" FOREIGN KEY ("transaction_id")
+          REFERENCES "email_transactions" ("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_email_jobs_due" ON "email_jobs" ("state", "next_attempt_at")`,
+    );
+    await queryRunner.query(`
+      CREATE TABLE "email_delivery_attempts" (
+        "id" uuid NOT NULL DEFAULT gen_random_uuid(),
+        "transaction_id" uuid NOT NULL,
+        "attempt_number" integer NOT NULL,
+        "worker" varchar(128) NOT NULL,
+        "outcome" varchar(16) NOT NULL,
+        "response_code" varchar(64),
+        "response" text,
+        "started_at" timestamptz NOT NULL,
+        "finished_at" timestamptz NOT NULL,
+        CONSTRAINT "PK_email_delivery_attempts" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_email_delivery_attempts_transaction" FOREIGN KEY ("transaction_id")
+          REFERENCES "email_transactions" ("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_email_delivery_attempts_transaction_id" ON "email_delivery_attempts" ("transaction_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "email_delivery_attempts"`);
+    await queryRunner.query(`DROP TABLE "email_jobs"`);
+  }
+}
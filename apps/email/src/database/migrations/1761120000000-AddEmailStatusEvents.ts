@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEmailStatusEvents1761120000000 implements MigrationInterface {
+  name = 'AddEmailStatusEvents1761120000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "email_status_events" (
+        "id" uuid NOT NULL DEFAULT gen_random_uuid(),
+        "transaction_id" uuid NOT NULL,
+        "status" varchar(32) NOT NULL,
+        "detail" text,
+        "occurred_at" timestamptz NOT NULL DEFAULT clock_timestamp(),
+        CONSTRAINT "PK_email_status_events" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_email_status_events_transaction" FOREIGN KEY ("transaction_id")
+          REFERENCES "email_transactions" ("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_email_status_events_transaction" ON "email_status_events" ("transaction_id", "occurred_at")`,
+    );
+    // Seed the timeline of existing emails with their current status.
+    await queryRunner.query(`
+      INSERT INTO "email_status_events" ("transaction_id", "status", "occurred_at")
+      SELECT "id", "status", "updated_at" FROM "email_transactions"
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "email_status_events"`);
+  }
+}
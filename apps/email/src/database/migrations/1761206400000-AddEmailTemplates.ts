@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEmailTemplates1761206400000 implements MigrationInterface {
+  name = 'AddEmailTemplates1761206400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "email_templates" (
+        "id" SERIAL NOT NULL,
+        "name" varchar(100) NOT NULL,
+        "description" text,
+        "subject" text NOT NULL,
+        "html" text,
+        "text" text,
+        "variables" jsonb NOT NULL DEFAULT '{}',
+        "active" boolean NOT NULL DEFAULT true,
+        "version" integer NOT NULL DEFAULT 1,
+        "created_at" timestamptz NOT NULL DEFAULT now(),
+        "updated_at" timestamptz NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_email_templates" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_email_templates_name" ON "email_templates" ("name")`,
+    );
+    // No foreign key: emails sent before the registry existed carry
+    // template ids that were never registered.
+    await queryRunner.query(
+      `ALTER TABLE "email_transactions" ADD "template_version" integer`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "email_transactions" DROP COLUMN "template_version"`,
+    );
+    await queryRunner.query(`DROP TABLE "email_templates"`);
+  }
+}
@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEmailApiKeys1761292800000 implements MigrationInterface {
+  name = 'AddEmailApiKeys1761292800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "email_api_keys" (
+        "id" uuid NOT NULL DEFAULT gen_random_uuid(),
+        "source" varchar(128) NOT NULL,
+        "name" varchar(100),
+        "key_prefix" varchar(16) NOT NULL,
+        "key_hash" varchar(64) NOT NULL,
+        "created_at" timestamptz NOT NULL DEFAULT now(),
+        "expires_at" timestamptz,
+        "last_used_at" timestamptz,
+        "revoked_at" timestamptz,
+        CONSTRAINT "PK_email_api_keys" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_email_api_keys_key_hash" ON "email_api_keys" ("key_hash")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_email_api_keys_source" ON "email_api_keys" ("source")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "email_api_keys"`);
+  }
+}
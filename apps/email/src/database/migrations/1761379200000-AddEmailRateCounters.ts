@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEmailRateCounters1761379200000 implements MigrationInterface {
+  name = 'AddEmailRateCounters1761379200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "email_rate_counters" (
+        "source" varchar(128) NOT NULL,
+        "window" varchar(16) NOT NULL,
+        "window_start" timestamptz NOT NULL,
+        "expires_at" timestamptz NOT NULL,
+        "count" integer NOT NULL DEFAULT 0,
+        CONSTRAINT "PK_email_rate_counters" PRIMARY KEY ("source", "window", "window_start")
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_email_rate_counters_expires_at" ON "email_rate_counters" ("expires_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "email_rate_counters"`);
+  }
+}
@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEmailBatches1761465600000 implements MigrationInterface {
+  name = 'AddEmailBatches1761465600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "email_batches" (
+        "id" uuid NOT NULL DEFAULT gen_random_uuid(),
+        "txn_ref_no" varchar(128) NOT NULL,
+        "source" varchar(128) NOT NULL,
+        "request_hash" varchar(64) NOT NULL,
+        "total" integer NOT NULL,
+        "shared_files" jsonb NOT NULL,
+        "created_at" timestamptz NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_email_batches" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_email_batches_txn_ref_no" ON "email_batches" ("txn_ref_no")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_email_batches_source" ON "email_batches" ("source")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "email_transactions" ADD "batch_id" uuid`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "email_transactions" ADD CONSTRAINT "FK_email_transactions_batch"
+         FOREIGN KEY ("batch_id") REFERENCES "email_batches" ("id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_email_transactions_batch_id" ON "email_transactions" ("batch_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "email_transactions" DROP COLUMN "batch_id"`,
+    );
+    await queryRunner.query(`DROP TABLE "email_batches"`);
+  }
+}
@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEmailSendAt1761552000000 implements MigrationInterface {
+  name = 'AddEmailSendAt1761552000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "email_transactions" ADD "send_at" timestamptz`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "email_transactions" DROP COLUMN "send_at"`,
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEmailStatusEventActor1761638400000
+  implements MigrationInterface
+{
+  name = 'AddEmailStatusEventActor1761638400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "email_status_events" ADD "actor" varchar(256)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "email_status_events" DROP COLUMN "actor"`,
+    );
+  }
+}
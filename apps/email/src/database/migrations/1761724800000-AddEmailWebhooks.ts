@@ -0,0 +1,79 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEmailWebhooks1761724800000 implements MigrationInterface {
+  name = 'AddEmailWebhooks1761724800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "email_webhooks" (
+        "id" uuid NOT NULL DEFAULT gen_random_uuid(),
+        "source" varchar(128) NOT NULL,
+        "url" varchar(2048) NOT NULL,
+        "events" varchar(32) array NOT NULL,
+        "secret" varchar(64) NOT NULL,
+        "created_at" timestamptz NOT NULL DEFAULT now(),
+        "updated_at" timestamptz NOT NULL DEFAULT now(),
+        "disabled_at" timestamptz,
+        CONSTRAINT "PK_email_webhooks" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_email_webhooks_source" ON "email_webhooks" ("source")`,
+    );
+    await queryRunner.query(`
+      CREATE TABLE "email_webhook_deliveries" (
+        "id" uuid NOT NULL DEFAULT gen_random_uuid(),
+        "webhook_id" uuid NOT NULL,
+        "transaction_id" uuid NOT NULL,
+        "event" varchar(32) NOT NULL,
+        "payload" jsonb NOT NULL,
+        "state" varchar(16) NOT NULL DEFAULT 'pending',
+        "attempts" integer NOT NULL DEFAULT 0,
+        "max_attempts" integer NOT NULL,
+        "next_attempt_at" timestamptz NOT NULL DEFAULT now(),
+        "locked_at" timestamptz,
+        "locked_by" varchar(128),
+        "created_at" timestamptz NOT NULL DEFAULT now(),
+        "delivered_at" timestamptz,
+        CONSTRAINT "PK_email_webhook_deliveries" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_email_webhook_deliveries_webhook" FOREIGN KEY ("webhook_id")
+          REFERENCES "email_webhooks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_email_webhook_deliveries_transaction" FOREIGN KEY ("transaction_id")
+          REFERENCES "email_transactions" ("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_email_webhook_deliveries_due" ON "email_webhook_deliveries" ("state", "next_attempt_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_email_webhook_deliveries_webhook" ON "email_webhook_deliveries" ("webhook_id", "created_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_email_webhook_deliveries_transaction_id" ON "email_webhook_deliveries" ("transaction_id")`,
+    );
+    await queryRunner.query(`
+      CREATE TABLE "email_webhook_attempts" (
+        "id" uuid NOT NULL DEFAULT gen_random_uuid(),
+        "delivery_id" uuid NOT NULL,
+        "attempt_number" integer NOT NULL,
+        "worker" varchar(128) NOT NULL,
+        "status_code" integer,
+        "response" text,
+        "started_at" timestamptz NOT NULL,
+        "finished_at" timestamptz NOT NULL,
+        CONSTRAINT "PK_email_webhook_attempts" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_email_webhook_attempts_delivery" FOREIGN KEY ("delivery_id")
+          REFERENCES "email_webhook_deliveries" ("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_email_webhook_attempts_delivery_id" ON "email_webhook_attempts" ("delivery_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "email_webhook_attempts"`);
+    await queryRunner.query(`DROP TABLE "email_webhook_deliveries"`);
+    await queryRunner.query(`DROP TABLE "email_webhooks"`);
+  }
+}
@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEmailSuppressions1761811200000 implements MigrationInterface {
+  name = 'AddEmailSuppressions1761811200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "email_suppressions" (
+        "id" uuid NOT NULL DEFAULT gen_random_uuid(),
+        "email" varchar(320) NOT NULL,
+        "source" varchar(128),
+        "reason" varchar(32) NOT NULL,
+        "detail" text,
+        "actor" varchar(256),
+        "created_at" timestamptz NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_email_suppressions" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_email_suppressions_email_source" ON "email_suppressions" ("email", (COALESCE("source", '')))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "email_templates" ADD "category" varchar(16) NOT NULL DEFAULT 'transactional'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "email_transactions" ADD "category" varchar(16) NOT NULL DEFAULT 'transactional'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "email_transactions" DROP COLUMN "category"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "email_templates" DROP COLUMN "category"`,
+    );
+    await queryRunner.query(`DROP TABLE "email_suppressions"`);
+  }
+}
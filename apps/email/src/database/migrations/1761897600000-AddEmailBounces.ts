@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEmailBounces1761897600000 implements MigrationInterface {
+  name = 'AddEmailBounces1761897600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "email_bounces" (
+        "id" uuid NOT NULL DEFAULT gen_random_uuid(),
+        "transaction_id" uuid NOT NULL,
+        "recipient" varchar(320) NOT NULL,
+        "type" varchar(16) NOT NULL,
+        "action" varchar(16) NOT NULL,
+        "status" varchar(16),
+        "diagnostic_code" text,
+        "remote_mta" varchar(255),
+        "report_id" varchar(998),
+        "received_at" timestamptz NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_email_bounces" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_email_bounces_transaction" FOREIGN KEY ("transaction_id")
+          REFERENCES "email_transactions" ("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_email_bounces_transaction_id" ON "email_bounces" ("transaction_id")`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_email_bounces_report_recipient" ON "email_bounces" ("report_id", "recipient")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_email_transactions_message_id" ON "email_transactions" ("message_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_email_transactions_message_id"`);
+    await queryRunner.query(`DROP TABLE "email_bounces"`);
+  }
+}
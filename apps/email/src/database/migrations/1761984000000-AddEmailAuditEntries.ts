@@ -0,0 +1,55 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEmailAuditEntries1761984000000 implements MigrationInterface {
+  name = 'AddEmailAuditEntries1761984000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "email_audit_entries" (
+        "id" uuid NOT NULL DEFAULT gen_random_uuid(),
+        "occurred_at" timestamptz NOT NULL DEFAULT now(),
+        "actor" varchar(256) NOT NULL,
+        "source" varchar(128),
+        "action" varchar(64) NOT NULL,
+        "target" varchar(256),
+        "outcome" varchar(16) NOT NULL,
+        "status_code" int NOT NULL,
+        "ip_address" varchar(64),
+        "details" jsonb NOT NULL,
+        CONSTRAINT "PK_email_audit_entries" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_email_audit_entries_occurred_at" ON "email_audit_entries" ("occurred_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_email_audit_entries_source_occurred_at" ON "email_audit_entries" ("source", "occurred_at")`,
+    );
+    // The log is append-only, whatever the application does.
+    await queryRunner.query(`
+      CREATE FUNCTION "email_audit_entries_append_only"() RETURNS trigger
+      LANGUAGE plpgsql AS $$
+      BEGIN
+        RAISE EXCEPTION 'email_audit_entries is append-only';
+      END
+      $$
+    `);
+    await queryRunner.query(`
+      CREATE TRIGGER "TR_email_audit_entries_append_only"
+      BEFORE UPDATE OR DELETE ON "email_audit_entries"
+      FOR EACH ROW EXECUTE FUNCTION "email_audit_entries_append_only"()
+    `);
+    await queryRunner.query(`
+      CREATE TRIGGER "TR_email_audit_entries_no_truncate"
+      BEFORE TRUNCATE ON "email_audit_entries"
+      FOR EACH STATEMENT EXECUTE FUNCTION "email_audit_entries_append_only"()
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "email_audit_entries"`);
+    await queryRunner.query(
+      `DROP FUNCTION "email_audit_entries_append_only"()`,
+    );
+  }
+}
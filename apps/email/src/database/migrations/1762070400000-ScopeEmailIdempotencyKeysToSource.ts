@@ -0,0 +1,49 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class ScopeEmailIdempotencyKeysToSource1762070400000
+  implements MigrationInterface
+{
+  name = 'ScopeEmailIdempotencyKeysToSource1762070400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Each source has its own txnRefNos, so one source reusing another's
+    // neither collides with it nor learns that it exists.
+    await queryRunner.query(
+      `ALTER TABLE "email_idempotency_keys" ADD "source" varchar(128)`,
+    );
+    await queryRunner.query(`
+      UPDATE "email_idempotency_keys" AS "key"
+      SET "source" = "transaction"."source"
+      FROM "email_transactions" AS "transaction"
+      WHERE "transaction"."id" = "key"."transaction_id"
+    `);
+    await queryRunner.query(
+      `ALTER TABLE "email_idempotency_keys" ALTER COLUMN "source" SET NOT NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "email_idempotency_keys" DROP CONSTRAINT "PK_email_idempotency_keys"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "email_idempotency_keys" ADD CONSTRAINT "PK_email_idempotency_keys" PRIMARY KEY ("source", "txn_ref_no")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "email_idempotency_keys" DROP CONSTRAINT "PK_email_idempotency_keys"`,
+    );
+    // Only the most recent claim of a txnRefNo fits the old key.
+    await queryRunner.query(`
+      DELETE FROM "email_idempotency_keys" AS "older"
+      USING "email_idempotency_keys" AS "newer"
+      WHERE "older"."txn_ref_no" = "newer"."txn_ref_no"
+        AND ("older"."created_at", "older"."ctid") < ("newer"."created_at", "newer"."ctid")
+    `);
+    await queryRunner.query(
+      `ALTER TABLE "email_idempotency_keys" ADD CONSTRAINT "PK_email_idempotency_keys" PRIMARY KEY ("txn_ref_no")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "email_idempotency_keys" DROP COLUMN "source"`,
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class ScopeEmailBatchesToSource1762156800000
+  implements MigrationInterface
+{
+  name = 'ScopeEmailBatchesToSource1762156800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Like idempotency keys, a batch txnRefNo is only unique within a source.
+    await queryRunner.query(`DROP INDEX "UQ_email_batches_txn_ref_no"`);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_email_batches_source_txn_ref_no" ON "email_batches" ("source", "txn_ref_no")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "UQ_email_batches_source_txn_ref_no"`);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_email_batches_txn_ref_no" ON "email_batches" ("txn_ref_no")`,
+    );
+  }
+}
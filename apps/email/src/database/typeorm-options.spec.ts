@@ -0,0 +1,49 @@
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { DatabaseConfig } from '../config/database.config';
+import { createTypeOrmOptions } from './typeorm-options';
+
+describe('createTypeOrmOptions', () => {
+  const config: DatabaseConfig = {
+    host: 'db.example.com',
+    port: 5432,
+    username: 'postgres',
+    password: 'postgre',
+    database: 'postgres',
+    ssl: true,
+    sslCaFile: undefined,
+    sslAllowUnverified: false,
+    runMigrations: true,
+    logging: false,
+  };
+
+  it('verifies the server certificate by default', () => {
+    expect(createTypeOrmOptions(config)).toMatchObject({
+      ssl: { rejectUnauthorized: true },
+    });
+    expect(createTypeOrmOptions({ ...config, ssl: false })).toMatchObject({
+      ssl: false,
+    });
+  });
+
+  it('trusts the CAs in DB_SSL_CA_FILE', () => {
+    const caFile = join(mkdtempSync(join(tmpdir(), 'db-ca-')), 'ca.pem');
+    writeFileSync(caFile, '-----BEGIN CERTIFICATE-----\n');
+
+    expect(
+      createTypeOrmOptions({ ...config, sslCaFile: caFile }),
+    ).toMatchObject({
+      ssl: {
+        rejectUnauthorized: true,
+        ca: '-----BEGIN CERTIFICATE-----\n',
+      },
+    });
+  });
+
+  it('only skips verification when explicitly allowed', () => {
+    expect(
+      createTypeOrmOptions({ ...config, sslAllowUnverified: true }),
+    ).toMatchObject({ ssl: { rejectUnauthorized: false } });
+  });
+});
@@ -0,0 +1,35 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { TlsOptions } from 'node:tls';
+import type { DataSourceOptions } from 'typeorm';
+import type { DatabaseConfig } from '../config/database.config';
+
+export function createTypeOrmOptions(
+  config: DatabaseConfig,
+): DataSourceOptions {
+  return {
+    type: 'postgres',
+    host: config.host,
+    port: config.port,
+    username: config.username,
+    password: config.password,
+    database: config.database,
+    ssl: config.ssl ? createSslOptions(config) : false,
+    entities: [join(__dirname, '..', '**', '*.entity.{ts,js}')],
+    migrations: [join(__dirname, 'migrations', '*.{ts,js}')],
+    migrationsRun: config.runMigrations,
+    synchronize: false,
+    logging: config.logging,
+  };
+}
+
+/** The server's certificate is verified unless explicitly allowed not to be. */
+function createSslOptions(config: DatabaseConfig): TlsOptions {
+  if (config.sslAllowUnverified) {
+    return { rejectUnauthorized: false };
+  }
+  return {
+    rejectUnauthorized: true,
+    ...(config.sslCaFile ? { ca: readFileSync(config.sslCaFile, 'utf8') } : {}),
+  };
+}
@@ -0,0 +1,24 @@
+import { EmailStatus } from '../email-status.enum';
+
+export class EmailBatchItemDto {
+  txnRefNo: string;
+  to: string[];
+  status: EmailStatus;
+  messageId: string | null;
+  error: { code: string | null; message: string } | null;
+}
+
+export class EmailBatchResponseDto {
+  batchId: string;
+  txnRefNo: string;
+  source: string;
+  total: number;
+  /** Number of emails in each status. */
+  counts: Partial<Record<EmailStatus, number>>;
+  /** True when this response replays an earlier request with the same txnRefNo. */
+  duplicate: boolean;
+  /** Problems that did not stop the batch, e.g. unused inline images. */
+  warnings: string[];
+  createdAt: Date;
+  items: EmailBatchItemDto[];
+}
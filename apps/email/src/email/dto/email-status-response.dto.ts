@@ -0,0 +1,50 @@
+import { BounceType } from '../../bounces/bounce-type';
+import { EmailStatus } from '../email-status.enum';
+
+export class EmailStatusEventDto {
+  status: EmailStatus;
+  detail: string | null;
+  /** Who made the change, for cancellations and reschedules. */
+  actor: string | null;
+  occurredAt: Date;
+}
+
+export class EmailAttemptDto {
+  attemptNumber: number;
+  outcome: string;
+  responseCode: string | null;
+  response: string | null;
+  startedAt: Date;
+  finishedAt: Date;
+}
+
+export class EmailBounceDto {
+  recipient: string;
+  type: BounceType;
+  status: string | null;
+  diagnosticCode: string | null;
+  receivedAt: Date;
+}
+
+export class EmailStatusResponseDto {
+  txnRefNo: string;
+  source: string;
+  status: EmailStatus;
+  /** True once delivery is over. A sent email can still turn bounced. */
+  final: boolean;
+  messageId: string | null;
+  subject: string;
+  recipients: { to: string[]; cc: string[]; bcc: string[] };
+  error: { code: string | null; message: string } | null;
+  /** When a scheduled email is due to go out. */
+  sendAt: Date | null;
+  nextAttemptAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  sentAt: Date | null;
+  failedAt: Date | null;
+  history: EmailStatusEventDto[];
+  attempts: EmailAttemptDto[];
+  /** Recipients' servers that reported the email undeliverable or delayed. */
+  bounces: EmailBounceDto[];
+}
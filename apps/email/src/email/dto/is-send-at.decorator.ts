@@ -0,0 +1,13 @@
+import { applyDecorators } from '@nestjs/common';
+import { IsISO8601, Matches } from 'class-validator';
+
+/** An ISO 8601 timestamp that names its time zone, e.g. `...T09:00:00+08:00`. */
+export function IsSendAt(): PropertyDecorator {
+  return applyDecorators(
+    IsISO8601({ strict: true }),
+    Matches(/(?:Z|[+-]\d{2}:?\d{2})$/i, {
+      message: ({ property }) =>
+        `${property} must include a time zone, e.g. Z or +08:00`,
+    }),
+  );
+}
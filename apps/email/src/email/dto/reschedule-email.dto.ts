@@ -0,0 +1,8 @@
+import { IsSendAt } from './is-send-at.decorator';
+import { CancelEmailDto } from './cancel-email.dto';
+
+export class RescheduleEmailDto extends CancelEmailDto {
+  /** The new send time; one that has passed sends straight away. */
+  @IsSendAt()
+  sendAt: string;
+}
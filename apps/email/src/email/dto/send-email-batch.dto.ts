@@ -0,0 +1,98 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEmail,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { EmailAdditionalInfoDto } from './send-email.dto';
+
+/** Content every email in the batch shares; recipients are listed apart. */
+export class BatchContentDto {
+  @IsEmail()
+  from: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  subject?: string;
+
+  /** Copied on every email unless the recipient has its own. */
+  @IsOptional()
+  @IsString()
+  cc?: string;
+
+  @IsOptional()
+  @IsString()
+  bcc?: string;
+
+  @IsOptional()
+  @IsString()
+  html?: string;
+
+  @IsOptional()
+  @IsString()
+  text?: string;
+}
+
+export class BatchRecipientDto {
+  /** Appended to the batch txnRefNo to make the email's own txnRefNo. */
+  @IsString()
+  @Matches(/^[A-Za-z0-9._-]+$/, {
+    message:
+      'txnRefNoSuffix may only contain letters, digits, ".", "_" and "-"',
+  })
+  @MaxLength(64)
+  txnRefNoSuffix: string;
+
+  @IsString()
+  @IsNotEmpty()
+  to: string;
+
+  @IsOptional()
+  @IsString()
+  cc?: string;
+
+  @IsOptional()
+  @IsString()
+  bcc?: string;
+
+  /** Merged over the shared `additionalInfo.variables`. */
+  @IsOptional()
+  @IsObject()
+  variables?: Record<string, unknown>;
+}
+
+export class SendEmailBatchDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(63)
+  txnRefNo: string;
+
+  @IsString()
+  @IsNotEmpty()
+  source: string;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => BatchContentDto)
+  payload: BatchContentDto;
+
+  /** Template, shared variables and the files every email carries. */
+  @IsObject()
+  @ValidateNested()
+  @Type(() => EmailAdditionalInfoDto)
+  additionalInfo: EmailAdditionalInfoDto;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => BatchRecipientDto)
+  recipients: BatchRecipientDto[];
+}
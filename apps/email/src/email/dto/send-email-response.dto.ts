@@ -0,0 +1,11 @@
+export class SendEmailResponseDto {
+  accepted: boolean;
+  txnRefNo: string;
+  messageId: string | null;
+  status: string;
+  message: string;
+  /** True when this response replays an earlier request with the same txnRefNo. */
+  duplicate: boolean;
+  /** Problems that did not stop the email, e.g. unused inline images. */
+  warnings: string[];
+}
@@ -0,0 +1,109 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsEmail,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { IsSendAt } from './is-send-at.decorator';
+
+export class EmailFileDto {
+  @IsString()
+  @IsNotEmpty()
+  filename: string;
+
+  @IsString()
+  @IsNotEmpty()
+  base64: string;
+}
+
+export class EmailContentDto {
+  @IsEmail()
+  from: string;
+
+  /** May be left out when `additionalInfo.template_id` supplies it. */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  subject?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  to: string;
+
+  @IsOptional()
+  @IsString()
+  cc?: string;
+
+  @IsOptional()
+  @IsString()
+  bcc?: string;
+
+  /** With `text`, may be left out when the template supplies the body. */
+  @IsOptional()
+  @IsString()
+  html?: string;
+
+  @IsOptional()
+  @IsString()
+  text?: string;
+}
+
+export class EmailAdditionalInfoDto {
+  @IsInt()
+  template_id: number;
+
+  @IsBoolean()
+  isText: boolean;
+
+  /**
+   * When to send, as an ISO 8601 timestamp with a time zone, e.g.
+   * `2025-11-01T09:00:00+08:00`. Emails without one, or with a time that
+   * has passed, are sent straight away.
+   */
+  @IsOptional()
+  @IsSendAt()
+  sendAt?: string;
+
+  /** Values for the placeholders in the template or payload content. */
+  @IsOptional()
+  @IsObject()
+  variables?: Record<string, unknown>;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => EmailFileDto)
+  html_images?: EmailFileDto[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => EmailFileDto)
+  attachment_files?: EmailFileDto[];
+}
+
+export class SendEmailDto {
+  @IsString()
+  @IsNotEmpty()
+  txnRefNo: string;
+
+  @IsString()
+  @IsNotEmpty()
+  source: string;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => EmailContentDto)
+  payload: EmailContentDto;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => EmailAdditionalInfoDto)
+  additionalInfo: EmailAdditionalInfoDto;
+}
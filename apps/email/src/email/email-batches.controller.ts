@@ -0,0 +1,44 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+} from '@nestjs/common';
+import { Audited } from '../audit/audited.decorator';
+import { CurrentPrincipal } from '../auth/auth.decorators';
+import {
+  assertSourceAccess,
+  sourceScope,
+  type Principal,
+} from '../auth/principal';
+import { EmailBatchResponseDto } from './dto/email-batch-response.dto';
+import { SendEmailBatchDto } from './dto/send-email-batch.dto';
+import { EmailBatchesService } from './email-batches.service';
+
+@Controller('email/batches')
+export class EmailBatchesController {
+  constructor(private readonly batches: EmailBatchesService) {}
+
+  @Post()
+  @Audited('email.send-batch')
+  @HttpCode(HttpStatus.ACCEPTED)
+  send(
+    @Body() dto: SendEmailBatchDto,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<EmailBatchResponseDto> {
+    assertSourceAccess(principal, dto.source);
+    return this.batches.send(dto);
+  }
+
+  @Get(':batchId')
+  getStatus(
+    @Param('batchId', ParseUUIDPipe) batchId: string,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<EmailBatchResponseDto> {
+    return this.batches.getStatus(batchId, sourceScope(principal));
+  }
+}
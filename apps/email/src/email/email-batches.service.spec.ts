@@ -0,0 +1,217 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { emailConfig } from '../config/email.config';
+import { RateLimitsService } from '../rate-limits/rate-limits.service';
+import { SuppressionsService } from '../suppressions/suppressions.service';
+import { TemplatesService } from '../templates/templates.service';
+import { SendEmailBatchDto } from './dto/send-email-batch.dto';
+import { SendEmailDto } from './dto/send-email.dto';
+import { EmailBatchesService } from './email-batches.service';
+import { EmailContentValidator } from './email-content.validator';
+import {
+  BatchItem,
+  EmailTransactionsService,
+} from './email-transactions.service';
+import { EmailBatch } from './entities/email-batch.entity';
+import { EmailTransaction } from './entities/email-transaction.entity';
+import { RecipientPolicyService } from './recipient-policy.service';
+
+const terms = { filename: 'terms.pdf', base64: 'JVBERi0=' };
+
+function createBatch(
+  overrides: Partial<SendEmailBatchDto> = {},
+): SendEmailBatchDto {
+  return {
+    txnRefNo: 'Batch-1',
+    source: 'Testing',
+    payload: { from: 'noreply@example.com', subject: 'Hi {{name}}' },
+    additionalInfo: {
+      template_id: 1,
+      isText: false,
+      variables: { name: 'customer', branch: 'KL' },
+      attachment_files: [terms],
+    },
+    recipients: [
+      { txnRefNoSuffix: 'a', to: 'a@example.com', variables: { name: 'Aida' } },
+      { txnRefNoSuffix: 'b', to: 'b@example.com' },
+    ],
+    ...overrides,
+  };
+}
+
+function missingVariable(name: string): BadRequestException {
+  const message = `Variable ${name} is required`;
+  return new BadRequestException({
+    message: [message],
+    errors: [
+      {
+        field: `additionalInfo.variables.${name}`,
+        code: 'MISSING_VARIABLE',
+        message,
+      },
+    ],
+  });
+}
+
+describe('EmailBatchesService', () => {
+  let service: EmailBatchesService;
+  const manager = {
+    query: jest.fn(),
+    create: jest.fn((_entity: unknown, values: object) => values),
+  };
+  const dataSource = {
+    transaction: jest.fn((work: (m: typeof manager) => unknown) =>
+      work(manager),
+    ),
+  };
+  const transactions = { find: jest.fn() };
+  const emailTransactions = { recordBatch: jest.fn() };
+  const validator = { validate: jest.fn() };
+  const templates = { resolve: jest.fn() };
+  const rateLimits = { consumeRequest: jest.fn() };
+  const suppressions = { warningsFor: jest.fn().mockResolvedValue([]) };
+  const recipientPolicy = { warningsFor: jest.fn().mockReturnValue([]) };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    manager.query.mockResolvedValue([
+      { id: 'batch-1', created_at: new Date() },
+    ]);
+    transactions.find.mockResolvedValue([]);
+    validator.validate.mockReturnValue([]);
+    templates.resolve.mockImplementation((message: SendEmailDto) =>
+      Promise.resolve({ message, template: null }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmailBatchesService,
+        { provide: getRepositoryToken(EmailBatch), useValue: {} },
+        {
+          provide: getRepositoryToken(EmailTransaction),
+          useValue: transactions,
+        },
+        { provide: DataSource, useValue: dataSource },
+        { provide: emailConfig.KEY, useValue: { batchMaxRecipients: 2 } },
+        { provide: EmailTransactionsService, useValue: emailTransactions },
+        { provide: EmailContentValidator, useValue: validator },
+        { provide: TemplatesService, useValue: templates },
+        { provide: RateLimitsService, useValue: rateLimits },
+        { provide: SuppressionsService, useValue: suppressions },
+        { provide: RecipientPolicyService, useValue: recipientPolicy },
+      ],
+    }).compile();
+
+    service = module.get(EmailBatchesService);
+  });
+
+  it('sends each recipient its own email with merged variables', async () => {
+    const response = await service.send(createBatch());
+
+    expect(templates.resolve).toHaveBeenCalledTimes(2);
+    expect(templates.resolve).toHaveBeenCalledWith({
+      txnRefNo: 'Batch-1-a',
+      source: 'Testing',
+      payload: {
+        from: 'noreply@example.com',
+        subject: 'Hi {{name}}',
+        to: 'a@example.com',
+      },
+      additionalInfo: {
+        template_id: 1,
+        isText: false,
+        variables: { name: 'Aida', branch: 'KL' },
+        attachment_files: [terms],
+      },
+    });
+    expect(validator.validate).toHaveBeenNthCalledWith(1, expect.anything(), {
+      checkAttachments: true,
+    });
+    expect(validator.validate).toHaveBeenNthCalledWith(2, expect.anything(), {
+      checkAttachments: false,
+    });
+    const [, batch, items] = emailTransactions.recordBatch.mock.calls[0] as [
+      unknown,
+      EmailBatch,
+      BatchItem[],
+    ];
+    expect(batch).toMatchObject({ id: 'batch-1', total: 2 });
+    expect(items.map(({ dto }) => dto.txnRefNo)).toEqual([
+      'Batch-1-a',
+      'Batch-1-b',
+    ]);
+    expect(response).toMatchObject({ batchId: 'batch-1', duplicate: false });
+  });
+
+  it('stores the shared files once, on the batch', async () => {
+    await service.send(createBatch());
+
+    const [, params] = manager.query.mock.calls[0] as [string, unknown[]];
+    expect(JSON.parse(params[4] as string)).toEqual({
+      attachment_files: [terms],
+    });
+  });
+
+  it('rejects the whole batch with every recipient problem at once', async () => {
+    templates.resolve.mockRejectedValue(missingVariable('accountNo'));
+
+    await expect(service.send(createBatch())).rejects.toMatchObject({
+      response: {
+        errors: [
+          expect.objectContaining({
+            field: 'recipients[0].variables.accountNo',
+          }),
+          expect.objectContaining({
+            field: 'recipients[1].variables.accountNo',
+          }),
+        ],
+      },
+    });
+    expect(emailTransactions.recordBatch).not.toHaveBeenCalled();
+  });
+
+  it('reports problems with the shared content once', async () => {
+    validator.validate.mockImplementation(() => {
+      throw new BadRequestException({
+        errors: [
+          { field: 'payload.html', code: 'MISSING_INLINE_IMAGE', message: 'x' },
+        ],
+      });
+    });
+
+    await expect(service.send(createBatch())).rejects.toMatchObject({
+      response: {
+        errors: [expect.objectContaining({ field: 'payload.html' })],
+      },
+    });
+  });
+
+  it('rejects recipients that reuse a txnRefNo suffix', async () => {
+    const batch = createBatch();
+    batch.recipients[1].txnRefNoSuffix = 'a';
+
+    await expect(service.send(batch)).rejects.toMatchObject({
+      response: {
+        errors: [
+          expect.objectContaining({
+            field: 'recipients[1].txnRefNoSuffix',
+            code: 'DUPLICATE_SUFFIX',
+          }),
+        ],
+      },
+    });
+  });
+
+  it('rejects batches over the recipient limit before rendering them', async () => {
+    const batch = createBatch();
+    batch.recipients.push({ txnRefNoSuffix: 'c', to: 'c@example.com' });
+
+    await expect(service.send(batch)).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(templates.resolve).not.toHaveBeenCalled();
+    expect(rateLimits.consumeRequest).not.toHaveBeenCalled();
+  });
+});
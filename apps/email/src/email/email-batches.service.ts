@@ -0,0 +1,328 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { emailConfig, type EmailConfig } from '../config/email.config';
+import { RateLimitsService } from '../rate-limits/rate-limits.service';
+import { SuppressionsService } from '../suppressions/suppressions.service';
+import { TemplatesService } from '../templates/templates.service';
+import { EmailBatchResponseDto } from './dto/email-batch-response.dto';
+import {
+  BatchRecipientDto,
+  SendEmailBatchDto,
+} from './dto/send-email-batch.dto';
+import { SendEmailDto } from './dto/send-email.dto';
+import { EmailContentValidator } from './email-content.validator';
+import {
+  BatchItem,
+  EmailTransactionsService,
+} from './email-transactions.service';
+import { EmailBatch } from './entities/email-batch.entity';
+import { EmailTransaction } from './entities/email-transaction.entity';
+import { RecipientPolicyService } from './recipient-policy.service';
+import { allRecipients } from './utils/recipients';
+import { hashRequest } from './utils/request-hash';
+import type { SharedFiles } from './utils/shared-files';
+
+interface BatchFieldError {
+  /** Path of the offending field in the batch request body. */
+  field: string;
+  filename?: string;
+  code: string;
+  message: string;
+}
+
+interface PreparedBatch {
+  items: BatchItem[];
+  warnings: string[];
+}
+
+const VARIABLE_FIELD = /^additionalInfo\.variables\.(.+)$/;
+
+@Injectable()
+export class EmailBatchesService {
+  private readonly logger = new Logger(EmailBatchesService.name);
+
+  constructor(
+    @InjectRepository(EmailBatch)
+    private readonly batches: Repository<EmailBatch>,
+    @InjectRepository(EmailTransaction)
+    private readonly transactions: Repository<EmailTransaction>,
+    private readonly dataSource: DataSource,
+    @Inject(emailConfig.KEY) private readonly config: EmailConfig,
+    private readonly emailTransactions: EmailTransactionsService,
+    private readonly validator: EmailContentValidator,
+    private readonly templates: TemplatesService,
+    private readonly rateLimits: RateLimitsService,
+    private readonly suppressions: SuppressionsService,
+    private readonly recipientPolicy: RecipientPolicyService,
+  ) {}
+
+  /**
+   * Sends one email per recipient, each with its own variables and a
+   * txnRefNo of `<batch txnRefNo>-<txnRefNoSuffix>`. Every email is rendered
+   * and validated before any is queued, and the batch is rejected with all
+   * of their problems at once. A repeat of the same batch txnRefNo replays
+   * the original batch if the body is identical and is rejected otherwise.
+   */
+  async send(dto: SendEmailBatchDto): Promise<EmailBatchResponseDto> {
+    if (dto.recipients.length > this.config.batchMaxRecipients) {
+      throw invalid([
+        {
+          field: 'recipients',
+          code: 'TOO_MANY_RECIPIENTS',
+          message: `A batch may have at most ${this.config.batchMaxRecipients} recipients, got ${dto.recipients.length}`,
+        },
+      ]);
+    }
+    await this.rateLimits.consumeRequest(dto.source);
+    const { items, warnings } = await this.prepare(dto);
+    const recipients = items.flatMap(({ templated }) =>
+      allRecipients(templated.message.payload),
+    );
+    warnings.push(
+      ...(await this.suppressions.warningsFor(dto.source, recipients)),
+      ...this.recipientPolicy.warningsFor(recipients),
+    );
+    const requestHash = hashRequest(dto);
+
+    const { batch, duplicate } = await this.dataSource.transaction(
+      async (manager) => {
+        const claimed = await this.claim(manager, dto, requestHash);
+        if (!claimed) {
+          return {
+            batch: await this.findOriginal(manager, dto, requestHash),
+            duplicate: true,
+          };
+        }
+        await this.emailTransactions.recordBatch(manager, claimed, items);
+        return { batch: claimed, duplicate: false };
+      },
+    );
+
+    if (duplicate) {
+      this.logger.log(`Replaying outcome of duplicate batch ${dto.txnRefNo}`);
+    }
+    return this.toResponse(batch, duplicate, warnings);
+  }
+
+  /** Passing a source hides other sources' batches as if they didn't exist. */
+  async getStatus(
+    batchId: string,
+    source?: string,
+  ): Promise<EmailBatchResponseDto> {
+    const batch = await this.batches.findOneBy({
+      id: batchId,
+      ...(source ? { source } : {}),
+    });
+    if (!batch) {
+      throw new NotFoundException(`No batch found with id ${batchId}`);
+    }
+    return this.toResponse(batch, false);
+  }
+
+  /** The files a batch's emails share, for building them at delivery. */
+  async findSharedFiles(batchId: string): Promise<SharedFiles> {
+    const batch = await this.batches.findOneOrFail({
+      where: { id: batchId },
+      select: { id: true, sharedFiles: true },
+    });
+    return batch.sharedFiles;
+  }
+
+  /**
+   * Renders and validates each recipient's email. The shared files are the
+   * same for every email, so they are checked against the policy once, and
+   * problems that don't depend on the recipient are reported once.
+   */
+  private async prepare(dto: SendEmailBatchDto): Promise<PreparedBatch> {
+    const errors = new Map<string, BatchFieldError>();
+    const addError = (error: BatchFieldError) => {
+      errors.set(`${error.field}\n${error.code}\n${error.message}`, error);
+    };
+    const warnings = new Set<string>();
+    const items: BatchItem[] = [];
+    const suffixes = new Set<string>();
+
+    for (const [index, recipient] of dto.recipients.entries()) {
+      if (suffixes.has(recipient.txnRefNoSuffix)) {
+        addError({
+          field: `recipients[${index}].txnRefNoSuffix`,
+          code: 'DUPLICATE_SUFFIX',
+          message: `recipients[${index}]: txnRefNoSuffix ${recipient.txnRefNoSuffix} is used by an earlier recipient`,
+        });
+      }
+      suffixes.add(recipient.txnRefNoSuffix);
+
+      const email = toEmail(dto, recipient);
+      try {
+        const templated = await this.templates.resolve(email);
+        this.validator
+          .validate(templated.message, { checkAttachments: index === 0 })
+          .forEach((warning) => warnings.add(warning));
+        items.push({ dto: email, templated });
+      } catch (error) {
+        if (!(error instanceof BadRequestException)) {
+          throw error;
+        }
+        fieldErrors(error).forEach((fieldError) =>
+          addError(forRecipient(index, fieldError)),
+        );
+      }
+    }
+
+    if (errors.size > 0) {
+      throw invalid([...errors.values()]);
+    }
+    return { items, warnings: [...warnings] };
+  }
+
+  /**
+   * Inserts the batch unless the source already used its txnRefNo, waiting
+   * on a racing insert.
+   */
+  private async claim(
+    manager: EntityManager,
+    dto: SendEmailBatchDto,
+    requestHash: string,
+  ): Promise<EmailBatch | null> {
+    const { html_images, attachment_files } = dto.additionalInfo;
+    const sharedFiles: SharedFiles = { html_images, attachment_files };
+    const rows: { id: string; created_at: Date }[] = await manager.query(
+      `INSERT INTO "email_batches"
+         ("txn_ref_no", "source", "request_hash", "total", "shared_files")
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT ("source", "txn_ref_no") DO NOTHING
+       RETURNING "id", "created_at"`,
+      [
+        dto.txnRefNo,
+        dto.source,
+        requestHash,
+        dto.recipients.length,
+        JSON.stringify(sharedFiles),
+      ],
+    );
+    if (rows.length === 0) {
+      return null;
+    }
+    return manager.create(EmailBatch, {
+      id: rows[0].id,
+      txnRefNo: dto.txnRefNo,
+      source: dto.source,
+      requestHash,
+      total: dto.recipients.length,
+      createdAt: rows[0].created_at,
+    });
+  }
+
+  private async findOriginal(
+    manager: EntityManager,
+    dto: SendEmailBatchDto,
+    requestHash: string,
+  ): Promise<EmailBatch> {
+    const batch = await manager.findOneByOrFail(EmailBatch, {
+      source: dto.source,
+      txnRefNo: dto.txnRefNo,
+    });
+    if (batch.requestHash !== requestHash) {
+      throw new ConflictException(
+        `txnRefNo ${dto.txnRefNo} was already used for a different batch`,
+      );
+    }
+    return batch;
+  }
+
+  private async toResponse(
+    batch: EmailBatch,
+    duplicate: boolean,
+    warnings: string[] = [],
+  ): Promise<EmailBatchResponseDto> {
+    const transactions = await this.transactions.find({
+      where: { batchId: batch.id },
+      order: { txnRefNo: 'ASC' },
+    });
+    const counts: EmailBatchResponseDto['counts'] = {};
+    for (const { status } of transactions) {
+      counts[status] = (counts[status] ?? 0) + 1;
+    }
+
+    return {
+      batchId: batch.id,
+      txnRefNo: batch.txnRefNo,
+      source: batch.source,
+      total: batch.total,
+      counts,
+      duplicate,
+      warnings,
+      createdAt: batch.createdAt,
+      items: transactions.map((transaction) => ({
+        txnRefNo: transaction.txnRefNo,
+        to: transaction.toRecipients,
+        status: transaction.status,
+        messageId: transaction.messageId,
+        error: transaction.errorMessage
+          ? { code: transaction.errorCode, message: transaction.errorMessage }
+          : null,
+      })),
+    };
+  }
+}
+
+/** The email a recipient gets, as it would be sent on its own. */
+function toEmail(
+  { txnRefNo, source, payload, additionalInfo }: SendEmailBatchDto,
+  recipient: BatchRecipientDto,
+): SendEmailDto {
+  const variables =
+    additionalInfo.variables || recipient.variables
+      ? { ...additionalInfo.variables, ...recipient.variables }
+      : undefined;
+  return {
+    txnRefNo: `${txnRefNo}-${recipient.txnRefNoSuffix}`,
+    source,
+    payload: {
+      ...payload,
+      to: recipient.to,
+      cc: recipient.cc ?? payload.cc,
+      bcc: recipient.bcc ?? payload.bcc,
+    },
+    additionalInfo: { ...additionalInfo, ...(variables ? { variables } : {}) },
+  };
+}
+
+function fieldErrors(error: BadRequestException): BatchFieldError[] {
+  const response = error.getResponse() as { errors?: BatchFieldError[] };
+  return response.errors ?? [];
+}
+
+/**
+ * Points errors about variables at the recipient, since their values may
+ * come from it. Anything else is about the shared content and is left as
+ * is, so it collapses into one error for the whole batch.
+ */
+function forRecipient(index: number, error: BatchFieldError): BatchFieldError {
+  const variable = VARIABLE_FIELD.exec(error.field);
+  if (!variable) {
+    return error;
+  }
+  return {
+    ...error,
+    field: `recipients[${index}].variables.${variable[1]}`,
+    message: `recipients[${index}]: ${error.message}`,
+  };
+}
+
+function invalid(errors: BatchFieldError[]): BadRequestException {
+  return new BadRequestException({
+    statusCode: 400,
+    error: 'Bad Request',
+    message: errors.map((error) => error.message),
+    errors,
+  });
+}
@@ -0,0 +1,70 @@
+import { BadRequestException } from '@nestjs/common';
+import { AttachmentPolicyService } from '../attachments/attachment-policy.service';
+import { EmailConfig } from '../config/email.config';
+import { SendEmailDto } from './dto/send-email.dto';
+import { EmailContentValidator } from './email-content.validator';
+import { EmailMessageBuilder } from './email-message.builder';
+
+const dto = {
+  txnRefNo: 'Email-1',
+  source: 'Testing',
+  payload: {
+    from: 'a@example.com',
+    subject: 'Hi',
+    to: 'b@example.com',
+    html: '<img src="cid:header.png"><img src="cid:footer.png">',
+  },
+  additionalInfo: {
+    template_id: 1,
+    isText: false,
+    html_images: [
+      { filename: 'header.png', base64: 'aGk=' },
+      { filename: 'logo.png', base64: 'aGk=' },
+    ],
+  },
+} as SendEmailDto;
+
+const attachmentPolicy = { check: jest.fn().mockReturnValue([]) };
+
+function createValidator(config: Partial<EmailConfig> = {}) {
+  return new EmailContentValidator(
+    new EmailMessageBuilder(),
+    attachmentPolicy as unknown as AttachmentPolicyService,
+    { rejectMissingInlineImages: true, ...config } as EmailConfig,
+  );
+}
+
+describe('EmailContentValidator', () => {
+  it('rejects HTML that references images that were not uploaded', () => {
+    expect(() => createValidator().validate(dto)).toThrow(BadRequestException);
+  });
+
+  it('reports attachment policy violations per field', () => {
+    const violation = {
+      field: 'additionalInfo.attachment_files[0]',
+      filename: 'a.exe',
+      code: 'TYPE_NOT_ALLOWED',
+      message: 'a.exe is application/octet-stream',
+    };
+    attachmentPolicy.check.mockReturnValueOnce([violation]);
+
+    try {
+      createValidator({ rejectMissingInlineImages: false }).validate(dto);
+      fail('expected validation to fail');
+    } catch (error) {
+      expect((error as BadRequestException).getResponse()).toMatchObject({
+        message: ['a.exe is application/octet-stream'],
+        errors: [violation],
+      });
+    }
+  });
+
+  it('downgrades missing images to warnings when not strict', () => {
+    expect(
+      createValidator({ rejectMissingInlineImages: false }).validate(dto),
+    ).toEqual([
+      'HTML references cid:footer.png but no such image was uploaded',
+      'Inline image logo.png is not referenced by the HTML and will not be sent',
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import {
+  AttachmentPolicyService,
+  AttachmentViolation,
+} from '../attachments/attachment-policy.service';
+import { emailConfig, type EmailConfig } from '../config/email.config';
+import { SendEmailDto } from './dto/send-email.dto';
+import { EmailMessageBuilder } from './email-message.builder';
+
+export interface EmailFieldError {
+  /** Path of the offending field in the request body. */
+  field: string;
+  filename?: string;
+  code: AttachmentViolation['code'] | 'MISSING_INLINE_IMAGE';
+  message: string;
+}
+
+/**
+ * Checks that a send request will produce a sensible message before it is
+ * queued. Problems that would break the email are rejected with field-level
+ * details; harmless ones are returned as warnings for the caller.
+ */
+@Injectable()
+export class EmailContentValidator {
+  constructor(
+    private readonly messageBuilder: EmailMessageBuilder,
+    private readonly attachmentPolicy: AttachmentPolicyService,
+    @Inject(emailConfig.KEY) private readonly config: EmailConfig,
+  ) {}
+
+  /**
+   * Pass `checkAttachments: false` when the same files were already checked
+   * for another email, as for the emails of a batch after the first.
+   */
+  validate(dto: SendEmailDto, { checkAttachments = true } = {}): string[] {
+    const errors: EmailFieldError[] = checkAttachments
+      ? [...this.attachmentPolicy.check(dto)]
+      : [];
+    const { missing, unused } = this.messageBuilder.inspectInlineImages(dto);
+    const warnings = unused.map(
+      (filename) =>
+        `Inline image ${filename} is not referenced by the HTML and will not be sent`,
+    );
+
+    const missingMessages = missing.map(
+      (cid) => `HTML references cid:${cid} but no such image was uploaded`,
+    );
+    if (this.config.rejectMissingInlineImages) {
+      errors.push(
+        ...missingMessages.map((message) => ({
+          field: 'payload.html',
+          code: 'MISSING_INLINE_IMAGE' as const,
+          message,
+        })),
+      );
+    } else {
+      warnings.unshift(...missingMessages);
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: errors.map((error) => error.message),
+        errors,
+      });
+    }
+    return warnings;
+  }
+}
@@ -0,0 +1,358 @@
+import { BouncesConfig } from '../config/bounces.config';
+import { EnvironmentConfig, RecipientMode } from '../config/environment.config';
+import { QueueConfig } from '../config/queue.config';
+import { MailTransportService } from '../mail/mail-transport.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { SuppressionReason } from '../suppressions/entities/email-suppression.entity';
+import { SuppressionsService } from '../suppressions/suppressions.service';
+import { TemplateCategory } from '../templates/entities/email-template.entity';
+import { EmailBatchesService } from './email-batches.service';
+import { EmailDeliveryWorker } from './email-delivery.worker';
+import { EmailMessageBuilder } from './email-message.builder';
+import { EmailQueueService, JobLockLostError } from './email-queue.service';
+import { EmailStatus } from './email-status.enum';
+import { EmailJob } from './entities/email-job.entity';
+import { RecipientPolicyService } from './recipient-policy.service';
+
+const job = {
+  id: 'job-1',
+  transactionId: '0b7e1c1e-3f7a-4c59-9b51-1d0f2d5a6e11',
+  attempts: 1,
+  transaction: {
+    txnRefNo: 'Email-1',
+    source: 'Testing',
+    messageId: '<id@example.com>',
+    category: TemplateCategory.Transactional,
+    createdAt: new Date(),
+    sendAt: null,
+  },
+  payload: {
+    txnRefNo: 'Email-1',
+    source: 'Testing',
+    payload: { from: 'a@example.com', subject: 'Hi', to: 'b@example.com' },
+    additionalInfo: { template_id: 1, isText: true },
+  },
+} as EmailJob;
+
+describe('EmailDeliveryWorker', () => {
+  const queue = {
+    claimDue: jest.fn(),
+    complete: jest.fn(),
+    fail: jest.fn(),
+    discard: jest.fn(),
+  };
+  const mailTransport = { sendMail: jest.fn() };
+  const batches = { findSharedFiles: jest.fn() };
+  const suppressions = {
+    findSuppressed: jest.fn(),
+    unsubscribeHeaders: jest.fn(),
+  };
+  const metrics = {
+    recordSend: jest.fn(),
+    recordDeliveryLatency: jest.fn(),
+    recordAttachment: jest.fn(),
+    recordRetry: jest.fn(),
+    recordDeadLetter: jest.fn(),
+  };
+  let worker: EmailDeliveryWorker;
+
+  const production = {
+    name: 'production',
+    production: true,
+    recipientMode: RecipientMode.Deliver,
+  } as EnvironmentConfig;
+
+  const createWorker = (
+    bounceConfig: Partial<BouncesConfig> = {},
+    environment: EnvironmentConfig = production,
+  ) =>
+    new EmailDeliveryWorker(
+      queue as unknown as EmailQueueService,
+      new EmailMessageBuilder(),
+      mailTransport as unknown as MailTransportService,
+      batches as unknown as EmailBatchesService,
+      suppressions as unknown as SuppressionsService,
+      new RecipientPolicyService(environment),
+      metrics as unknown as MetricsService,
+      { workerEnabled: false } as QueueConfig,
+      bounceConfig as BouncesConfig,
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    queue.claimDue.mockResolvedValue([job]);
+    suppressions.findSuppressed.mockResolvedValue(new Map());
+    worker = createWorker();
+  });
+
+  it('delivers claimed jobs with their pre-assigned Message-ID', async () => {
+    mailTransport.sendMail.mockResolvedValue({
+      messageId: '<id@example.com>',
+      response: '250 OK',
+    });
+
+    await worker.poll();
+
+    expect(mailTransport.sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({ messageId: '<id@example.com>' }),
+    );
+    expect(queue.complete).toHaveBeenCalledWith(job, expect.anything(), {
+      messageId: '<id@example.com>',
+      response: '250 OK',
+    });
+  });
+
+  it('sends from a return path naming the email when bounces are tracked', async () => {
+    mailTransport.sendMail.mockResolvedValue({
+      messageId: '<id@example.com>',
+      response: '250 OK',
+    });
+
+    await createWorker({ returnPath: 'bounces@example.com' }).poll();
+
+    expect(mailTransport.sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        from: 'a@example.com',
+        envelope: {
+          from: 'bounces+0b7e1c1e-3f7a-4c59-9b51-1d0f2d5a6e11@example.com',
+          to: ['b@example.com'],
+        },
+      }),
+    );
+  });
+
+  it('reports failures to the queue so it can retry or dead-letter', async () => {
+    mailTransport.sendMail.mockRejectedValue(
+      Object.assign(new Error('try later'), { responseCode: 421 }),
+    );
+    queue.fail.mockResolvedValue(EmailStatus.Failed);
+
+    await worker.poll();
+
+    expect(queue.fail).toHaveBeenCalledWith(job, expect.anything(), {
+      code: '421',
+      message: 'try later',
+      permanent: false,
+    });
+    expect(queue.complete).not.toHaveBeenCalled();
+    expect(metrics.recordSend).toHaveBeenCalledWith(
+      expect.any(Number),
+      false,
+      '421',
+    );
+    expect(metrics.recordRetry).toHaveBeenCalledWith('Testing');
+    expect(metrics.recordDeadLetter).not.toHaveBeenCalled();
+  });
+
+  it('counts dead letters apart from retries', async () => {
+    mailTransport.sendMail.mockRejectedValue(
+      Object.assign(new Error('no such user'), { responseCode: 550 }),
+    );
+    queue.fail.mockResolvedValue(EmailStatus.DeadLettered);
+
+    await worker.poll();
+
+    expect(metrics.recordDeadLetter).toHaveBeenCalledWith('Testing');
+    expect(metrics.recordRetry).not.toHaveBeenCalled();
+  });
+
+  it('leaves the outcome to the worker that claimed the job again', async () => {
+    mailTransport.sendMail.mockResolvedValue({
+      messageId: '<id@example.com>',
+      response: '250 OK',
+    });
+    queue.complete.mockRejectedValueOnce(new JobLockLostError(job, 'vm:1'));
+
+    await expect(worker.poll()).resolves.toBeUndefined();
+
+    expect(metrics.recordSend).not.toHaveBeenCalled();
+    expect(metrics.recordDeliveryLatency).not.toHaveBeenCalled();
+  });
+
+  it('adds the shared files to batch emails, reading them once per batch', async () => {
+    const batchJob = (id: string, txnRefNo: string) =>
+      ({
+        ...job,
+        id,
+        transaction: {
+          ...job.transaction,
+          txnRefNo,
+          messageId: null,
+          batchId: 'batch-1',
+        },
+      }) as unknown as EmailJob;
+    queue.claimDue.mockResolvedValue([
+      batchJob('job-1', 'Batch-1-a'),
+      batchJob('job-2', 'Batch-1-b'),
+    ]);
+    batches.findSharedFiles.mockResolvedValue({
+      attachment_files: [{ filename: 'terms.txt', base64: 'aGk=' }],
+    });
+    mailTransport.sendMail.mockResolvedValue({
+      messageId: '<id@example.com>',
+      response: '250 OK',
+    });
+
+    await worker.poll();
+
+    expect(metrics.recordSend).toHaveBeenCalledWith(
+      expect.any(Number),
+      true,
+      '250',
+    );
+    expect(metrics.recordAttachment).toHaveBeenCalledWith('attachment', 2);
+    expect(batches.findSharedFiles).toHaveBeenCalledTimes(1);
+    expect(batches.findSharedFiles).toHaveBeenCalledWith('batch-1');
+    expect(mailTransport.sendMail).toHaveBeenCalledTimes(2);
+    expect(mailTransport.sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        attachments: [expect.objectContaining({ filename: 'terms.txt' })],
+      }),
+    );
+  });
+
+  it('leaves out suppressed recipients and notes them in the history', async () => {
+    const withCc = {
+      ...job,
+      payload: {
+        ...job.payload,
+        payload: { ...job.payload.payload, cc: 'Gone <Gone@example.com>' },
+      },
+    } as EmailJob;
+    queue.claimDue.mockResolvedValue([withCc]);
+    suppressions.findSuppressed.mockResolvedValue(
+      new Map([
+        [
+          'gone@example.com',
+          { email: 'gone@example.com', reason: SuppressionReason.Unsubscribed },
+        ],
+      ]),
+    );
+    mailTransport.sendMail.mockResolvedValue({
+      messageId: '<id@example.com>',
+      response: '250 OK',
+    });
+
+    await worker.poll();
+
+    expect(mailTransport.sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({ to: ['b@example.com'], cc: [] }),
+    );
+    expect(queue.complete).toHaveBeenCalledWith(withCc, expect.anything(), {
+      messageId: '<id@example.com>',
+      response: '250 OK',
+      suppressed: ['gone@example.com'],
+    });
+  });
+
+  it('suppresses emails whose every recipient is suppressed', async () => {
+    suppressions.findSuppressed.mockResolvedValue(
+      new Map([
+        [
+          'b@example.com',
+          { email: 'b@example.com', reason: SuppressionReason.HardBounce },
+        ],
+      ]),
+    );
+
+    await worker.poll();
+
+    expect(mailTransport.sendMail).not.toHaveBeenCalled();
+    expect(queue.discard).toHaveBeenCalledWith(
+      job,
+      expect.anything(),
+      EmailStatus.Suppressed,
+      'Every recipient is on the suppression list: b@example.com (hard-bounce)',
+    );
+  });
+
+  it('adds one-click unsubscribe headers to marketing emails', async () => {
+    queue.claimDue.mockResolvedValue([
+      {
+        ...job,
+        transaction: {
+          ...job.transaction,
+          category: TemplateCategory.Marketing,
+        },
+      },
+    ]);
+    suppressions.unsubscribeHeaders.mockReturnValue({
+      'List-Unsubscribe': '<http://localhost:3000/api/unsubscribe/token>',
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    });
+    mailTransport.sendMail.mockResolvedValue({
+      messageId: '<id@example.com>',
+      response: '250 OK',
+    });
+
+    await worker.poll();
+
+    expect(suppressions.unsubscribeHeaders).toHaveBeenCalledWith('Testing', [
+      'b@example.com',
+    ]);
+    expect(mailTransport.sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        }) as Record<string, string>,
+      }),
+    );
+  });
+
+  it('redirects emails outside production, keeping the original recipients', async () => {
+    mailTransport.sendMail.mockResolvedValue({
+      messageId: '<id@example.com>',
+      response: '250 OK',
+    });
+
+    await createWorker(
+      { returnPath: 'bounces@example.com' },
+      {
+        name: 'staging',
+        production: false,
+        recipientMode: RecipientMode.Redirect,
+        redirectTo: 'qa@example.com',
+        allowedDomains: [],
+      },
+    ).poll();
+
+    expect(mailTransport.sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        subject: '[staging] Hi',
+        to: ['qa@example.com'],
+        headers: expect.objectContaining({
+          'X-Original-Recipients': 'to: b@example.com',
+        }) as Record<string, string>,
+        envelope: expect.objectContaining({
+          to: ['qa@example.com'],
+        }) as object,
+      }),
+    );
+    expect(queue.complete).toHaveBeenCalledWith(job, expect.anything(), {
+      messageId: '<id@example.com>',
+      response: '250 OK',
+      rewritten: 'redirected to qa@example.com',
+    });
+  });
+
+  it('blocks emails with no recipient in the allowed domains', async () => {
+    await createWorker(
+      {},
+      {
+        name: 'staging',
+        production: false,
+        recipientMode: RecipientMode.Allowlist,
+        redirectTo: 'qa@example.com',
+        allowedDomains: ['example.org'],
+      },
+    ).poll();
+
+    expect(mailTransport.sendMail).not.toHaveBeenCalled();
+    expect(queue.discard).toHaveBeenCalledWith(
+      job,
+      expect.anything(),
+      EmailStatus.Blocked,
+      'Every recipient is outside the allowed domains: b@example.com',
+    );
+  });
+});
@@ -0,0 +1,322 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { hostname } from 'node:os';
+import { verpAddress } from '../bounces/verp';
+import { bouncesConfig, type BouncesConfig } from '../config/bounces.config';
+import { queueConfig, type QueueConfig } from '../config/queue.config';
+import { runWithLogContext } from '../logging/log-context';
+import { MailTransportService } from '../mail/mail-transport.service';
+import { toDeliveryFailure } from '../mail/smtp-error';
+import { MetricsService } from '../metrics/metrics.service';
+import { EmailSuppression } from '../suppressions/entities/email-suppression.entity';
+import {
+  normalizeAddress,
+  SuppressionsService,
+} from '../suppressions/suppressions.service';
+import { TemplateCategory } from '../templates/entities/email-template.entity';
+import { SendEmailDto } from './dto/send-email.dto';
+import { EmailBatchesService } from './email-batches.service';
+import { EmailMessageBuilder } from './email-message.builder';
+import {
+  DeliveryReceipt,
+  EmailQueueService,
+  JobLockLostError,
+} from './email-queue.service';
+import { EmailStatus } from './email-status.enum';
+import { EmailJob } from './entities/email-job.entity';
+import { RecipientPolicyService } from './recipient-policy.service';
+import { decodedLength } from './utils/data-url';
+import { allRecipients, parseRecipients } from './utils/recipients';
+import { type SharedFiles, withFiles } from './utils/shared-files';
+
+/**
+ * Polls the Postgres-backed queue and hands due jobs to the SMTP relay.
+ * Several instances can run side by side; jobs are claimed with
+ * `FOR UPDATE SKIP LOCKED` so each one is delivered by a single worker.
+ */
+@Injectable()
+export class EmailDeliveryWorker
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(EmailDeliveryWorker.name);
+  private readonly workerId = `${hostname()}:${process.pid}`;
+  private timer?: NodeJS.Timeout;
+  private inFlight: Promise<void> = Promise.resolve();
+  private stopped = false;
+  private lastPollAt: Date | null = null;
+
+  constructor(
+    private readonly queue: EmailQueueService,
+    private readonly messageBuilder: EmailMessageBuilder,
+    private readonly mailTransport: MailTransportService,
+    private readonly batches: EmailBatchesService,
+    private readonly suppressions: SuppressionsService,
+    private readonly recipientPolicy: RecipientPolicyService,
+    private readonly metrics: MetricsService,
+    @Inject(queueConfig.KEY) private readonly config: QueueConfig,
+    @Inject(bouncesConfig.KEY) private readonly bounceConfig: BouncesConfig,
+  ) {}
+
+  onApplicationBootstrap() {
+    if (!this.config.workerEnabled) {
+      this.logger.log('Delivery worker disabled');
+      return;
+    }
+    this.logger.log(`Delivery worker ${this.workerId} started`);
+    this.scheduleNextPoll();
+  }
+
+  async onApplicationShutdown() {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    await this.inFlight;
+  }
+
+  /** When this instance's worker last polled, for health checks. */
+  heartbeat(): { enabled: boolean; lastPollAt: Date | null } {
+    return { enabled: this.config.workerEnabled, lastPollAt: this.lastPollAt };
+  }
+
+  async poll(): Promise<void> {
+    this.lastPollAt = new Date();
+    let jobs: EmailJob[];
+    try {
+      jobs = await this.queue.claimDue(this.workerId);
+    } catch (error) {
+      this.logger.error(`Failed to claim jobs: ${String(error)}`);
+      return;
+    }
+
+    // Jobs from one batch share its files, so read them once per poll.
+    const sharedFiles = new Map<string, Promise<SharedFiles>>();
+    await Promise.all(
+      jobs.map((job) =>
+        runWithLogContext({ txnRefNo: job.transaction.txnRefNo }, () =>
+          this.deliver(job, sharedFiles),
+        ),
+      ),
+    );
+  }
+
+  private scheduleNextPoll() {
+    if (this.stopped) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.inFlight = this.poll().finally(() => this.scheduleNextPoll());
+    }, this.config.pollIntervalMs);
+  }
+
+  private async deliver(
+    job: EmailJob,
+    sharedFiles: Map<string, Promise<SharedFiles>>,
+  ): Promise<void> {
+    const { txnRefNo, messageId, source } = job.transaction;
+    const context = { worker: this.workerId, startedAt: new Date() };
+
+    let receipt: DeliveryReceipt;
+    let sent: { email: SendEmailDto; seconds: number };
+    let sendStartedAt: number | undefined;
+    try {
+      const payload = await this.payloadFor(job, sharedFiles);
+      const { recipients, suppressed } = await this.screen(job, payload);
+      if (!recipients) {
+        await this.record(txnRefNo, async () => {
+          await this.queue.discard(
+            job,
+            context,
+            EmailStatus.Suppressed,
+            describeSuppressed(suppressed),
+          );
+          this.logger.log(`Suppressed ${txnRefNo}: every recipient opted out`);
+        });
+        return;
+      }
+      const addressed = this.recipientPolicy.apply(recipients);
+      if (!addressed.email) {
+        await this.record(txnRefNo, async () => {
+          await this.queue.discard(
+            job,
+            context,
+            EmailStatus.Blocked,
+            addressed.note ?? 'No recipient is allowed',
+          );
+          this.logger.log(`Blocked ${txnRefNo}: no recipient is allowed`);
+        });
+        return;
+      }
+
+      // Unsubscribe links are for the original recipients, even when the
+      // email is redirected, so the flow can be tried out.
+      const message = this.messageBuilder.build(addressed.email, {
+        ...(job.transaction.category === TemplateCategory.Marketing
+          ? this.suppressions.unsubscribeHeaders(
+              job.transaction.source,
+              allRecipients(recipients.payload),
+            )
+          : {}),
+        ...addressed.headers,
+      });
+      message.messageId = messageId ?? undefined;
+      if (this.bounceConfig.returnPath) {
+        message.envelope = {
+          from: verpAddress(this.bounceConfig.returnPath, job.transactionId),
+          to: allRecipients(addressed.email.payload),
+        };
+      }
+
+      sendStartedAt = Date.now();
+      const info = await this.mailTransport.sendMail(message);
+      sent = {
+        email: addressed.email,
+        seconds: (Date.now() - sendStartedAt) / 1_000,
+      };
+      receipt = {
+        messageId: info.messageId,
+        response: info.response,
+        ...(suppressed.length > 0
+          ? { suppressed: suppressed.map(({ email }) => email) }
+          : {}),
+        ...(addressed.note ? { rewritten: addressed.note } : {}),
+      };
+    } catch (error) {
+      const failure = toDeliveryFailure(error);
+      if (sendStartedAt !== undefined) {
+        this.metrics.recordSend(
+          (Date.now() - sendStartedAt) / 1_000,
+          false,
+          failure.code,
+        );
+      }
+      await this.record(txnRefNo, async () => {
+        const status = await this.queue.fail(job, context, failure);
+        if (status === EmailStatus.DeadLettered) {
+          this.metrics.recordDeadLetter(source);
+        } else {
+          this.metrics.recordRetry(source);
+        }
+        this.logger.warn(
+          `Attempt ${job.attempts} for ${txnRefNo} failed (${status}): ${failure.message}`,
+        );
+      });
+      return;
+    }
+
+    await this.record(txnRefNo, async () => {
+      await this.queue.complete(job, context, receipt);
+      this.recordSent(job, sent.email, sent.seconds, receipt.response);
+      this.logger.log(`Delivered ${txnRefNo} on attempt ${job.attempts}`);
+    });
+  }
+
+  private recordSent(
+    job: EmailJob,
+    email: SendEmailDto,
+    seconds: number,
+    response: string,
+  ) {
+    this.metrics.recordSend(
+      seconds,
+      true,
+      /^\d{3}/.exec(response)?.[0] ?? null,
+    );
+    // Scheduled emails count from their send time, not from acceptance.
+    const { sendAt, createdAt } = job.transaction;
+    this.metrics.recordDeliveryLatency(
+      (Date.now() - (sendAt ?? createdAt).getTime()) / 1_000,
+    );
+    const { attachment_files = [], html_images = [] } = email.additionalInfo;
+    for (const { base64 } of attachment_files) {
+      this.metrics.recordAttachment('attachment', decodedLength(base64));
+    }
+    for (const { base64 } of html_images) {
+      this.metrics.recordAttachment('inline_image', decodedLength(base64));
+    }
+  }
+
+  private async payloadFor(
+    job: EmailJob,
+    sharedFiles: Map<string, Promise<SharedFiles>>,
+  ): Promise<SendEmailDto> {
+    const { batchId } = job.transaction;
+    if (!batchId) {
+      return job.payload;
+    }
+    let files = sharedFiles.get(batchId);
+    if (!files) {
+      files = this.batches.findSharedFiles(batchId);
+      sharedFiles.set(batchId, files);
+    }
+    return withFiles(job.payload, await files);
+  }
+
+  /**
+   * Drops recipients on the suppression list, checked at delivery so
+   * entries added after an email was accepted still apply. `recipients` is
+   * null when nobody is left to send to.
+   */
+  private async screen(
+    job: EmailJob,
+    payload: SendEmailDto,
+  ): Promise<{
+    recipients: SendEmailDto | null;
+    suppressed: EmailSuppression[];
+  }> {
+    const suppressed = await this.suppressions.findSuppressed(
+      job.transaction.source,
+      allRecipients(payload.payload),
+    );
+    if (suppressed.size === 0) {
+      return { recipients: payload, suppressed: [] };
+    }
+
+    const keep = (list?: string) =>
+      parseRecipients(list)
+        .filter((address) => !suppressed.has(normalizeAddress(address)))
+        .join(', ');
+    const content = {
+      ...payload.payload,
+      to: keep(payload.payload.to),
+      cc: keep(payload.payload.cc) || undefined,
+      bcc: keep(payload.payload.bcc) || undefined,
+    };
+    return {
+      recipients:
+        allRecipients(content).length > 0
+          ? { ...payload, payload: content }
+          : null,
+      suppressed: [...suppressed.values()],
+    };
+  }
+
+  /**
+   * If the outcome can't be saved the job keeps its lock until the lock
+   * timeout, after which another worker picks it up again. A job that was
+   * already picked up again is left to that worker.
+   */
+  private async record(txnRefNo: string, save: () => Promise<void>) {
+    try {
+      await save();
+    } catch (error) {
+      if (error instanceof JobLockLostError) {
+        this.logger.warn(
+          `Not recording the outcome for ${txnRefNo}: ${error.message}`,
+        );
+        return;
+      }
+      this.logger.error(
+        `Failed to record attempt for ${txnRefNo}: ${String(error)}`,
+      );
+    }
+  }
+}
+
+function describeSuppressed(suppressed: EmailSuppression[]): string {
+  const entries = suppressed.map(({ email, reason }) => `${email} (${reason})`);
+  return `Every recipient is on the suppression list: ${entries.join(', ')}`;
+}
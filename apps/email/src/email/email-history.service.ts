@@ -0,0 +1,47 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { WebhookQueueService } from '../webhooks/webhook-queue.service';
+import { EmailStatus } from './email-status.enum';
+import { EmailStatusEvent } from './entities/email-status-event.entity';
+
+@Injectable()
+export class EmailHistoryService {
+  constructor(
+    @InjectRepository(EmailStatusEvent)
+    private readonly events: Repository<EmailStatusEvent>,
+    private readonly webhooks: WebhookQueueService,
+  ) {}
+
+  /**
+   * Appends a status transition within the caller's database transaction,
+   * and queues calls to the webhooks that want to hear about it.
+   */
+  async record(
+    manager: EntityManager,
+    transactionIds: string | string[],
+    status: EmailStatus,
+    detail: string | null = null,
+    actor: string | null = null,
+  ): Promise<void> {
+    const ids = Array.isArray(transactionIds)
+      ? transactionIds
+      : [transactionIds];
+    if (ids.length === 0) {
+      return;
+    }
+
+    await manager.insert(
+      EmailStatusEvent,
+      ids.map((transactionId) => ({ transactionId, status, detail, actor })),
+    );
+    await this.webhooks.enqueue(manager, ids, status, detail);
+  }
+
+  findByTransaction(transactionId: string): Promise<EmailStatusEvent[]> {
+    return this.events.find({
+      where: { transactionId },
+      order: { occurredAt: 'ASC' },
+    });
+  }
+}
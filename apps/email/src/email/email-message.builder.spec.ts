@@ -0,0 +1,103 @@
+import type { Attachment } from 'nodemailer/lib/mailer';
+import { Readable } from 'node:stream';
+import { SendEmailDto } from './dto/send-email.dto';
+import { EmailMessageBuilder } from './email-message.builder';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const PNG_DATA_URL = `data:image/png;base64,${PNG.toString('base64')}`;
+
+function createDto(overrides: Partial<SendEmailDto> = {}): SendEmailDto {
+  return {
+    txnRefNo: 'Email-1',
+    source: 'Testing',
+    payload: {
+      from: 'noreply@example.com',
+      subject: 'Hello',
+      to: 'a@example.com; b@example.com',
+      cc: '',
+      html: '<img src="cid:header.png" />',
+      text: 'Hello',
+    },
+    additionalInfo: {
+      template_id: 1,
+      isText: false,
+      html_images: [{ filename: 'header.png', base64: PNG_DATA_URL }],
+      attachment_files: [
+        { filename: 'notes.txt', base64: Buffer.from('hi').toString('base64') },
+      ],
+    },
+    ...overrides,
+  };
+}
+
+async function readContent({ content }: Attachment): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of content as Readable) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+describe('EmailMessageBuilder', () => {
+  const builder = new EmailMessageBuilder();
+
+  it('splits recipient lists and tags the message with the txnRefNo', () => {
+    const message = builder.build(createDto());
+
+    expect(message.to).toEqual(['a@example.com', 'b@example.com']);
+    expect(message.cc).toEqual([]);
+    expect(message.headers).toMatchObject({ 'X-Txn-Ref-No': 'Email-1' });
+  });
+
+  it('embeds html images inline and decodes attachments', async () => {
+    const message = builder.build(createDto());
+    const attachments = message.attachments ?? [];
+
+    expect(message.html).toBe('<img src="cid:header.png" />');
+    expect(attachments).toEqual([
+      expect.objectContaining({
+        filename: 'header.png',
+        cid: 'header.png',
+        contentType: 'image/png',
+      }),
+      expect.objectContaining({
+        filename: 'notes.txt',
+        contentType: 'text/plain',
+      }),
+    ]);
+    await expect(readContent(attachments[0])).resolves.toEqual(PNG);
+    await expect(readContent(attachments[1])).resolves.toEqual(
+      Buffer.from('hi'),
+    );
+  });
+
+  it('attaches images under the cid the HTML uses and drops unused ones', () => {
+    const dto = createDto();
+    dto.payload.html = '<img src="cid:img@header.png" />';
+    dto.additionalInfo.html_images!.push({
+      filename: 'unused.png',
+      base64: PNG_DATA_URL,
+    });
+
+    const message = builder.build(dto);
+
+    expect(message.attachments).toEqual([
+      expect.objectContaining({
+        filename: 'header.png',
+        cid: 'img@header.png',
+      }),
+      expect.objectContaining({ filename: 'notes.txt' }),
+    ]);
+  });
+
+  it('sends only the text body when isText is set', () => {
+    const dto = createDto();
+    dto.additionalInfo.isText = true;
+
+    const message = builder.build(dto);
+
+    expect(message.html).toBeUndefined();
+    expect(message.text).toBe('Hello');
+    expect(message.attachments).toHaveLength(1);
+  });
+});
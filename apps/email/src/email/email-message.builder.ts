@@ -0,0 +1,84 @@
+import { Injectable } from '@nestjs/common';
+import type { Attachment, Options as MailOptions } from 'nodemailer/lib/mailer';
+import { sniffEncodedFile } from '../attachments/content-sniffer';
+import { EmailFileDto, SendEmailDto } from './dto/send-email.dto';
+import { InlineImageResolution, resolveInlineImages } from './inline-images';
+import { createDecodeStream } from './utils/data-url';
+import { parseRecipients } from './utils/recipients';
+
+@Injectable()
+export class EmailMessageBuilder {
+  /** `headers` are added to the message, e.g. List-Unsubscribe. */
+  build(dto: SendEmailDto, headers: Record<string, string> = {}): MailOptions {
+    const { payload, additionalInfo } = dto;
+
+    const message: MailOptions = {
+      from: payload.from,
+      to: parseRecipients(payload.to),
+      cc: parseRecipients(payload.cc),
+      bcc: parseRecipients(payload.bcc),
+      subject: payload.subject,
+      headers: {
+        'X-Txn-Ref-No': dto.txnRefNo,
+        'X-Email-Source': dto.source,
+        ...headers,
+      },
+    };
+
+    if (additionalInfo.isText) {
+      message.text = payload.text ?? '';
+      message.attachments = this.toAttachments(additionalInfo.attachment_files);
+      return message;
+    }
+
+    message.html = payload.html ?? '';
+    if (payload.text) {
+      message.text = payload.text;
+    }
+    message.attachments = [
+      ...this.toInlineImages(message.html, additionalInfo.html_images),
+      ...this.toAttachments(additionalInfo.attachment_files),
+    ];
+
+    return message;
+  }
+
+  /** Matches `html_images` against the `cid:` references in the HTML body. */
+  inspectInlineImages(dto: SendEmailDto): InlineImageResolution {
+    const html = dto.additionalInfo.isText ? '' : (dto.payload.html ?? '');
+    return resolveInlineImages(html, dto.additionalInfo.html_images);
+  }
+
+  /**
+   * Attaches each referenced image under the Content-ID the HTML uses, which
+   * makes nodemailer wrap the body in multipart/related. Unreferenced images
+   * are left out rather than showing up as stray attachments.
+   */
+  private toInlineImages(html: string, images?: EmailFileDto[]): Attachment[] {
+    return resolveInlineImages(html, images).references.map(
+      ({ cid, image }) => ({
+        ...this.toAttachment(image),
+        cid,
+        contentDisposition: 'inline' as const,
+      }),
+    );
+  }
+
+  private toAttachments(files: EmailFileDto[] = []): Attachment[] {
+    return files.map((file) => this.toAttachment(file));
+  }
+
+  /**
+   * The content is decoded as nodemailer streams it out, so large files are
+   * never held decoded in memory.
+   */
+  private toAttachment(file: EmailFileDto): Attachment {
+    return {
+      filename: file.filename,
+      content: createDecodeStream(file.base64),
+      // The bytes were checked against the attachment policy, so they are a
+      // better guide than the type the caller declared.
+      contentType: sniffEncodedFile(file.base64, file.filename),
+    };
+  }
+}
@@ -0,0 +1,173 @@
+import { BadRequestException } from '@nestjs/common';
+import type { Attachment } from 'nodemailer/lib/mailer';
+import { Readable } from 'node:stream';
+import { SendEmailDto } from './dto/send-email.dto';
+import { EmailMessageBuilder } from './email-message.builder';
+import type { AttachmentsConfig } from '../config/attachments.config';
+import type { HttpConfig } from '../config/http.config';
+import {
+  EmailMultipartParser,
+  multipartBodyLimit,
+  multipartLimits,
+} from './email-multipart.parser';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const NOTES = Buffer.from('Résumé notes');
+
+const metadata = {
+  txnRefNo: 'Email-1',
+  source: 'Testing',
+  payload: {
+    from: 'noreply@example.com',
+    subject: 'Hello',
+    to: 'a@example.com',
+    html: '<img src="cid:header.png" />',
+  },
+  additionalInfo: { template_id: 1, isText: false },
+};
+
+function upload(
+  fieldname: string,
+  originalname: string,
+  mimetype: string,
+  buffer: Buffer,
+): Express.Multer.File {
+  return {
+    fieldname,
+    // Busboy hands over the UTF-8 bytes of the filename read as latin1.
+    originalname: Buffer.from(originalname).toString('latin1'),
+    mimetype,
+    buffer,
+    size: buffer.length,
+  } as Express.Multer.File;
+}
+
+async function readContent({ content }: Attachment): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of content as Readable) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+describe('EmailMultipartParser', () => {
+  const parser = new EmailMultipartParser();
+  const builder = new EmailMessageBuilder();
+
+  it('builds the same message as the equivalent JSON request', async () => {
+    const json: SendEmailDto = {
+      ...metadata,
+      additionalInfo: {
+        ...metadata.additionalInfo,
+        html_images: [
+          {
+            filename: 'header.png',
+            base64: `data:image/png;base64,${PNG.toString('base64')}`,
+          },
+        ],
+        attachment_files: [
+          { filename: 'résumé.txt', base64: NOTES.toString('base64') },
+        ],
+      },
+    };
+
+    const dto = await parser.parse(JSON.stringify(metadata), {
+      html_images: [upload('html_images', 'header.png', 'image/png', PNG)],
+      attachment_files: [
+        upload('attachment_files', 'résumé.txt', 'text/plain', NOTES),
+      ],
+    });
+
+    expect(dto).toBeInstanceOf(SendEmailDto);
+    const fromJson = builder.build(json);
+    const fromMultipart = builder.build(dto);
+    const { attachments: jsonAttachments = [], ...jsonRest } = fromJson;
+    const { attachments: multipartAttachments = [], ...multipartRest } =
+      fromMultipart;
+    expect(multipartRest).toEqual(jsonRest);
+    expect(multipartAttachments).toHaveLength(2);
+    for (const [index, attachment] of multipartAttachments.entries()) {
+      expect({ ...attachment, content: null }).toEqual({
+        ...jsonAttachments[index],
+        content: null,
+      });
+      await expect(readContent(attachment)).resolves.toEqual(
+        await readContent(jsonAttachments[index]),
+      );
+    }
+  });
+
+  it('appends uploaded files after any sent inline in the payload', async () => {
+    const dto = await parser.parse(
+      JSON.stringify({
+        ...metadata,
+        additionalInfo: {
+          ...metadata.additionalInfo,
+          attachment_files: [{ filename: 'a.txt', base64: 'aGk=' }],
+        },
+      }),
+      { attachment_files: [upload('attachment_files', 'b.txt', '', NOTES)] },
+    );
+
+    expect(
+      dto.additionalInfo.attachment_files?.map(({ filename }) => filename),
+    ).toEqual(['a.txt', 'b.txt']);
+  });
+
+  it.each([
+    ['missing', undefined],
+    ['not JSON', '{"txnRefNo":'],
+    ['not an object', '[]'],
+  ])('rejects a payload part that is %s', async (_case, payload) => {
+    await expect(parser.parse(payload)).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+  });
+
+  it('validates the payload like the JSON endpoint does', async () => {
+    await expect(
+      parser.parse(JSON.stringify({ ...metadata, source: undefined })),
+    ).rejects.toMatchObject({
+      response: {
+        message: ['source should not be empty', 'source must be a string'],
+      },
+    });
+  });
+});
+
+describe('multipartLimits', () => {
+  const attachments = {
+    defaults: { maxFiles: 10, maxFileBytes: 10_485_760 },
+    sources: { Reports: { maxFiles: 20, maxFileBytes: 20_971_520 } },
+  } as unknown as AttachmentsConfig;
+
+  it('caps files, fields and the payload part, not just the file size', () => {
+    expect(multipartLimits(attachments, 26_214_400)).toEqual({
+      fileSize: 20_971_520,
+      files: 40,
+      fields: 1,
+      fieldSize: 26_214_400,
+    });
+  });
+
+  it('takes the body limit of the multipart route', () => {
+    const http: HttpConfig = {
+      bodyLimit: '100kb',
+      routeBodyLimits: {
+        '/api/email/send': '25mb',
+        '/api/email/batches': '25mb',
+      },
+    };
+
+    expect(multipartBodyLimit(http)).toBe(26_214_400);
+    expect(
+      multipartBodyLimit({
+        ...http,
+        routeBodyLimits: {
+          ...http.routeBodyLimits,
+          '/api/email/send/multipart': '5mb',
+        },
+      } as HttpConfig),
+    ).toBe(5_242_880);
+  });
+});
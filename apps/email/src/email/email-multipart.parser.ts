@@ -0,0 +1,162 @@
+import {
+  BadRequestException,
+  Injectable,
+  ValidationPipe,
+} from '@nestjs/common';
+import bytes from 'bytes';
+import type { AttachmentsConfig } from '../config/attachments.config';
+import type { HttpConfig } from '../config/http.config';
+import { routeBodyLimit } from '../http/body-parsers';
+import { EmailFileDto, SendEmailDto } from './dto/send-email.dto';
+
+/** Binary parts of a multipart send, keyed by the field they fill. */
+export interface MultipartEmailFiles {
+  attachment_files?: Express.Multer.File[];
+  html_images?: Express.Multer.File[];
+}
+
+export const MULTIPART_FILE_FIELDS = [
+  'attachment_files',
+  'html_images',
+] as const;
+
+/**
+ * Turns a multipart send into the same `SendEmailDto` the JSON endpoint
+ * takes: the `payload` part is the JSON body without files, and each file
+ * part is appended to the `additionalInfo` list of the same name. Files are
+ * carried on base64 encoded so policy checks, queueing and message building
+ * can't tell the two endpoints apart.
+ */
+@Injectable()
+export class EmailMultipartParser {
+  /** Same options as the global pipe, so both endpoints validate alike. */
+  private readonly validationPipe = new ValidationPipe({
+    whitelist: true,
+    transform: true,
+  });
+
+  async parse(
+    payload: string | undefined,
+    files: MultipartEmailFiles = {},
+  ): Promise<SendEmailDto> {
+    const body = parsePayload(payload);
+    const additionalInfo = isObject(body.additionalInfo)
+      ? { ...body.additionalInfo }
+      : {};
+    for (const field of MULTIPART_FILE_FIELDS) {
+      const uploaded = files[field] ?? [];
+      if (uploaded.length === 0) {
+        continue;
+      }
+      const inline = Array.isArray(additionalInfo[field])
+        ? (additionalInfo[field] as unknown[])
+        : [];
+      additionalInfo[field] = [...inline, ...uploaded.map(toEmailFile)];
+    }
+
+    return (await this.validationPipe.transform(
+      { ...body, additionalInfo },
+      { type: 'body', metatype: SendEmailDto },
+    )) as SendEmailDto;
+  }
+}
+
+function parsePayload(payload: string | undefined): Record<string, unknown> {
+  if (payload === undefined || payload.trim() === '') {
+    throw invalidPayload(
+      'MISSING_PART',
+      'The payload part is required and must hold the email JSON',
+    );
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(payload);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw invalidPayload(
+      'INVALID_JSON',
+      `payload is not valid JSON: ${reason}`,
+    );
+  }
+  if (!isObject(body)) {
+    throw invalidPayload('INVALID_JSON', 'payload must be a JSON object');
+  }
+  return body;
+}
+
+function toEmailFile(file: Express.Multer.File): EmailFileDto {
+  return {
+    // Busboy reads header parameters as latin1; browsers send UTF-8.
+    filename: Buffer.from(file.originalname, 'latin1').toString('utf8'),
+    base64: file.buffer.toString('base64'),
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalidPayload(code: string, message: string): BadRequestException {
+  return new BadRequestException({
+    statusCode: 400,
+    error: 'Bad Request',
+    message: [message],
+    errors: [{ field: 'payload', code, message }],
+  });
+}
+
+export const MULTIPART_SEND_PATH = '/api/email/send/multipart';
+
+/** The body limit of the multipart send route, in bytes. */
+export function multipartBodyLimit(config: HttpConfig): number {
+  return bytes.parse(routeBodyLimit(config, MULTIPART_SEND_PATH)) ?? 0;
+}
+
+/** The only non-file part a multipart send reads. */
+export const MULTIPART_FIELDS = ['payload'] as const;
+
+/**
+ * Limits for Multer, which holds every part in memory. The whole body is
+ * also held to the route's body limit, `bodyLimitBytes`, before Multer reads
+ * it; the payload part alone may take that much, as it can carry base64
+ * files of its own.
+ */
+export function multipartLimits(
+  config: AttachmentsConfig,
+  bodyLimitBytes: number,
+) {
+  return {
+    fileSize: multipartFileLimit(config),
+    files: multipartFileCount(config),
+    fields: MULTIPART_FIELDS.length,
+    fieldSize: bodyLimitBytes,
+  };
+}
+
+/** Room for as many inline images as the most attachments any source may send. */
+export function multipartFileCount({
+  defaults,
+  sources,
+}: AttachmentsConfig): number {
+  return (
+    2 *
+    Math.max(
+      defaults.maxFiles,
+      ...Object.values(sources).map((policy) => policy.maxFiles ?? 0),
+    )
+  );
+}
+
+/**
+ * Largest file any source may upload. Multer stops reading a part past this;
+ * smaller per-source limits are left to the attachment policy.
+ */
+export function multipartFileLimit({
+  defaults,
+  sources,
+}: AttachmentsConfig): number {
+  return Math.max(
+    defaults.maxFileBytes,
+    ...Object.values(sources).map((policy) => policy.maxFileBytes ?? 0),
+  );
+}
@@ -0,0 +1,172 @@
+import { ConflictException } from '@nestjs/common';
+import { DataSource, Repository } from 'typeorm';
+import { QueueConfig } from '../config/queue.config';
+import { EmailHistoryService } from './email-history.service';
+import { EmailQueueService, JobLockLostError } from './email-queue.service';
+import { EmailStatus } from './email-status.enum';
+import { EmailDeliveryAttempt } from './entities/email-delivery-attempt.entity';
+import { EmailJob, EmailJobState } from './entities/email-job.entity';
+import { EmailTransaction } from './entities/email-transaction.entity';
+
+describe('EmailQueueService', () => {
+  const manager = {
+    update: jest.fn(),
+    insert: jest.fn(),
+    findOneBy: jest.fn(),
+  };
+  const dataSource = {
+    transaction: jest.fn((work: (m: typeof manager) => unknown) =>
+      work(manager),
+    ),
+  };
+  const history = { record: jest.fn() };
+  const change = { actor: 'admin', reason: 'Sent in error' };
+  let queue: EmailQueueService;
+  let transaction: EmailTransaction;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    queue = new EmailQueueService(
+      {} as Repository<EmailJob>,
+      {} as Repository<EmailDeliveryAttempt>,
+      {} as Repository<EmailTransaction>,
+      dataSource as unknown as DataSource,
+      { maxAttempts: 5 } as QueueConfig,
+      history as unknown as EmailHistoryService,
+    );
+    transaction = {
+      id: 'txn-1',
+      txnRefNo: 'Email-1',
+      status: EmailStatus.Scheduled,
+      sendAt: new Date('2030-01-01T00:00:00Z'),
+    } as EmailTransaction;
+  });
+
+  it('cancels pending emails and records who did it and why', async () => {
+    manager.update.mockResolvedValue({ affected: 1 });
+
+    await expect(queue.cancel(transaction, change)).resolves.toMatchObject({
+      status: EmailStatus.Cancelled,
+    });
+    expect(manager.update).toHaveBeenCalledWith(
+      EmailJob,
+      { transactionId: 'txn-1', state: EmailJobState.Pending },
+      { state: EmailJobState.Cancelled },
+    );
+    expect(manager.update).toHaveBeenCalledWith(
+      EmailTransaction,
+      { id: 'txn-1', status: EmailStatus.Scheduled },
+      { status: EmailStatus.Cancelled },
+    );
+    expect(history.record).toHaveBeenCalledWith(
+      manager,
+      'txn-1',
+      EmailStatus.Cancelled,
+      'Sent in error',
+      'admin',
+    );
+  });
+
+  it('refuses to cancel emails already handed to the SMTP relay', async () => {
+    manager.update.mockResolvedValue({ affected: 0 });
+    manager.findOneBy.mockResolvedValue({ state: EmailJobState.Processing });
+
+    await expect(queue.cancel(transaction, change)).rejects.toThrow(
+      new ConflictException(
+        "Email Email-1 has already been handed to the SMTP relay and can't be cancelled",
+      ),
+    );
+    expect(history.record).not.toHaveBeenCalled();
+  });
+
+  it('moves the due time of rescheduled emails', async () => {
+    manager.update.mockResolvedValue({ affected: 1 });
+    const sendAt = new Date('2031-06-01T01:00:00Z');
+
+    await expect(
+      queue.reschedule(transaction, sendAt, change),
+    ).resolves.toMatchObject({ status: EmailStatus.Scheduled, sendAt });
+    expect(manager.update).toHaveBeenCalledWith(EmailJob, expect.anything(), {
+      nextAttemptAt: sendAt,
+    });
+    expect(manager.update).toHaveBeenCalledWith(
+      EmailTransaction,
+      { id: 'txn-1', status: EmailStatus.Scheduled },
+      { status: EmailStatus.Scheduled, sendAt },
+    );
+    expect(history.record).toHaveBeenCalledWith(
+      manager,
+      'txn-1',
+      EmailStatus.Scheduled,
+      'Rescheduled for 2031-06-01T01:00:00.000Z: Sent in error',
+      'admin',
+    );
+  });
+
+  it('refuses to overwrite an email that changed since it was read', async () => {
+    manager.update
+      .mockResolvedValueOnce({ affected: 1 })
+      .mockResolvedValueOnce({ affected: 0 });
+
+    await expect(queue.cancel(transaction, change)).rejects.toThrow(
+      new ConflictException(
+        'Email Email-1 changed while it was being cancelled; try again',
+      ),
+    );
+    expect(history.record).not.toHaveBeenCalled();
+  });
+
+  it('refuses to reschedule emails waiting to retry a failed attempt', () => {
+    transaction.status = EmailStatus.Failed;
+
+    expect(() =>
+      queue.reschedule(transaction, new Date('2031-06-01T01:00:00Z'), change),
+    ).toThrow(
+      new ConflictException(
+        "Email Email-1 is waiting to retry a failed attempt and can't be rescheduled",
+      ),
+    );
+    expect(manager.update).not.toHaveBeenCalled();
+  });
+
+  it('only records an outcome while the worker still holds the job', async () => {
+    const job = {
+      id: 'job-1',
+      transactionId: 'txn-1',
+      attempts: 2,
+    } as EmailJob;
+    const context = { worker: 'vm:1', startedAt: new Date() };
+    const receipt = { messageId: '<id@example.com>', response: '250 OK' };
+    manager.update.mockResolvedValue({ affected: 0 });
+
+    await expect(queue.complete(job, context, receipt)).rejects.toThrow(
+      JobLockLostError,
+    );
+    expect(manager.update).toHaveBeenCalledWith(
+      EmailJob,
+      {
+        id: 'job-1',
+        state: EmailJobState.Processing,
+        lockedBy: 'vm:1',
+        attempts: 2,
+      },
+      { state: EmailJobState.Completed, lockedAt: null, lockedBy: null },
+    );
+    expect(manager.insert).not.toHaveBeenCalled();
+    expect(history.record).not.toHaveBeenCalled();
+
+    manager.update.mockResolvedValue({ affected: 1 });
+    await queue.complete(job, context, receipt);
+
+    expect(manager.insert).toHaveBeenCalledTimes(1);
+    expect(history.record).toHaveBeenCalledTimes(1);
+  });
+
+  it('queues emails rescheduled to a time that has passed', async () => {
+    manager.update.mockResolvedValue({ affected: 1 });
+
+    await expect(
+      queue.reschedule(transaction, new Date(0), change),
+    ).resolves.toMatchObject({ status: EmailStatus.Queued, sendAt: null });
+  });
+});
@@ -0,0 +1,505 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, In, Repository } from 'typeorm';
+import type { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+import { queueConfig, type QueueConfig } from '../config/queue.config';
+import type { DeliveryFailure } from '../mail/smtp-error';
+import { SendEmailDto } from './dto/send-email.dto';
+import { EmailHistoryService } from './email-history.service';
+import { EmailStatus } from './email-status.enum';
+import {
+  DeliveryOutcome,
+  EmailDeliveryAttempt,
+} from './entities/email-delivery-attempt.entity';
+import { EmailJob, EmailJobState } from './entities/email-job.entity';
+import { EmailTransaction } from './entities/email-transaction.entity';
+import { backoffDelay } from './utils/backoff';
+
+export interface AttemptContext {
+  worker: string;
+  startedAt: Date;
+}
+
+export interface DeliveryReceipt {
+  messageId: string;
+  response: string;
+  /** Recipients left out because they are on the suppression list. */
+  suppressed?: string[];
+  /** How the environment's recipient policy changed the recipients. */
+  rewritten?: string;
+}
+
+export interface QueueBacklog {
+  /** Jobs waiting to be claimed whose time has come. */
+  due: number;
+  /** When the longest-waiting due job became due. */
+  oldestDueAt: Date | null;
+  processing: number;
+}
+
+/**
+ * The job was claimed again after its lock timed out, so this attempt's
+ * outcome is no longer the worker's to record.
+ */
+export class JobLockLostError extends Error {
+  constructor(job: EmailJob, worker: string) {
+    super(
+      `${worker} no longer holds job ${job.id} (attempt ${job.attempts}); another worker claimed it`,
+    );
+  }
+}
+
+/** A change a caller asked for, as recorded in the history. */
+export interface EmailChange {
+  actor: string;
+  reason?: string;
+}
+
+@Injectable()
+export class EmailQueueService {
+  constructor(
+    @InjectRepository(EmailJob)
+    private readonly jobs: Repository<EmailJob>,
+    @InjectRepository(EmailDeliveryAttempt)
+    private readonly attempts: Repository<EmailDeliveryAttempt>,
+    @InjectRepository(EmailTransaction)
+    private readonly transactions: Repository<EmailTransaction>,
+    private readonly dataSource: DataSource,
+    @Inject(queueConfig.KEY) private readonly config: QueueConfig,
+    private readonly history: EmailHistoryService,
+  ) {}
+
+  /**
+   * Must run inside the database transaction that created `transaction`.
+   * A scheduled email's job only becomes due at its `sendAt`, so the
+   * schedule lives in the queue table and survives restarts.
+   */
+  async enqueue(
+    manager: EntityManager,
+    transaction: EmailTransaction,
+    payload: SendEmailDto,
+  ): Promise<EmailJob> {
+    const { sendAt } = transaction;
+    const job = await manager.save(
+      manager.create(EmailJob, {
+        transactionId: transaction.id,
+        payload,
+        maxAttempts: this.config.maxAttempts,
+        ...(sendAt ? { nextAttemptAt: sendAt } : {}),
+      }),
+    );
+    if (sendAt) {
+      await this.history.record(
+        manager,
+        transaction.id,
+        EmailStatus.Scheduled,
+        `Scheduled for ${sendAt.toISOString()}`,
+      );
+    } else {
+      await this.history.record(manager, transaction.id, EmailStatus.Queued);
+    }
+    return job;
+  }
+
+  async backlog(): Promise<QueueBacklog> {
+    const [row]: {
+      due: number;
+      oldestDueAt: Date | null;
+      processing: number;
+    }[] = await this.dataSource.query(
+      `SELECT
+         count(*) FILTER (WHERE "state" = '${EmailJobState.Pending}')::int AS "due",
+         min("next_attempt_at") FILTER (WHERE "state" = '${EmailJobState.Pending}') AS "oldestDueAt",
+         count(*) FILTER (WHERE "state" = '${EmailJobState.Processing}')::int AS "processing"
+       FROM "email_jobs"
+       WHERE ("state" = '${EmailJobState.Pending}' AND "next_attempt_at" <= now())
+          OR "state" = '${EmailJobState.Processing}'`,
+    );
+    return row;
+  }
+
+  /**
+   * Locks up to a batch of due jobs for `worker`. Jobs whose lock outlived
+   * the lock timeout are picked up again, since their worker must have died.
+   */
+  claimDue(worker: string): Promise<EmailJob[]> {
+    return this.dataSource.transaction(async (manager) => {
+      const [rows]: [{ id: string }[], number] = await manager.query(
+        `UPDATE "email_jobs" SET
+           "state" = '${EmailJobState.Processing}',
+           "attempts" = "attempts" + 1,
+           "locked_at" = now(),
+           "locked_by" = $1,
+           "updated_at" = now()
+         WHERE "id" IN (
+           SELECT "id" FROM "email_jobs"
+           WHERE ("state" = '${EmailJobState.Pending}' AND "next_attempt_at" <= now())
+              OR ("state" = '${EmailJobState.Processing}'
+                  AND "locked_at" < now() - make_interval(secs => $3))
+           ORDER BY "next_attempt_at"
+           LIMIT $2
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING "id"`,
+        [worker, this.config.batchSize, this.config.lockTimeoutMs / 1000],
+      );
+      if (rows.length === 0) {
+        return [];
+      }
+
+      const ids = rows.map((row) => row.id);
+      const jobs = await manager.find(EmailJob, {
+        where: { id: In(ids) },
+        relations: { transaction: true },
+      });
+      const transactionIds = jobs.map((job) => job.transactionId);
+      await manager.update(
+        EmailTransaction,
+        { id: In(transactionIds) },
+        { status: EmailStatus.Sending },
+      );
+      await this.history.record(
+        manager,
+        transactionIds,
+        EmailStatus.Sending,
+        `Claimed by ${worker}`,
+      );
+      return jobs;
+    });
+  }
+
+  complete(
+    job: EmailJob,
+    context: AttemptContext,
+    receipt: DeliveryReceipt,
+  ): Promise<void> {
+    return this.dataSource.transaction(async (manager) => {
+      await this.release(manager, job, context, {
+        state: EmailJobState.Completed,
+      });
+      await this.recordAttempt(manager, job, context, {
+        outcome: DeliveryOutcome.Sent,
+        responseCode: null,
+        response: receipt.response,
+      });
+      await manager.update(EmailTransaction, job.transactionId, {
+        status: EmailStatus.Sent,
+        messageId: receipt.messageId,
+        providerResponse: receipt.response,
+        errorCode: null,
+        errorMessage: null,
+        sentAt: new Date(),
+      });
+      const notes = [
+        ...(receipt.suppressed?.length
+          ? [`not sent to suppressed ${receipt.suppressed.join(', ')}`]
+          : []),
+        ...(receipt.rewritten ? [receipt.rewritten] : []),
+      ];
+      await this.history.record(
+        manager,
+        job.transactionId,
+        EmailStatus.Sent,
+        notes.length > 0
+          ? `${receipt.response} (${notes.join('; ')})`
+          : receipt.response,
+      );
+    });
+  }
+
+  /**
+   * Ends a claimed job without sending it, because every recipient is on
+   * the suppression list or none may be sent to in this environment.
+   */
+  discard(
+    job: EmailJob,
+    context: AttemptContext,
+    status: EmailStatus.Suppressed | EmailStatus.Blocked,
+    detail: string,
+  ): Promise<void> {
+    return this.dataSource.transaction(async (manager) => {
+      await this.release(manager, job, context, {
+        state: EmailJobState.Cancelled,
+      });
+      await manager.update(EmailTransaction, job.transactionId, { status });
+      await this.history.record(manager, job.transactionId, status, detail);
+    });
+  }
+
+  /**
+   * Records a failed attempt and either schedules a retry or moves the job
+   * to the dead-letter state. Returns the resulting transaction status.
+   */
+  fail(
+    job: EmailJob,
+    context: AttemptContext,
+    failure: DeliveryFailure,
+  ): Promise<EmailStatus> {
+    return this.dataSource.transaction(async (manager) => {
+      const retry = !failure.permanent && job.attempts < job.maxAttempts;
+      const status = retry ? EmailStatus.Failed : EmailStatus.DeadLettered;
+
+      if (retry) {
+        const delay = backoffDelay(
+          job.attempts,
+          this.config.backoffBaseMs,
+          this.config.backoffMaxMs,
+        );
+        await this.release(manager, job, context, {
+          state: EmailJobState.Pending,
+          nextAttemptAt: new Date(Date.now() + delay),
+        });
+      } else {
+        await this.release(manager, job, context, {
+          state: EmailJobState.Dead,
+        });
+      }
+      await this.recordAttempt(manager, job, context, {
+        outcome: DeliveryOutcome.Failed,
+        responseCode: failure.code,
+        response: failure.message,
+      });
+      await manager.update(EmailTransaction, job.transactionId, {
+        status,
+        errorCode: failure.code,
+        errorMessage: failure.message,
+        failedAt: new Date(),
+      });
+      await this.history.record(
+        manager,
+        job.transactionId,
+        status,
+        failure.message,
+      );
+      return status;
+    });
+  }
+
+  /** Gives a dead-lettered email a fresh set of attempts. */
+  requeue(transaction: EmailTransaction): Promise<EmailTransaction> {
+    if (transaction.status !== EmailStatus.DeadLettered) {
+      throw new ConflictException(
+        `Email ${transaction.txnRefNo} is ${transaction.status}; only dead-lettered emails can be requeued`,
+      );
+    }
+
+    return this.dataSource.transaction(async (manager) => {
+      const { affected } = await manager.update(
+        EmailJob,
+        { transactionId: transaction.id, state: EmailJobState.Dead },
+        {
+          state: EmailJobState.Pending,
+          // Keep counting attempts so the history stays in order.
+          maxAttempts: () => `"attempts" + ${this.config.maxAttempts}`,
+          nextAttemptAt: new Date(),
+        },
+      );
+      if (!affected) {
+        throw new NotFoundException(
+          `No dead-lettered job found for ${transaction.txnRefNo}`,
+        );
+      }
+
+      transaction.status = EmailStatus.Queued;
+      transaction.errorCode = null;
+      transaction.errorMessage = null;
+      await this.history.record(
+        manager,
+        transaction.id,
+        EmailStatus.Queued,
+        'Requeued from the dead-letter state',
+      );
+      return manager.save(transaction);
+    });
+  }
+
+  /**
+   * Stops an email that is still waiting to be sent. Once a worker has
+   * claimed it the message may already be with the SMTP relay, so it can't
+   * be taken back.
+   */
+  cancel(
+    transaction: EmailTransaction,
+    change: EmailChange,
+  ): Promise<EmailTransaction> {
+    return this.dataSource.transaction(async (manager) => {
+      await this.changePending(manager, transaction, 'cancelled', {
+        state: EmailJobState.Cancelled,
+      });
+      await this.changeTransaction(manager, transaction, 'cancelled', {
+        status: EmailStatus.Cancelled,
+      });
+      await this.history.record(
+        manager,
+        transaction.id,
+        EmailStatus.Cancelled,
+        change.reason ?? null,
+        change.actor,
+      );
+      return transaction;
+    });
+  }
+
+  /**
+   * Moves the send time of an email that is still waiting to be sent. A
+   * time that has passed queues it straight away. An email waiting to retry
+   * a failed attempt is refused, since its next attempt is the backoff's to
+   * decide.
+   */
+  reschedule(
+    transaction: EmailTransaction,
+    sendAt: Date,
+    change: EmailChange,
+  ): Promise<EmailTransaction> {
+    if (transaction.status === EmailStatus.Failed) {
+      throw new ConflictException(
+        `Email ${transaction.txnRefNo} is waiting to retry a failed attempt and can't be rescheduled`,
+      );
+    }
+
+    const scheduled = sendAt.getTime() > Date.now();
+    return this.dataSource.transaction(async (manager) => {
+      await this.changePending(manager, transaction, 'rescheduled', {
+        nextAttemptAt: scheduled ? sendAt : new Date(),
+      });
+      await this.changeTransaction(manager, transaction, 'rescheduled', {
+        status: scheduled ? EmailStatus.Scheduled : EmailStatus.Queued,
+        sendAt: scheduled ? sendAt : null,
+      });
+      const detail = scheduled
+        ? `Rescheduled for ${sendAt.toISOString()}`
+        : 'Rescheduled to send now';
+      await this.history.record(
+        manager,
+        transaction.id,
+        transaction.status,
+        change.reason ? `${detail}: ${change.reason}` : detail,
+        change.actor,
+      );
+      return transaction;
+    });
+  }
+
+  findJob(transaction: EmailTransaction): Promise<EmailJob | null> {
+    return this.jobs.findOneBy({ transactionId: transaction.id });
+  }
+
+  findAttempts(transaction: EmailTransaction): Promise<EmailDeliveryAttempt[]> {
+    return this.attempts.find({
+      where: { transactionId: transaction.id },
+      order: { attemptNumber: 'ASC', startedAt: 'ASC' },
+    });
+  }
+
+  findDeadLetters(limit: number): Promise<EmailTransaction[]> {
+    return this.transactions.find({
+      where: { status: EmailStatus.DeadLettered },
+      order: { failedAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Updates the job only while it is pending. A worker claiming it at the
+   * same time holds its row lock, so this waits and then finds it taken.
+   */
+  private async changePending(
+    manager: EntityManager,
+    transaction: EmailTransaction,
+    action: string,
+    changes: Pick<Partial<EmailJob>, 'state' | 'nextAttemptAt'>,
+  ): Promise<void> {
+    const { affected } = await manager.update(
+      EmailJob,
+      { transactionId: transaction.id, state: EmailJobState.Pending },
+      changes,
+    );
+    if (affected) {
+      return;
+    }
+
+    const job = await manager.findOneBy(EmailJob, {
+      transactionId: transaction.id,
+    });
+    const handedOver =
+      job?.state === EmailJobState.Processing ||
+      job?.state === EmailJobState.Completed;
+    throw new ConflictException(
+      handedOver
+        ? `Email ${transaction.txnRefNo} has already been handed to the SMTP relay and can't be ${action}`
+        : `Email ${transaction.txnRefNo} is ${transaction.status} and can't be ${action}`,
+    );
+  }
+
+  /**
+   * Writes only the changed columns, and only while the email still has the
+   * status it was read with, so a worker's concurrent update isn't
+   * overwritten with stale values.
+   */
+  private async changeTransaction(
+    manager: EntityManager,
+    transaction: EmailTransaction,
+    action: string,
+    changes: Pick<Partial<EmailTransaction>, 'status' | 'sendAt'>,
+  ): Promise<void> {
+    const { affected } = await manager.update(
+      EmailTransaction,
+      { id: transaction.id, status: transaction.status },
+      changes,
+    );
+    if (!affected) {
+      throw new ConflictException(
+        `Email ${transaction.txnRefNo} changed while it was being ${action}; try again`,
+      );
+    }
+    Object.assign(transaction, changes);
+  }
+
+  /**
+   * Unlocks a claimed job with its outcome, provided this worker's claim of
+   * it still stands. Once the lock times out another worker may claim the
+   * job again, and only the latest claim gets to record an outcome; the
+   * attempt count tells one claim from the next.
+   */
+  private async release(
+    manager: EntityManager,
+    job: EmailJob,
+    context: AttemptContext,
+    changes: QueryDeepPartialEntity<EmailJob>,
+  ): Promise<void> {
+    const { affected } = await manager.update(
+      EmailJob,
+      {
+        id: job.id,
+        state: EmailJobState.Processing,
+        lockedBy: context.worker,
+        attempts: job.attempts,
+      },
+      { ...changes, lockedAt: null, lockedBy: null },
+    );
+    if (!affected) {
+      throw new JobLockLostError(job, context.worker);
+    }
+  }
+
+  private async recordAttempt(
+    manager: EntityManager,
+    job: EmailJob,
+    context: AttemptContext,
+    result: Pick<EmailDeliveryAttempt, 'outcome' | 'responseCode' | 'response'>,
+  ): Promise<void> {
+    await manager.insert(EmailDeliveryAttempt, {
+      transactionId: job.transactionId,
+      attemptNumber: job.attempts,
+      worker: context.worker,
+      startedAt: context.startedAt,
+      finishedAt: new Date(),
+      ...result,
+    });
+  }
+}
@@ -0,0 +1,32 @@
+export enum EmailStatus {
+  Received = 'received',
+  /** Waiting for its `sendAt` time before it joins the queue. */
+  Scheduled = 'scheduled',
+  Queued = 'queued',
+  Sending = 'sending',
+  Sent = 'sent',
+  /** The last attempt failed and another one is scheduled. */
+  Failed = 'failed',
+  /** Delivery was abandoned after a permanent error or too many attempts. */
+  DeadLettered = 'dead-lettered',
+  Cancelled = 'cancelled',
+  /** Not sent because every recipient is on the suppression list. */
+  Suppressed = 'suppressed',
+  /** Not sent because no recipient is allowed in this environment. */
+  Blocked = 'blocked',
+  /** Sent, but a recipient's server later reported it undeliverable for good. */
+  Bounced = 'bounced',
+}
+
+/**
+ * Statuses after which nothing more will happen to an email, other than a
+ * sent email being reported as bounced.
+ */
+export const FINAL_EMAIL_STATUSES: readonly EmailStatus[] = [
+  EmailStatus.Sent,
+  EmailStatus.Bounced,
+  EmailStatus.DeadLettered,
+  EmailStatus.Cancelled,
+  EmailStatus.Suppressed,
+  EmailStatus.Blocked,
+];
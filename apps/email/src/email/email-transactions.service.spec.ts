@@ -0,0 +1,87 @@
+import { DataSource, Repository } from 'typeorm';
+import { EmailConfig } from '../config/email.config';
+import { RateLimitsService } from '../rate-limits/rate-limits.service';
+import { TemplateCategory } from '../templates/entities/email-template.entity';
+import type { TemplatedEmail } from '../templates/templates.service';
+import { SendEmailDto } from './dto/send-email.dto';
+import { EmailHistoryService } from './email-history.service';
+import { EmailQueueService } from './email-queue.service';
+import { EmailTransactionsService } from './email-transactions.service';
+import { EmailTransaction } from './entities/email-transaction.entity';
+import { hashRequest } from './utils/request-hash';
+
+const dto: SendEmailDto = {
+  txnRefNo: 'Email-1',
+  source: 'Testing',
+  payload: { from: 'noreply@example.com', subject: 'Hi', to: 'a@example.com' },
+  additionalInfo: { template_id: 1, isText: true },
+};
+const templated = {
+  message: dto,
+  template: null,
+  category: TemplateCategory.Transactional,
+} as TemplatedEmail;
+
+describe('EmailTransactionsService', () => {
+  const manager = {
+    query: jest.fn(),
+    findOneOrFail: jest.fn(),
+    create: jest.fn((_entity: unknown, values: unknown) => values),
+    save: jest.fn((entity: unknown) => Promise.resolve(entity)),
+  };
+  const dataSource = {
+    transaction: jest.fn((work: (m: typeof manager) => unknown) =>
+      work(manager),
+    ),
+  };
+  const rateLimits = {
+    consumeRequest: jest.fn(),
+    consumeRecipients: jest.fn(),
+  };
+  const queue = { enqueue: jest.fn() };
+  const history = { record: jest.fn() };
+  let service: EmailTransactionsService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new EmailTransactionsService(
+      {} as Repository<EmailTransaction>,
+      dataSource as unknown as DataSource,
+      { idempotencyWindowSeconds: 86_400 } as EmailConfig,
+      queue as unknown as EmailQueueService,
+      history as unknown as EmailHistoryService,
+      rateLimits as unknown as RateLimitsService,
+    );
+  });
+
+  it('counts new emails against the request rate and recipient quotas', async () => {
+    manager.query.mockResolvedValue([{ txn_ref_no: 'Email-1' }]);
+
+    await expect(service.record(dto, templated)).resolves.toMatchObject({
+      replayed: false,
+    });
+    expect(rateLimits.consumeRequest).toHaveBeenCalledWith('Testing', manager);
+    expect(rateLimits.consumeRecipients).toHaveBeenCalledWith(
+      manager,
+      'Testing',
+      1,
+    );
+  });
+
+  it('replays duplicates without using up quota', async () => {
+    const original = { txnRefNo: 'Email-1' } as EmailTransaction;
+    manager.query.mockResolvedValue([]);
+    manager.findOneOrFail.mockResolvedValue({
+      requestHash: hashRequest(dto),
+      transaction: original,
+    });
+
+    await expect(service.record(dto, templated)).resolves.toEqual({
+      transaction: original,
+      replayed: true,
+    });
+    expect(rateLimits.consumeRequest).not.toHaveBeenCalled();
+    expect(rateLimits.consumeRecipients).not.toHaveBeenCalled();
+    expect(queue.enqueue).not.toHaveBeenCalled();
+  });
+});
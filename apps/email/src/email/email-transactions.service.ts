@@ -0,0 +1,247 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomUUID } from 'node:crypto';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { emailConfig, type EmailConfig } from '../config/email.config';
+import { RateLimitsService } from '../rate-limits/rate-limits.service';
+import type { TemplatedEmail } from '../templates/templates.service';
+import { SendEmailDto } from './dto/send-email.dto';
+import { EmailHistoryService } from './email-history.service';
+import { EmailQueueService } from './email-queue.service';
+import { EmailStatus } from './email-status.enum';
+import { EmailBatch } from './entities/email-batch.entity';
+import { EmailIdempotencyKey } from './entities/email-idempotency-key.entity';
+import { EmailTransaction } from './entities/email-transaction.entity';
+import { generateMessageId } from './utils/message-id';
+import { allRecipients, parseRecipients } from './utils/recipients';
+import { hashRequest } from './utils/request-hash';
+import { withoutFiles } from './utils/shared-files';
+
+export interface BatchItem {
+  /** The email as it would have been sent on its own. */
+  dto: SendEmailDto;
+  templated: TemplatedEmail;
+}
+
+export interface RecordedTransaction {
+  transaction: EmailTransaction;
+  /** True when the txnRefNo was already claimed by an identical request. */
+  replayed: boolean;
+}
+
+@Injectable()
+export class EmailTransactionsService {
+  constructor(
+    @InjectRepository(EmailTransaction)
+    private readonly transactions: Repository<EmailTransaction>,
+    private readonly dataSource: DataSource,
+    @Inject(emailConfig.KEY) private readonly config: EmailConfig,
+    private readonly queue: EmailQueueService,
+    private readonly history: EmailHistoryService,
+    private readonly rateLimits: RateLimitsService,
+  ) {}
+
+  /**
+   * Records a new transaction and queues it for delivery, using its txnRefNo
+   * as an idempotency key.
+   * Within the dedupe window a repeat of the same body returns the original
+   * transaction, and a repeat with a different body is rejected. Duplicates
+   * are compared on the request as sent, so editing a template doesn't turn
+   * a retry into a conflict; the queued message keeps the template content
+   * as it was when first accepted. Only newly accepted emails count towards
+   * the source's request rate and recipient quotas, so a client retrying a
+   * send it already made can always read back its outcome.
+   */
+  record(
+    dto: SendEmailDto,
+    templated: TemplatedEmail,
+  ): Promise<RecordedTransaction> {
+    const requestHash = hashRequest(dto);
+
+    return this.dataSource.transaction(async (manager) => {
+      const id = randomUUID();
+      const claimed = await this.claimKey(manager, dto, {
+        requestHash,
+        transactionId: id,
+      });
+
+      if (!claimed) {
+        return {
+          transaction: await this.findOriginal(manager, dto, requestHash),
+          replayed: true,
+        };
+      }
+
+      await this.rateLimits.consumeRequest(dto.source, manager);
+      await this.rateLimits.consumeRecipients(
+        manager,
+        dto.source,
+        countRecipients(templated.message),
+      );
+      const transaction = await this.insert(manager, id, dto, templated);
+      return { transaction, replayed: false };
+    });
+  }
+
+  /**
+   * Records the emails of a new batch within the caller's database
+   * transaction, so either all of them are queued or none. Every email's
+   * txnRefNo must be unused; the batch as a whole is the unit that retries
+   * are matched on. Queued jobs leave out the shared files, which the
+   * worker reads from the batch.
+   */
+  async recordBatch(
+    manager: EntityManager,
+    batch: EmailBatch,
+    items: BatchItem[],
+  ): Promise<EmailTransaction[]> {
+    await this.rateLimits.consumeRecipients(
+      manager,
+      batch.source,
+      items.reduce((total, { templated }) => {
+        return total + countRecipients(templated.message);
+      }, 0),
+    );
+
+    const transactions: EmailTransaction[] = [];
+    for (const { dto, templated } of items) {
+      const id = randomUUID();
+      const claimed = await this.claimKey(manager, dto, {
+        requestHash: hashRequest(withoutFiles(dto)),
+        transactionId: id,
+      });
+      if (!claimed) {
+        throw new ConflictException(
+          `txnRefNo ${dto.txnRefNo} is already in use, so batch ${batch.txnRefNo} can't be sent`,
+        );
+      }
+      transactions.push(await this.insert(manager, id, dto, templated, batch));
+    }
+    return transactions;
+  }
+
+  /**
+   * The most recent transaction of `source` for a txnRefNo, which may have
+   * been reused. Other sources' emails are hidden as if they didn't exist.
+   */
+  async findLatest(
+    txnRefNo: string,
+    source: string,
+  ): Promise<EmailTransaction> {
+    const transaction = await this.transactions.findOne({
+      where: { txnRefNo, source },
+      order: { createdAt: 'DESC' },
+    });
+    if (!transaction) {
+      throw new NotFoundException(`No email found for txnRefNo ${txnRefNo}`);
+    }
+    return transaction;
+  }
+
+  private async insert(
+    manager: EntityManager,
+    id: string,
+    dto: SendEmailDto,
+    { message, template, category }: TemplatedEmail,
+    batch?: EmailBatch,
+  ): Promise<EmailTransaction> {
+    const sendAt = scheduledTime(dto);
+    const transaction = await manager.save(
+      manager.create(EmailTransaction, {
+        id,
+        txnRefNo: dto.txnRefNo,
+        source: dto.source,
+        fromAddress: message.payload.from,
+        toRecipients: parseRecipients(message.payload.to),
+        ccRecipients: parseRecipients(message.payload.cc),
+        bccRecipients: parseRecipients(message.payload.bcc),
+        subject: message.payload.subject,
+        templateId: dto.additionalInfo.template_id ?? null,
+        templateVersion: template?.version ?? null,
+        category,
+        batchId: batch?.id ?? null,
+        messageId: generateMessageId(message.payload.from),
+        sendAt,
+        status: sendAt ? EmailStatus.Scheduled : EmailStatus.Queued,
+      }),
+    );
+    await this.history.record(manager, id, EmailStatus.Received);
+    await this.queue.enqueue(
+      manager,
+      transaction,
+      batch ? withoutFiles(message) : message,
+    );
+    return transaction;
+  }
+
+  /**
+   * Inserts the idempotency key, or takes over one whose window has expired.
+   * Keys are per source, so sources can't block or probe each other's.
+   * A live key makes the upsert a no-op and returns no row; concurrent
+   * claims for the same key wait on each other's row lock.
+   */
+  private async claimKey(
+    manager: EntityManager,
+    { source, txnRefNo }: Pick<SendEmailDto, 'source' | 'txnRefNo'>,
+    key: Pick<EmailIdempotencyKey, 'requestHash' | 'transactionId'>,
+  ): Promise<boolean> {
+    const rows: unknown[] = await manager.query(
+      `INSERT INTO "email_idempotency_keys"
+         ("source", "txn_ref_no", "request_hash", "transaction_id", "expires_at")
+       VALUES ($1, $2, $3, $4, now() + make_interval(secs => $5))
+       ON CONFLICT ("source", "txn_ref_no") DO UPDATE SET
+         "request_hash" = EXCLUDED."request_hash",
+         "transaction_id" = EXCLUDED."transaction_id",
+         "created_at" = now(),
+         "expires_at" = EXCLUDED."expires_at"
+       WHERE "email_idempotency_keys"."expires_at" <= now()
+       RETURNING "txn_ref_no"`,
+      [
+        source,
+        txnRefNo,
+        key.requestHash,
+        key.transactionId,
+        this.config.idempotencyWindowSeconds,
+      ],
+    );
+    return rows.length > 0;
+  }
+
+  private async findOriginal(
+    manager: EntityManager,
+    dto: SendEmailDto,
+    requestHash: string,
+  ): Promise<EmailTransaction> {
+    const key = await manager.findOneOrFail(EmailIdempotencyKey, {
+      where: { source: dto.source, txnRefNo: dto.txnRefNo },
+      relations: { transaction: true },
+    });
+
+    if (key.requestHash !== requestHash) {
+      throw new ConflictException(
+        `txnRefNo ${dto.txnRefNo} was already used for a different request`,
+      );
+    }
+    return key.transaction;
+  }
+}
+
+/** Distinct addresses across to, cc and bcc, as counted by the quotas. */
+function countRecipients({ payload }: SendEmailDto): number {
+  return new Set(allRecipients(payload).map((address) => address.toLowerCase()))
+    .size;
+}
+
+/** The requested send time, or null when the email should go out now. */
+function scheduledTime({ additionalInfo }: SendEmailDto): Date | null {
+  if (!additionalInfo.sendAt) {
+    return null;
+  }
+  const sendAt = new Date(additionalInfo.sendAt);
+  return sendAt.getTime() > Date.now() ? sendAt : null;
+}
@@ -0,0 +1,132 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { attachmentsConfig } from '../config/attachments.config';
+import { httpConfig } from '../config/http.config';
+import { SendEmailDto } from './dto/send-email.dto';
+import { EmailMultipartParser } from './email-multipart.parser';
+import { EmailController } from './email.controller';
+import { EmailService } from './email.service';
+
+describe('EmailController', () => {
+  let controller: EmailController;
+  const emailService = {
+    send: jest.fn(),
+    cancel: jest.fn(),
+    getStatus: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [EmailController],
+      providers: [
+        EmailMultipartParser,
+        { provide: attachmentsConfig.KEY, useValue: attachmentsConfig() },
+        { provide: httpConfig.KEY, useValue: httpConfig() },
+        { provide: EmailService, useValue: emailService },
+      ],
+    }).compile();
+
+    controller = module.get<EmailController>(EmailController);
+  });
+
+  it('delegates sends to the email service', async () => {
+    const result = {
+      accepted: true,
+      txnRefNo: 'Email-1',
+      messageId: '<id@example.com>',
+      status: 'sent',
+      message: '250 OK',
+    };
+    emailService.send.mockResolvedValue(result);
+
+    await expect(
+      controller.send(
+        { txnRefNo: 'Email-1', source: 'Testing' } as SendEmailDto,
+        { kind: 'source', source: 'Testing', keyId: 'key-1' },
+      ),
+    ).resolves.toBe(result);
+  });
+
+  it('refuses to send as a source the API key is not bound to', () => {
+    expect(() =>
+      controller.send(
+        { txnRefNo: 'Email-1', source: 'QR-something' } as SendEmailDto,
+        { kind: 'source', source: 'Testing', keyId: 'key-1' },
+      ),
+    ).toThrow(ForbiddenException);
+    expect(emailService.send).not.toHaveBeenCalled();
+  });
+
+  it('checks source access on multipart sends once the payload is parsed', async () => {
+    const payload = JSON.stringify({
+      txnRefNo: 'Email-1',
+      source: 'QR-something',
+      payload: { from: 'noreply@example.com', subject: 'Hi', to: 'a@x.com' },
+      additionalInfo: { template_id: 1, isText: false },
+    });
+
+    await expect(
+      controller.sendMultipart(payload, undefined, {
+        kind: 'source',
+        source: 'Testing',
+        keyId: 'key-1',
+      }),
+    ).rejects.toThrow(ForbiddenException);
+    expect(emailService.send).not.toHaveBeenCalled();
+  });
+
+  it('records who cancelled an email, scoped to their source', async () => {
+    await controller.cancel(
+      'Email-1',
+      { reason: 'Customer withdrew', requestedBy: 'officer.aina' },
+      { kind: 'source', source: 'Testing', keyId: 'key-1' },
+    );
+
+    expect(emailService.cancel).toHaveBeenCalledWith(
+      'Email-1',
+      {
+        actor: 'officer.aina via Testing (key key-1)',
+        reason: 'Customer withdrew',
+      },
+      'Testing',
+    );
+  });
+
+  it('looks up admin requests in the source they name', async () => {
+    await controller.cancel(
+      'Email-1',
+      { reason: 'Sent twice' },
+      { kind: 'admin' },
+      'QR-something',
+    );
+    await controller.getStatus('Email-1', { kind: 'admin' }, 'Testing');
+
+    expect(emailService.cancel).toHaveBeenCalledWith(
+      'Email-1',
+      { actor: 'admin', reason: 'Sent twice' },
+      'QR-something',
+    );
+    expect(emailService.getStatus).toHaveBeenCalledWith('Email-1', 'Testing');
+  });
+
+  it('refuses admin lookups that do not name a source', () => {
+    expect(() => controller.cancel('Email-1', {}, { kind: 'admin' })).toThrow(
+      BadRequestException,
+    );
+    expect(() => controller.getStatus('Email-1', { kind: 'admin' })).toThrow(
+      BadRequestException,
+    );
+    expect(emailService.cancel).not.toHaveBeenCalled();
+  });
+
+  it('refuses lookups in a source the API key is not bound to', () => {
+    expect(() =>
+      controller.getStatus(
+        'Email-1',
+        { kind: 'source', source: 'Testing', keyId: 'key-1' },
+        'QR-something',
+      ),
+    ).toThrow(ForbiddenException);
+  });
+});
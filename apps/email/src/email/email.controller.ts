@@ -0,0 +1,173 @@
+import {
+  Body,
+  Controller,
+  DefaultValuePipe,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  UploadedFiles,
+  UseFilters,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileFieldsInterceptor } from '@nestjs/platform-express';
+import { Audited } from '../audit/audited.decorator';
+import { AdminOnly, CurrentPrincipal } from '../auth/auth.decorators';
+import {
+  assertSourceAccess,
+  describePrincipal,
+  lookupSource,
+  type Principal,
+} from '../auth/principal';
+import { LogContextInterceptor } from '../logging/log-context.interceptor';
+import { CancelEmailDto } from './dto/cancel-email.dto';
+import { EmailStatusResponseDto } from './dto/email-status-response.dto';
+import { RescheduleEmailDto } from './dto/reschedule-email.dto';
+import { SendEmailResponseDto } from './dto/send-email-response.dto';
+import { SendEmailDto } from './dto/send-email.dto';
+import {
+  EmailMultipartParser,
+  MULTIPART_FILE_FIELDS,
+  type MultipartEmailFiles,
+} from './email-multipart.parser';
+import type { EmailChange } from './email-queue.service';
+import { EmailService } from './email.service';
+import { EmailDeliveryAttempt } from './entities/email-delivery-attempt.entity';
+import { EmailTransaction } from './entities/email-transaction.entity';
+import { MultipartLimitFilter } from './multipart-limit.filter';
+
+@Controller('email')
+export class EmailController {
+  constructor(
+    private readonly emailService: EmailService,
+    private readonly multipartParser: EmailMultipartParser,
+  ) {}
+
+  @Post('send')
+  @Audited('email.send')
+  @HttpCode(HttpStatus.ACCEPTED)
+  send(
+    @Body() dto: SendEmailDto,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<SendEmailResponseDto> {
+    assertSourceAccess(principal, dto.source);
+    return this.emailService.send(dto);
+  }
+
+  /**
+   * Same as `send`, but as multipart/form-data: a `payload` part holding the
+   * JSON body and binary `attachment_files` / `html_images` parts, which
+   * saves encoding large files as base64 in the browser.
+   */
+  @Post('send/multipart')
+  @Audited('email.send')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(
+    FileFieldsInterceptor(MULTIPART_FILE_FIELDS.map((name) => ({ name }))),
+    LogContextInterceptor,
+  )
+  @UseFilters(MultipartLimitFilter)
+  async sendMultipart(
+    @Body('payload') payload: string | undefined,
+    @UploadedFiles() files: MultipartEmailFiles | undefined,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<SendEmailResponseDto> {
+    const dto = await this.multipartParser.parse(payload, files);
+    assertSourceAccess(principal, dto.source);
+    return this.emailService.send(dto);
+  }
+
+  @Get('dead-letters')
+  @AdminOnly()
+  findDeadLetters(
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+  ): Promise<EmailTransaction[]> {
+    return this.emailService.findDeadLetters(Math.min(limit, 500));
+  }
+
+  /** The admin token names the source with `?source=`; keys use their own. */
+  @Get(':txnRefNo')
+  getStatus(
+    @Param('txnRefNo') txnRefNo: string,
+    @CurrentPrincipal() principal: Principal,
+    @Query('source') source?: string,
+  ): Promise<EmailStatusResponseDto> {
+    return this.emailService.getStatus(
+      txnRefNo,
+      lookupSource(principal, source),
+    );
+  }
+
+  @Get(':txnRefNo/attempts')
+  findAttempts(
+    @Param('txnRefNo') txnRefNo: string,
+    @CurrentPrincipal() principal: Principal,
+    @Query('source') source?: string,
+  ): Promise<EmailDeliveryAttempt[]> {
+    return this.emailService.findAttempts(
+      txnRefNo,
+      lookupSource(principal, source),
+    );
+  }
+
+  /** Only while the email is still waiting to be sent; 409 afterwards. */
+  @Post(':txnRefNo/cancel')
+  @Audited('email.cancel')
+  @HttpCode(HttpStatus.OK)
+  cancel(
+    @Param('txnRefNo') txnRefNo: string,
+    @Body() dto: CancelEmailDto,
+    @CurrentPrincipal() principal: Principal,
+    @Query('source') source?: string,
+  ): Promise<SendEmailResponseDto> {
+    return this.emailService.cancel(
+      txnRefNo,
+      toChange(dto, principal),
+      lookupSource(principal, source),
+    );
+  }
+
+  @Post(':txnRefNo/reschedule')
+  @Audited('email.reschedule')
+  @HttpCode(HttpStatus.OK)
+  reschedule(
+    @Param('txnRefNo') txnRefNo: string,
+    @Body() dto: RescheduleEmailDto,
+    @CurrentPrincipal() principal: Principal,
+    @Query('source') source?: string,
+  ): Promise<SendEmailResponseDto> {
+    return this.emailService.reschedule(
+      txnRefNo,
+      new Date(dto.sendAt),
+      toChange(dto, principal),
+      lookupSource(principal, source),
+    );
+  }
+
+  @Post(':txnRefNo/requeue')
+  @Audited('email.requeue')
+  @AdminOnly()
+  @HttpCode(HttpStatus.ACCEPTED)
+  requeue(
+    @Param('txnRefNo') txnRefNo: string,
+    @CurrentPrincipal() principal: Principal,
+    @Query('source') source?: string,
+  ): Promise<SendEmailResponseDto> {
+    return this.emailService.requeue(txnRefNo, lookupSource(principal, source));
+  }
+}
+
+/** Records the key that made the change, and the person if they're named. */
+function toChange(
+  { reason, requestedBy }: CancelEmailDto,
+  principal: Principal,
+): EmailChange {
+  const caller = describePrincipal(principal);
+  return {
+    actor: requestedBy ? `${requestedBy} via ${caller}` : caller,
+    reason,
+  };
+}
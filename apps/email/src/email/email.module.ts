@@ -0,0 +1,106 @@
+import { Module, OnModuleInit } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AttachmentsModule } from '../attachments/attachments.module';
+import { EmailBounce } from '../bounces/entities/email-bounce.entity';
+import {
+  attachmentsConfig,
+  type AttachmentsConfig,
+} from '../config/attachments.config';
+import { bouncesConfig } from '../config/bounces.config';
+import { emailConfig } from '../config/email.config';
+import { environmentConfig } from '../config/environment.config';
+import { httpConfig, type HttpConfig } from '../config/http.config';
+import { queueConfig } from '../config/queue.config';
+import { MailTransportModule } from '../mail/mail-transport.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { MetricsService } from '../metrics/metrics.service';
+import { RateLimitsModule } from '../rate-limits/rate-limits.module';
+import { SuppressionsModule } from '../suppressions/suppressions.module';
+import { TemplatesModule } from '../templates/templates.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { EmailBatchesController } from './email-batches.controller';
+import { EmailBatchesService } from './email-batches.service';
+import { EmailContentValidator } from './email-content.validator';
+import { EmailDeliveryWorker } from './email-delivery.worker';
+import { EmailHistoryService } from './email-history.service';
+import { EmailMessageBuilder } from './email-message.builder';
+import {
+  EmailMultipartParser,
+  multipartBodyLimit,
+  multipartLimits,
+} from './email-multipart.parser';
+import { EmailQueueService } from './email-queue.service';
+import { EmailTransactionsService } from './email-transactions.service';
+import { EmailController } from './email.controller';
+import { EmailService } from './email.service';
+import { EmailBatch } from './entities/email-batch.entity';
+import { EmailDeliveryAttempt } from './entities/email-delivery-attempt.entity';
+import { EmailIdempotencyKey } from './entities/email-idempotency-key.entity';
+import { EmailJob } from './entities/email-job.entity';
+import { EmailStatusEvent } from './entities/email-status-event.entity';
+import { EmailTransaction } from './entities/email-transaction.entity';
+import { RecipientPolicyService } from './recipient-policy.service';
+
+@Module({
+  imports: [
+    ConfigModule.forFeature(emailConfig),
+    ConfigModule.forFeature(queueConfig),
+    ConfigModule.forFeature(attachmentsConfig),
+    ConfigModule.forFeature(bouncesConfig),
+    ConfigModule.forFeature(environmentConfig),
+    ConfigModule.forFeature(httpConfig),
+    TypeOrmModule.forFeature([
+      EmailTransaction,
+      EmailIdempotencyKey,
+      EmailJob,
+      EmailDeliveryAttempt,
+      EmailStatusEvent,
+      EmailBatch,
+      EmailBounce,
+    ]),
+    MailTransportModule,
+    AttachmentsModule,
+    TemplatesModule,
+    RateLimitsModule,
+    SuppressionsModule,
+    WebhooksModule,
+    MetricsModule,
+    MulterModule.registerAsync({
+      imports: [
+        ConfigModule.forFeature(attachmentsConfig),
+        ConfigModule.forFeature(httpConfig),
+      ],
+      inject: [attachmentsConfig.KEY, httpConfig.KEY],
+      useFactory: (attachments: AttachmentsConfig, http: HttpConfig) => ({
+        limits: multipartLimits(attachments, multipartBodyLimit(http)),
+      }),
+    }),
+  ],
+  // Batches first, so /email/batches/:batchId isn't taken for a txnRefNo.
+  controllers: [EmailBatchesController, EmailController],
+  providers: [
+    EmailService,
+    EmailBatchesService,
+    EmailMessageBuilder,
+    EmailMultipartParser,
+    EmailContentValidator,
+    EmailTransactionsService,
+    EmailQueueService,
+    EmailHistoryService,
+    EmailDeliveryWorker,
+    RecipientPolicyService,
+  ],
+  exports: [EmailHistoryService, EmailQueueService, EmailDeliveryWorker],
+})
+export class EmailModule implements OnModuleInit {
+  constructor(
+    private readonly queue: EmailQueueService,
+    private readonly metrics: MetricsService,
+  ) {}
+
+  onModuleInit() {
+    this.metrics.trackQueue(() => this.queue.backlog());
+  }
+}
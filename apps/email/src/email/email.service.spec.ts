@@ -0,0 +1,218 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EmailBounce } from '../bounces/entities/email-bounce.entity';
+import { SuppressionsService } from '../suppressions/suppressions.service';
+import { TemplatesService } from '../templates/templates.service';
+import { SendEmailDto } from './dto/send-email.dto';
+import { EmailContentValidator } from './email-content.validator';
+import { EmailHistoryService } from './email-history.service';
+import { EmailQueueService } from './email-queue.service';
+import { EmailStatus } from './email-status.enum';
+import { EmailTransactionsService } from './email-transactions.service';
+import { EmailService } from './email.service';
+import { EmailJobState } from './entities/email-job.entity';
+import { EmailTransaction } from './entities/email-transaction.entity';
+import { RecipientPolicyService } from './recipient-policy.service';
+
+const dto: SendEmailDto = {
+  txnRefNo: 'Email-1',
+  source: 'Testing',
+  payload: { from: 'noreply@example.com', subject: 'Hi', to: 'a@example.com' },
+  additionalInfo: { template_id: 1, isText: true },
+};
+
+function createTransaction(
+  overrides: Partial<EmailTransaction> = {},
+): EmailTransaction {
+  return {
+    txnRefNo: 'Email-1',
+    messageId: '<id@example.com>',
+    status: EmailStatus.Queued,
+    providerResponse: null,
+    errorMessage: null,
+    ...overrides,
+  } as EmailTransaction;
+}
+
+describe('EmailService', () => {
+  let service: EmailService;
+  const transactions = { record: jest.fn(), findLatest: jest.fn() };
+  const queue = {
+    requeue: jest.fn(),
+    findJob: jest.fn(),
+    findAttempts: jest.fn(),
+  };
+  const history = { findByTransaction: jest.fn() };
+  const validator = { validate: jest.fn() };
+  const templates = { resolve: jest.fn() };
+  const suppressions = { warningsFor: jest.fn().mockResolvedValue([]) };
+  const recipientPolicy = { warningsFor: jest.fn().mockReturnValue([]) };
+  const bounces = { find: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    validator.validate.mockReturnValue([]);
+    templates.resolve.mockResolvedValue({ message: dto, template: null });
+    bounces.find.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmailService,
+        { provide: EmailTransactionsService, useValue: transactions },
+        { provide: EmailQueueService, useValue: queue },
+        { provide: EmailHistoryService, useValue: history },
+        { provide: EmailContentValidator, useValue: validator },
+        { provide: TemplatesService, useValue: templates },
+        { provide: SuppressionsService, useValue: suppressions },
+        { provide: RecipientPolicyService, useValue: recipientPolicy },
+        { provide: getRepositoryToken(EmailBounce), useValue: bounces },
+      ],
+    }).compile();
+
+    service = module.get(EmailService);
+  });
+
+  it('accepts new emails for queued delivery', async () => {
+    transactions.record.mockResolvedValue({
+      transaction: createTransaction(),
+      replayed: false,
+    });
+
+    await expect(service.send(dto)).resolves.toEqual({
+      accepted: true,
+      txnRefNo: 'Email-1',
+      messageId: '<id@example.com>',
+      status: EmailStatus.Queued,
+      message: 'Email queued for delivery',
+      duplicate: false,
+      warnings: [],
+    });
+    expect(transactions.record).toHaveBeenCalledWith(dto, {
+      message: dto,
+      template: null,
+    });
+  });
+
+  it('validates the message as filled in from its template', async () => {
+    const message = {
+      ...dto,
+      payload: { ...dto.payload, html: '<p>From the template</p>' },
+    };
+    templates.resolve.mockResolvedValue({ message, template: { version: 2 } });
+    transactions.record.mockResolvedValue({
+      transaction: createTransaction(),
+      replayed: false,
+    });
+
+    await service.send(dto);
+
+    expect(validator.validate).toHaveBeenCalledWith(message);
+    expect(transactions.record).toHaveBeenCalledWith(dto, {
+      message,
+      template: { version: 2 },
+    });
+  });
+
+  it('warns about recipients on the suppression list', async () => {
+    const warning =
+      'a@example.com is on the suppression list (unsubscribed) and will not be sent to';
+    suppressions.warningsFor.mockResolvedValueOnce([warning]);
+    transactions.record.mockResolvedValue({
+      transaction: createTransaction(),
+      replayed: false,
+    });
+
+    await expect(service.send(dto)).resolves.toMatchObject({
+      accepted: true,
+      warnings: [warning],
+    });
+    expect(suppressions.warningsFor).toHaveBeenCalledWith('Testing', [
+      'a@example.com',
+    ]);
+  });
+
+  it('replays the current outcome of duplicates', async () => {
+    transactions.record.mockResolvedValue({
+      transaction: createTransaction({
+        status: EmailStatus.Sent,
+        providerResponse: '250 OK',
+      }),
+      replayed: true,
+    });
+
+    await expect(service.send(dto)).resolves.toMatchObject({
+      accepted: true,
+      status: EmailStatus.Sent,
+      message: '250 OK',
+      duplicate: true,
+    });
+  });
+
+  it('tells callers when a scheduled email will go out', async () => {
+    const sendAt = new Date('2030-01-01T01:00:00Z');
+    transactions.record.mockResolvedValue({
+      transaction: createTransaction({ status: EmailStatus.Scheduled, sendAt }),
+      replayed: false,
+    });
+
+    await expect(service.send(dto)).resolves.toMatchObject({
+      accepted: true,
+      status: EmailStatus.Scheduled,
+      message: 'Email scheduled for 2030-01-01T01:00:00.000Z',
+    });
+  });
+
+  it('requeues the dead letter of the named source when sources share a txnRefNo', async () => {
+    const deadLetters = ['Testing', 'QR-something'].map((source) =>
+      createTransaction({ source, status: EmailStatus.DeadLettered }),
+    );
+    transactions.findLatest.mockImplementation(
+      (txnRefNo: string, source: string) =>
+        deadLetters.find(
+          (transaction) =>
+            transaction.txnRefNo === txnRefNo && transaction.source === source,
+        ),
+    );
+    queue.requeue.mockResolvedValue(
+      createTransaction({ status: EmailStatus.Queued }),
+    );
+
+    await expect(
+      service.requeue('Email-1', 'QR-something'),
+    ).resolves.toMatchObject({ status: EmailStatus.Queued });
+    expect(queue.requeue).toHaveBeenCalledWith(deadLetters[1]);
+  });
+
+  it('reports the lifecycle and attempts of an email', async () => {
+    const nextAttemptAt = new Date('2026-01-01T00:05:00Z');
+    transactions.findLatest.mockResolvedValue(
+      createTransaction({
+        status: EmailStatus.Failed,
+        errorCode: '421',
+        errorMessage: 'try later',
+      }),
+    );
+    queue.findJob.mockResolvedValue({
+      state: EmailJobState.Pending,
+      nextAttemptAt,
+    });
+    history.findByTransaction.mockResolvedValue([
+      { status: EmailStatus.Queued, detail: null, occurredAt: new Date(0) },
+    ]);
+    queue.findAttempts.mockResolvedValue([
+      { attemptNumber: 1, outcome: 'failed', responseCode: '421' },
+    ]);
+
+    await expect(
+      service.getStatus('Email-1', 'Testing'),
+    ).resolves.toMatchObject({
+      status: EmailStatus.Failed,
+      final: false,
+      error: { code: '421', message: 'try later' },
+      nextAttemptAt,
+      history: [{ status: EmailStatus.Queued }],
+      attempts: [{ attemptNumber: 1, responseCode: '421' }],
+      bounces: [],
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { EmailBounce } from '../bounces/entities/email-bounce.entity';
+import { SuppressionsService } from '../suppressions/suppressions.service';
+import { TemplatesService } from '../templates/templates.service';
+import { EmailStatusResponseDto } from './dto/email-status-response.dto';
+import { SendEmailResponseDto } from './dto/send-email-response.dto';
+import { SendEmailDto } from './dto/send-email.dto';
+import { EmailChange, EmailQueueService } from './email-queue.service';
+import { EmailContentValidator } from './email-content.validator';
+import { EmailHistoryService } from './email-history.service';
+import { EmailStatus, FINAL_EMAIL_STATUSES } from './email-status.enum';
+import { EmailTransactionsService } from './email-transactions.service';
+import { EmailDeliveryAttempt } from './entities/email-delivery-attempt.entity';
+import { EmailJobState } from './entities/email-job.entity';
+import { EmailTransaction } from './entities/email-transaction.entity';
+import { RecipientPolicyService } from './recipient-policy.service';
+import { allRecipients } from './utils/recipients';
+
+@Injectable()
+export class EmailService {
+  private readonly logger = new Logger(EmailService.name);
+
+  constructor(
+    private readonly transactions: EmailTransactionsService,
+    private readonly queue: EmailQueueService,
+    private readonly history: EmailHistoryService,
+    private readonly validator: EmailContentValidator,
+    private readonly templates: TemplatesService,
+    private readonly suppressions: SuppressionsService,
+    private readonly recipientPolicy: RecipientPolicyService,
+    @InjectRepository(EmailBounce)
+    private readonly bounces: Repository<EmailBounce>,
+  ) {}
+
+  async send(dto: SendEmailDto): Promise<SendEmailResponseDto> {
+    const templated = await this.templates.resolve(dto);
+    const recipients = allRecipients(templated.message.payload);
+    const warnings = [
+      ...this.validator.validate(templated.message),
+      ...(await this.suppressions.warningsFor(dto.source, recipients)),
+      ...this.recipientPolicy.warningsFor(recipients),
+    ];
+    const { transaction, replayed } = await this.transactions.record(
+      dto,
+      templated,
+    );
+
+    if (replayed) {
+      this.logger.log(`Replaying outcome of duplicate ${dto.txnRefNo}`);
+    }
+    return this.toResponse(transaction, replayed, warnings);
+  }
+
+  async getStatus(
+    txnRefNo: string,
+    source: string,
+  ): Promise<EmailStatusResponseDto> {
+    const transaction = await this.transactions.findLatest(txnRefNo, source);
+    const [job, events, attempts, bounces] = await Promise.all([
+      this.queue.findJob(transaction),
+      this.history.findByTransaction(transaction.id),
+      this.queue.findAttempts(transaction),
+      this.bounces.find({
+        where: { transactionId: transaction.id },
+        order: { receivedAt: 'ASC' },
+      }),
+    ]);
+
+    return {
+      txnRefNo: transaction.txnRefNo,
+      source: transaction.source,
+      status: transaction.status,
+      final: FINAL_EMAIL_STATUSES.includes(transaction.status),
+      messageId: transaction.messageId,
+      subject: transaction.subject,
+      recipients: {
+        to: transaction.toRecipients,
+        cc: transaction.ccRecipients,
+        bcc: transaction.bccRecipients,
+      },
+      error: transaction.errorMessage
+        ? { code: transaction.errorCode, message: transaction.errorMessage }
+        : null,
+      sendAt: transaction.sendAt,
+      nextAttemptAt:
+        job?.state === EmailJobState.Pending ? job.nextAttemptAt : null,
+      createdAt: transaction.createdAt,
+      updatedAt: transaction.updatedAt,
+      sentAt: transaction.sentAt,
+      failedAt: transaction.failedAt,
+      history: events.map(({ status, detail, actor, occurredAt }) => ({
+        status,
+        detail,
+        actor,
+        occurredAt,
+      })),
+      attempts: attempts.map(
+        ({
+          attemptNumber,
+          outcome,
+          responseCode,
+          response,
+          startedAt,
+          finishedAt,
+        }) => ({
+          attemptNumber,
+          outcome,
+          responseCode,
+          response,
+          startedAt,
+          finishedAt,
+        }),
+      ),
+      bounces: bounces.map(
+        ({ recipient, type, status, diagnosticCode, receivedAt }) => ({
+          recipient,
+          type,
+          status,
+          diagnosticCode,
+          receivedAt,
+        }),
+      ),
+    };
+  }
+
+  async findAttempts(
+    txnRefNo: string,
+    source: string,
+  ): Promise<EmailDeliveryAttempt[]> {
+    const transaction = await this.transactions.findLatest(txnRefNo, source);
+    return this.queue.findAttempts(transaction);
+  }
+
+  findDeadLetters(limit: number): Promise<EmailTransaction[]> {
+    return this.queue.findDeadLetters(limit);
+  }
+
+  async requeue(
+    txnRefNo: string,
+    source: string,
+  ): Promise<SendEmailResponseDto> {
+    const transaction = await this.transactions.findLatest(txnRefNo, source);
+    const requeued = await this.queue.requeue(transaction);
+    this.logger.log(`Requeued dead-lettered ${txnRefNo}`);
+    return this.toResponse(requeued, false);
+  }
+
+  async cancel(
+    txnRefNo: string,
+    change: EmailChange,
+    source: string,
+  ): Promise<SendEmailResponseDto> {
+    const transaction = await this.transactions.findLatest(txnRefNo, source);
+    const cancelled = await this.queue.cancel(transaction, change);
+    this.logger.log(`Cancelled ${txnRefNo} for ${change.actor}`);
+    return this.toResponse(cancelled, false);
+  }
+
+  async reschedule(
+    txnRefNo: string,
+    sendAt: Date,
+    change: EmailChange,
+    source: string,
+  ): Promise<SendEmailResponseDto> {
+    const transaction = await this.transactions.findLatest(txnRefNo, source);
+    const rescheduled = await this.queue.reschedule(
+      transaction,
+      sendAt,
+      change,
+    );
+    this.logger.log(
+      `Rescheduled ${txnRefNo} for ${sendAt.toISOString()} for ${change.actor}`,
+    );
+    return this.toResponse(rescheduled, false);
+  }
+
+  private toResponse(
+    transaction: EmailTransaction,
+    duplicate: boolean,
+    warnings: string[] = [],
+  ): SendEmailResponseDto {
+    return {
+      accepted: ![
+        EmailStatus.DeadLettered,
+        EmailStatus.Cancelled,
+        EmailStatus.Suppressed,
+        EmailStatus.Blocked,
+      ].includes(transaction.status),
+      txnRefNo: transaction.txnRefNo,
+      messageId: transaction.messageId,
+      status: transaction.status,
+      message: this.describe(transaction),
+      duplicate,
+      warnings,
+    };
+  }
+
+  private describe(transaction: EmailTransaction): string {
+    switch (transaction.status) {
+      case EmailStatus.Sent:
+        return transaction.providerResponse ?? 'Email sent';
+      case EmailStatus.Failed:
+      case EmailStatus.DeadLettered:
+        return transaction.errorMessage ?? 'Delivery failed';
+      case EmailStatus.Scheduled:
+        return `Email scheduled for ${transaction.sendAt?.toISOString()}`;
+      case EmailStatus.Cancelled:
+        return 'Email cancelled';
+      case EmailStatus.Suppressed:
+        return 'Not sent: every recipient is on the suppression list';
+      case EmailStatus.Blocked:
+        return 'Not sent: no recipient is allowed in this environment';
+      case EmailStatus.Bounced:
+        return 'Email sent, but bounced for some recipients';
+      default:
+        return 'Email queued for delivery';
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import type { SharedFiles } from '../utils/shared-files';
+
+/**
+ * A bulk send. Each recipient gets its own email transaction; the files
+ * they all share are kept here once instead of in every queued job.
+ */
+@Entity({ name: 'email_batches' })
+@Index('UQ_email_batches_source_txn_ref_no', ['source', 'txnRefNo'], {
+  unique: true,
+})
+export class EmailBatch {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'txn_ref_no', type: 'varchar', length: 128 })
+  txnRefNo: string;
+
+  @Index('IDX_email_batches_source')
+  @Column({ type: 'varchar', length: 128 })
+  source: string;
+
+  /** SHA-256 of the request, to tell a retry from a reused txnRefNo. */
+  @Column({ name: 'request_hash', type: 'varchar', length: 64 })
+  requestHash: string;
+
+  @Column({ type: 'integer' })
+  total: number;
+
+  @Column({ name: 'shared_files', type: 'jsonb', select: false })
+  sharedFiles: SharedFiles;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -0,0 +1,57 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { EmailTransaction } from './email-transaction.entity';
+
+export enum DeliveryOutcome {
+  Sent = 'sent',
+  Failed = 'failed',
+}
+
+@Entity({ name: 'email_delivery_attempts' })
+export class EmailDeliveryAttempt {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index('IDX_email_delivery_attempts_transaction_id')
+  @Column({ name: 'transaction_id', type: 'uuid' })
+  transactionId: string;
+
+  @ManyToOne(() => EmailTransaction, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'transaction_id',
+    foreignKeyConstraintName: 'FK_email_delivery_attempts_transaction',
+  })
+  transaction: EmailTransaction;
+
+  @Column({ name: 'attempt_number', type: 'integer' })
+  attemptNumber: number;
+
+  @Column({ type: 'varchar', length: 128 })
+  worker: string;
+
+  @Column({ type: 'varchar', length: 16 })
+  outcome: DeliveryOutcome;
+
+  @Column({
+    name: 'response_code',
+    type: 'varchar',
+    length: 64,
+    nullable: true,
+  })
+  responseCode: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  response: string | null;
+
+  @Column({ name: 'started_at', type: 'timestamptz' })
+  startedAt: Date;
+
+  @Column({ name: 'finished_at', type: 'timestamptz' })
+  finishedAt: Date;
+}
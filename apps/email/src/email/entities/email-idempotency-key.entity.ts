@@ -0,0 +1,42 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryColumn,
+} from 'typeorm';
+import { EmailTransaction } from './email-transaction.entity';
+
+@Entity({ name: 'email_idempotency_keys' })
+export class EmailIdempotencyKey {
+  /** txnRefNos are only unique within a source. */
+  @PrimaryColumn({ type: 'varchar', length: 128 })
+  source: string;
+
+  @PrimaryColumn({ name: 'txn_ref_no', type: 'varchar', length: 128 })
+  txnRefNo: string;
+
+  @Column({ name: 'request_hash', type: 'char', length: 64 })
+  requestHash: string;
+
+  @Column({ name: 'transaction_id', type: 'uuid' })
+  transactionId: string;
+
+  // Deferred so the key can be claimed before its transaction row is written.
+  @ManyToOne(() => EmailTransaction, {
+    onDelete: 'CASCADE',
+    deferrable: 'INITIALLY DEFERRED',
+  })
+  @JoinColumn({
+    name: 'transaction_id',
+    foreignKeyConstraintName: 'FK_email_idempotency_keys_transaction',
+  })
+  transaction: EmailTransaction;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @Column({ name: 'expires_at', type: 'timestamptz' })
+  expiresAt: Date;
+}
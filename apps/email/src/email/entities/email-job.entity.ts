@@ -0,0 +1,69 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  OneToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { SendEmailDto } from '../dto/send-email.dto';
+import { EmailTransaction } from './email-transaction.entity';
+
+export enum EmailJobState {
+  Pending = 'pending',
+  Processing = 'processing',
+  Completed = 'completed',
+  Dead = 'dead',
+  /** Stopped before sending, by a caller or because of suppressions. */
+  Cancelled = 'cancelled',
+}
+
+@Entity({ name: 'email_jobs' })
+@Index('IDX_email_jobs_due', ['state', 'nextAttemptAt'])
+export class EmailJob {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'transaction_id', type: 'uuid' })
+  transactionId: string;
+
+  @OneToOne(() => EmailTransaction, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'transaction_id',
+    foreignKeyConstraintName: 'FK_email_jobs_transaction',
+  })
+  transaction: EmailTransaction;
+
+  @Column({ type: 'jsonb' })
+  payload: SendEmailDto;
+
+  @Column({ type: 'varchar', length: 16, default: EmailJobState.Pending })
+  state: EmailJobState;
+
+  @Column({ type: 'integer', default: 0 })
+  attempts: number;
+
+  @Column({ name: 'max_attempts', type: 'integer' })
+  maxAttempts: number;
+
+  @Column({
+    name: 'next_attempt_at',
+    type: 'timestamptz',
+    default: () => 'now()',
+  })
+  nextAttemptAt: Date;
+
+  @Column({ name: 'locked_at', type: 'timestamptz', nullable: true })
+  lockedAt: Date | null;
+
+  @Column({ name: 'locked_by', type: 'varchar', length: 128, nullable: true })
+  lockedBy: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
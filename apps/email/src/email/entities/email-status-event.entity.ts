@@ -0,0 +1,45 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { EmailStatus } from '../email-status.enum';
+import { EmailTransaction } from './email-transaction.entity';
+
+/** One row per status transition, giving each email a lifecycle timeline. */
+@Entity({ name: 'email_status_events' })
+@Index('IDX_email_status_events_transaction', ['transactionId', 'occurredAt'])
+export class EmailStatusEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'transaction_id', type: 'uuid' })
+  transactionId: string;
+
+  @ManyToOne(() => EmailTransaction, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'transaction_id',
+    foreignKeyConstraintName: 'FK_email_status_events_transaction',
+  })
+  transaction: EmailTransaction;
+
+  @Column({ type: 'varchar', length: 32 })
+  status: EmailStatus;
+
+  @Column({ type: 'text', nullable: true })
+  detail: string | null;
+
+  /** Who caused the transition, for changes made by a caller. */
+  @Column({ type: 'varchar', length: 256, nullable: true })
+  actor: string | null;
+
+  @Column({
+    name: 'occurred_at',
+    type: 'timestamptz',
+    default: () => 'clock_timestamp()',
+  })
+  occurredAt: Date;
+}
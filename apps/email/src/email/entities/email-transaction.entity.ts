@@ -0,0 +1,102 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { TemplateCategory } from '../../templates/entities/email-template.entity';
+import { EmailStatus } from '../email-status.enum';
+import { EmailBatch } from './email-batch.entity';
+
+@Entity({ name: 'email_transactions' })
+export class EmailTransaction {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index('IDX_email_transactions_txn_ref_no')
+  @Column({ name: 'txn_ref_no', type: 'varchar', length: 128 })
+  txnRefNo: string;
+
+  @Index('IDX_email_transactions_source')
+  @Column({ type: 'varchar', length: 128 })
+  source: string;
+
+  @Column({ name: 'from_address', type: 'varchar', length: 320 })
+  fromAddress: string;
+
+  @Column({ name: 'to_recipients', type: 'text', array: true })
+  toRecipients: string[];
+
+  @Column({ name: 'cc_recipients', type: 'text', array: true, default: '{}' })
+  ccRecipients: string[];
+
+  @Column({ name: 'bcc_recipients', type: 'text', array: true, default: '{}' })
+  bccRecipients: string[];
+
+  @Column({ type: 'text' })
+  subject: string;
+
+  @Column({ name: 'template_id', type: 'integer', nullable: true })
+  templateId: number | null;
+
+  /** Version of the registered template the email was built from, if any. */
+  @Column({ name: 'template_version', type: 'integer', nullable: true })
+  templateVersion: number | null;
+
+  /** Taken from the template, so marketing emails can be unsubscribed from. */
+  @Column({
+    type: 'varchar',
+    length: 16,
+    default: TemplateCategory.Transactional,
+  })
+  category: TemplateCategory;
+
+  /** The bulk send the email belongs to, if any. */
+  @Index('IDX_email_transactions_batch_id')
+  @Column({ name: 'batch_id', type: 'uuid', nullable: true })
+  batchId: string | null;
+
+  @ManyToOne(() => EmailBatch)
+  @JoinColumn({
+    name: 'batch_id',
+    foreignKeyConstraintName: 'FK_email_transactions_batch',
+  })
+  batch?: EmailBatch;
+
+  @Index('IDX_email_transactions_status')
+  @Column({ type: 'varchar', length: 32, default: EmailStatus.Received })
+  status: EmailStatus;
+
+  @Index('IDX_email_transactions_message_id')
+  @Column({ name: 'message_id', type: 'varchar', length: 998, nullable: true })
+  messageId: string | null;
+
+  @Column({ name: 'provider_response', type: 'text', nullable: true })
+  providerResponse: string | null;
+
+  @Column({ name: 'error_code', type: 'varchar', length: 64, nullable: true })
+  errorCode: string | null;
+
+  @Column({ name: 'error_message', type: 'text', nullable: true })
+  errorMessage: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+
+  /** When the caller asked for the email to go out, if not straight away. */
+  @Column({ name: 'send_at', type: 'timestamptz', nullable: true })
+  sendAt: Date | null;
+
+  @Column({ name: 'sent_at', type: 'timestamptz', nullable: true })
+  sentAt: Date | null;
+
+  @Column({ name: 'failed_at', type: 'timestamptz', nullable: true })
+  failedAt: Date | null;
+}
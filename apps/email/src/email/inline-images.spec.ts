@@ -0,0 +1,42 @@
+import { findCidReferences, resolveInlineImages } from './inline-images';
+
+const image = (filename: string) => ({ filename, base64: 'aGk=' });
+
+describe('resolveInlineImages', () => {
+  it('accepts both the plain and img@ cid conventions', () => {
+    const header = image('header.png');
+    const footer = image('Footer.png');
+
+    const result = resolveInlineImages(
+      '<img src="cid:header.png"><img src=\'cid:img@footer.png\'>',
+      [header, footer],
+    );
+
+    expect(result.references).toEqual([
+      { cid: 'header.png', image: header },
+      { cid: 'img@footer.png', image: footer },
+    ]);
+    expect(result.missing).toEqual([]);
+    expect(result.unused).toEqual([]);
+  });
+
+  it('reports missing references and unused uploads', () => {
+    const result = resolveInlineImages(
+      '<img src="cid:header.png"><img src="cid:maybank_logo.png">',
+      [image('header.png'), image('bg_approve.png')],
+    );
+
+    expect(result.missing).toEqual(['maybank_logo.png']);
+    expect(result.unused).toEqual(['bg_approve.png']);
+  });
+});
+
+describe('findCidReferences', () => {
+  it('finds references in attributes and CSS, once each', () => {
+    expect(
+      findCidReferences(
+        '<div style="background:url(cid:bg.png)"><img src="cid:a%20b.png"><img src="cid:bg.png">',
+      ),
+    ).toEqual(['bg.png', 'a b.png']);
+  });
+});
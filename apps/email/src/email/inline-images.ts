@@ -0,0 +1,75 @@
+import { EmailFileDto } from './dto/send-email.dto';
+
+/**
+ * The web form's default template references images as `cid:header.png`,
+ * while `generateHtmlFromPrompt` uses `cid:img@header.png`. Both resolve to
+ * the uploaded file named `header.png`.
+ */
+const CID_PREFIX = 'img@';
+const CID_REFERENCE_PATTERN = /\bcid:([^"'\s)>]+)/gi;
+
+export interface InlineImageReference {
+  /** The Content-ID exactly as written in the HTML. */
+  cid: string;
+  image: EmailFileDto;
+}
+
+export interface InlineImageResolution {
+  references: InlineImageReference[];
+  /** `cid:` references in the HTML without a matching image. */
+  missing: string[];
+  /** Uploaded images the HTML never references. */
+  unused: string[];
+}
+
+export function findCidReferences(html: string): string[] {
+  const references = new Set<string>();
+  for (const [, cid] of html.matchAll(CID_REFERENCE_PATTERN)) {
+    references.add(safeDecode(cid));
+  }
+  return [...references];
+}
+
+export function resolveInlineImages(
+  html: string,
+  images: EmailFileDto[] = [],
+): InlineImageResolution {
+  const byName = new Map(
+    images.map((image) => [image.filename.toLowerCase(), image]),
+  );
+  const used = new Set<EmailFileDto>();
+  const references: InlineImageReference[] = [];
+  const missing: string[] = [];
+
+  for (const cid of findCidReferences(html)) {
+    const image = byName.get(toFilename(cid).toLowerCase());
+    if (image) {
+      references.push({ cid, image });
+      used.add(image);
+    } else {
+      missing.push(cid);
+    }
+  }
+
+  return {
+    references,
+    missing,
+    unused: images
+      .filter((image) => !used.has(image))
+      .map((image) => image.filename),
+  };
+}
+
+function toFilename(cid: string): string {
+  return cid.toLowerCase().startsWith(CID_PREFIX)
+    ? cid.slice(CID_PREFIX.length)
+    : cid;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,82 @@
+import {
+  ArgumentsHost,
+  BadRequestException,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Inject,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import {
+  attachmentsConfig,
+  type AttachmentsConfig,
+} from '../config/attachments.config';
+import { httpConfig, type HttpConfig } from '../config/http.config';
+import {
+  MULTIPART_FIELDS,
+  multipartBodyLimit,
+  multipartFileCount,
+  multipartFileLimit,
+} from './email-multipart.parser';
+
+/**
+ * Multer only says "File too large" or "Too many files"; this states the
+ * limit that was hit in the same shape as the 413s for oversized JSON
+ * bodies. Other errors pass through as they are.
+ */
+@Catch(PayloadTooLargeException, BadRequestException)
+export class MultipartLimitFilter implements ExceptionFilter {
+  constructor(
+    @Inject(attachmentsConfig.KEY)
+    private readonly attachments: AttachmentsConfig,
+    @Inject(httpConfig.KEY) private readonly http: HttpConfig,
+  ) {}
+
+  catch(exception: HttpException, host: ArgumentsHost): void {
+    const http = host.switchToHttp();
+    const request = http.getRequest<Request>();
+    const response = http.getResponse<Response>();
+    const route = `${request.method} ${request.originalUrl.split('?')[0]}`;
+
+    if (exception instanceof PayloadTooLargeException) {
+      const limitBytes = multipartFileLimit(this.attachments);
+      response.status(HttpStatus.PAYLOAD_TOO_LARGE).json({
+        statusCode: HttpStatus.PAYLOAD_TOO_LARGE,
+        error: 'Payload Too Large',
+        message: `Files uploaded to ${route} must be at most ${limitBytes} bytes each`,
+        limitBytes,
+      });
+      return;
+    }
+
+    // Nest passes Multer's other limit errors on as 400s with its message.
+    const { message } = exception;
+    if (message.startsWith('Field value too long')) {
+      const limitBytes = multipartBodyLimit(this.http);
+      response.status(HttpStatus.PAYLOAD_TOO_LARGE).json({
+        statusCode: HttpStatus.PAYLOAD_TOO_LARGE,
+        error: 'Payload Too Large',
+        message: `The payload part of ${route} must be at most ${limitBytes} bytes`,
+        limitBytes,
+      });
+    } else if (message.startsWith('Too many files')) {
+      const limit = multipartFileCount(this.attachments);
+      response.status(HttpStatus.BAD_REQUEST).json({
+        statusCode: HttpStatus.BAD_REQUEST,
+        error: 'Bad Request',
+        message: `At most ${limit} files can be uploaded to ${route}`,
+        limit,
+      });
+    } else if (message.startsWith('Too many fields')) {
+      response.status(HttpStatus.BAD_REQUEST).json({
+        statusCode: HttpStatus.BAD_REQUEST,
+        error: 'Bad Request',
+        message: `${route} only takes a ${MULTIPART_FIELDS.join(', ')} part besides the files`,
+      });
+    } else {
+      response.status(exception.getStatus()).json(exception.getResponse());
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { EnvironmentConfig, RecipientMode } from '../config/environment.config';
+import { SendEmailDto } from './dto/send-email.dto';
+import { RecipientPolicyService } from './recipient-policy.service';
+
+const email: SendEmailDto = {
+  txnRefNo: 'Email-1',
+  source: 'Testing',
+  payload: {
+    from: 'noreply@example.com',
+    subject: 'Your statement',
+    to: 'Ann <ann@example.com>, bob@customer.org',
+    cc: 'Carol@Example.com',
+  },
+  additionalInfo: { template_id: 1, isText: true },
+};
+
+function createPolicy(
+  overrides: Partial<EnvironmentConfig>,
+): RecipientPolicyService {
+  return new RecipientPolicyService({
+    name: 'staging',
+    production: false,
+    recipientMode: RecipientMode.Redirect,
+    redirectTo: 'qa@example.com',
+    allowedDomains: ['example.com'],
+    ...overrides,
+  });
+}
+
+describe('RecipientPolicyService', () => {
+  it('sends as addressed in production', () => {
+    const policy = createPolicy({
+      name: 'production',
+      production: true,
+      recipientMode: RecipientMode.Deliver,
+    });
+
+    expect(policy.apply(email)).toEqual({ email, headers: {}, note: null });
+    expect(policy.warningsFor(['bob@customer.org'])).toEqual([]);
+  });
+
+  it('redirects everything to the catch-all address, keeping the originals', () => {
+    const policy = createPolicy({});
+
+    const { email: sent, headers, note } = policy.apply(email);
+
+    expect(sent?.payload).toMatchObject({
+      subject: '[staging] Your statement',
+      to: 'qa@example.com',
+      cc: undefined,
+      bcc: undefined,
+    });
+    expect(headers).toEqual({
+      'X-Original-Recipients':
+        'to: Ann <ann@example.com>, bob@customer.org; cc: Carol@Example.com',
+    });
+    expect(note).toBe('redirected to qa@example.com');
+    expect(policy.warningsFor(['bob@customer.org'])).toEqual([
+      'Recipients are redirected to qa@example.com in staging',
+    ]);
+  });
+
+  it('only sends to the allowed domains', () => {
+    const policy = createPolicy({ recipientMode: RecipientMode.Allowlist });
+
+    const { email: sent, headers, note } = policy.apply(email);
+
+    expect(sent?.payload).toMatchObject({
+      to: 'Ann <ann@example.com>',
+      cc: 'Carol@Example.com',
+    });
+    expect(headers).toEqual({
+      'X-Original-Recipients':
+        'to: Ann <ann@example.com>, bob@customer.org; cc: Carol@Example.com',
+    });
+    expect(note).toBe(
+      'not sent outside the allowed domains to bob@customer.org',
+    );
+    expect(policy.warningsFor(['ann@example.com', 'bob@customer.org'])).toEqual(
+      [
+        'bob@customer.org is outside the allowed domains in staging and will not be sent to',
+      ],
+    );
+  });
+
+  it('keeps bcc recipients out of the header the recipients see', () => {
+    const policy = createPolicy({ recipientMode: RecipientMode.Allowlist });
+
+    const { email: sent, headers } = policy.apply({
+      ...email,
+      payload: { ...email.payload, bcc: 'auditor@example.com' },
+    });
+
+    expect(sent?.payload.bcc).toBe('auditor@example.com');
+    expect(headers['X-Original-Recipients']).not.toContain('auditor');
+  });
+
+  it('leaves nothing to send when no recipient is allowed', () => {
+    const policy = createPolicy({
+      recipientMode: RecipientMode.Allowlist,
+      allowedDomains: ['example.net'],
+    });
+
+    expect(policy.apply(email)).toMatchObject({
+      email: null,
+      note: 'Every recipient is outside the allowed domains: Ann <ann@example.com>, bob@customer.org, Carol@Example.com',
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  environmentConfig,
+  type EnvironmentConfig,
+  RecipientMode,
+} from '../config/environment.config';
+import { normalizeAddress } from '../suppressions/suppressions.service';
+import { SendEmailDto } from './dto/send-email.dto';
+import { allRecipients, parseRecipients } from './utils/recipients';
+
+export const ORIGINAL_RECIPIENTS_HEADER = 'X-Original-Recipients';
+
+export interface AddressedEmail {
+  /** Null when nobody the email is addressed to may receive it here. */
+  email: SendEmailDto | null;
+  headers: Record<string, string>;
+  /** What was changed about the recipients, or why nobody is left, for the history. */
+  note: string | null;
+}
+
+/**
+ * Keeps emails from non-production environments away from real people:
+ * recipients are rewritten to a catch-all address or limited to allowed
+ * domains, the original to and cc are kept in an `X-Original-Recipients`
+ * header, and subjects are tagged with the environment's name. The original
+ * bcc is only in the transaction, as the header is seen by whoever receives
+ * the email.
+ */
+@Injectable()
+export class RecipientPolicyService {
+  private readonly logger = new Logger(RecipientPolicyService.name);
+
+  constructor(
+    @Inject(environmentConfig.KEY) private readonly config: EnvironmentConfig,
+  ) {
+    const { name, recipientMode, redirectTo, allowedDomains } = config;
+    if (recipientMode === RecipientMode.Redirect) {
+      this.logger.log(`Redirecting every email to ${redirectTo} (${name})`);
+    } else if (recipientMode === RecipientMode.Allowlist) {
+      this.logger.log(
+        `Only sending to ${allowedDomains.join(', ') || 'no domains'} (${name})`,
+      );
+    }
+  }
+
+  /** What will happen to a request's recipients, for the send response. */
+  warningsFor(addresses: string[]): string[] {
+    const { name, recipientMode, redirectTo } = this.config;
+    if (recipientMode === RecipientMode.Redirect) {
+      return addresses.length > 0
+        ? [`Recipients are redirected to ${redirectTo} in ${name}`]
+        : [];
+    }
+    if (recipientMode === RecipientMode.Allowlist) {
+      return addresses
+        .filter((address) => !this.isAllowed(address))
+        .map(
+          (address) =>
+            `${address} is outside the allowed domains in ${name} and will not be sent to`,
+        );
+    }
+    return [];
+  }
+
+  apply(email: SendEmailDto): AddressedEmail {
+    const { name, production, recipientMode, redirectTo } = this.config;
+    const payload = production
+      ? email.payload
+      : {
+          ...email.payload,
+          subject: `[${name}] ${email.payload.subject ?? ''}`,
+        };
+    if (recipientMode === RecipientMode.Deliver) {
+      return { email: { ...email, payload }, headers: {}, note: null };
+    }
+
+    const headers = {
+      [ORIGINAL_RECIPIENTS_HEADER]: describeRecipients(email),
+    };
+    if (recipientMode === RecipientMode.Redirect) {
+      return {
+        email: {
+          ...email,
+          payload: {
+            ...payload,
+            to: redirectTo,
+            cc: undefined,
+            bcc: undefined,
+          },
+        },
+        headers,
+        note: `redirected to ${redirectTo}`,
+      };
+    }
+
+    const keep = (list?: string) =>
+      parseRecipients(list)
+        .filter((address) => this.isAllowed(address))
+        .join(', ');
+    const allowed = {
+      ...payload,
+      to: keep(payload.to),
+      cc: keep(payload.cc) || undefined,
+      bcc: keep(payload.bcc) || undefined,
+    };
+    const blocked = allRecipients(payload).filter(
+      (address) => !this.isAllowed(address),
+    );
+    if (allRecipients(allowed).length === 0) {
+      return {
+        email: null,
+        headers,
+        note: `Every recipient is outside the allowed domains: ${blocked.join(', ')}`,
+      };
+    }
+    return {
+      email: { ...email, payload: allowed },
+      headers,
+      note:
+        blocked.length > 0
+          ? `not sent outside the allowed domains to ${blocked.join(', ')}`
+          : null,
+    };
+  }
+
+  private isAllowed(address: string): boolean {
+    const domain = normalizeAddress(address).split('@').pop() ?? '';
+    return this.config.allowedDomains.includes(domain);
+  }
+}
+
+/** e.g. `to: a@example.com, b@example.com; cc: c@example.com` */
+function describeRecipients({ payload }: SendEmailDto): string {
+  return (['to', 'cc'] as const)
+    .map((field) => [field, parseRecipients(payload[field])] as const)
+    .filter(([, addresses]) => addresses.length > 0)
+    .map(([field, addresses]) => `${field}: ${addresses.join(', ')}`)
+    .join('; ');
+}
@@ -0,0 +1,16 @@
+import { backoffDelay } from './backoff';
+
+describe('backoffDelay', () => {
+  it('doubles the delay for each attempt', () => {
+    const max = () => 1;
+
+    expect(backoffDelay(1, 1_000, 60_000, max)).toBe(1_000);
+    expect(backoffDelay(2, 1_000, 60_000, max)).toBe(2_000);
+    expect(backoffDelay(4, 1_000, 60_000, max)).toBe(8_000);
+  });
+
+  it('caps the delay and keeps jitter in the upper half', () => {
+    expect(backoffDelay(20, 1_000, 60_000, () => 1)).toBe(60_000);
+    expect(backoffDelay(20, 1_000, 60_000, () => 0)).toBe(30_000);
+  });
+});
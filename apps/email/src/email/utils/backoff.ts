@@ -0,0 +1,14 @@
+/**
+ * Exponential backoff with jitter: attempt 1 waits about `baseMs`, each later
+ * attempt doubles it up to `maxMs`. The delay is drawn from the upper half
+ * of that value so retries of a batch don't all hit the relay at once.
+ */
+export function backoffDelay(
+  attempt: number,
+  baseMs: number,
+  maxMs: number,
+  random: () => number = Math.random,
+): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+}
@@ -0,0 +1,61 @@
+import { randomBytes } from 'node:crypto';
+import { Readable } from 'node:stream';
+import {
+  createDecodeStream,
+  decodedLength,
+  hasValidEncoding,
+  sampleBase64File,
+} from './data-url';
+
+async function read(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+describe('data URL decoding', () => {
+  // Large enough to span several decode chunks.
+  const content = randomBytes(200_000);
+  const base64 = content.toString('base64');
+
+  it('streams data URLs and bare base64 back to the original bytes', async () => {
+    await expect(
+      read(createDecodeStream(`data:application/pdf;base64,${base64}`)),
+    ).resolves.toEqual(content);
+    await expect(read(createDecodeStream(base64))).resolves.toEqual(content);
+  });
+
+  it('copes with base64 wrapped across lines', async () => {
+    const wrapped = base64.replace(/.{76}/g, '$&\r\n');
+
+    await expect(read(createDecodeStream(wrapped))).resolves.toEqual(content);
+    expect(decodedLength(wrapped)).toBe(content.length);
+    expect(sampleBase64File(wrapped, 100)).toEqual({
+      head: content.subarray(0, 100),
+      tail: content.subarray(-100),
+    });
+  });
+
+  it('samples the ends of a file without decoding the rest', () => {
+    const { head, tail } = sampleBase64File(base64, 1_000);
+
+    expect(head).toEqual(content.subarray(0, head.length));
+    expect(head.length).toBeGreaterThanOrEqual(1_000);
+    expect(content.subarray(-tail.length)).toEqual(tail);
+    expect(tail.length).toBeGreaterThanOrEqual(1_000);
+  });
+
+  it('works out the decoded size from the text alone', () => {
+    expect(decodedLength(base64)).toBe(content.length);
+    expect(decodedLength('data:text/plain,hello%20world')).toBe(11);
+  });
+
+  it('tells malformed percent-encoding apart before anything decodes it', () => {
+    expect(hasValidEncoding('data:text/plain,hello%20world')).toBe(true);
+    expect(hasValidEncoding(base64)).toBe(true);
+    expect(hasValidEncoding('data:text/plain,%E0%A4%A')).toBe(false);
+    expect(hasValidEncoding('data:text/plain,100%')).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+import { Readable } from 'node:stream';
+
+const DATA_URL_PATTERN = /^data:([^;,]+)?((?:;[^;,]+)*?)(;base64)?,/;
+
+/** Base64 characters decoded per chunk; a multiple of 4 so chunks align. */
+const DECODE_CHUNK_CHARS = 64 * 1024;
+
+/** The start and end of a file, enough to identify it without decoding it. */
+export interface FileSample {
+  head: Buffer;
+  tail: Buffer;
+}
+
+interface EncodedFile {
+  data: string;
+  base64: boolean;
+}
+
+/**
+ * Splits either a `data:<mime>;base64,<data>` URL (what the web form's
+ * FileReader produces) or a bare base64 string into its parts.
+ */
+function parseEncodedFile(value: string): EncodedFile {
+  const match = DATA_URL_PATTERN.exec(value);
+  if (!match) {
+    return { data: value, base64: true };
+  }
+  return {
+    data: value.slice(match[0].length),
+    base64: Boolean(match[3]),
+  };
+}
+
+/**
+ * False for a data URL whose percent-encoding doesn't decode, e.g. a `%`
+ * that isn't followed by two hex digits or escapes that aren't UTF-8. The
+ * other functions here throw a URIError on such a value. Anything passes as
+ * base64, as undecodable characters are skipped.
+ */
+export function hasValidEncoding(value: string): boolean {
+  const { data, base64 } = parseEncodedFile(value);
+  if (base64) {
+    return true;
+  }
+  try {
+    decodeURIComponent(data);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decodes a file a chunk at a time as the stream is read, so a large
+ * attachment never has to be held decoded in memory alongside its base64.
+ */
+export function createDecodeStream(value: string): Readable {
+  const { data, base64 } = parseEncodedFile(value);
+  if (!base64) {
+    return Readable.from([Buffer.from(decodeURIComponent(data))]);
+  }
+  return Readable.from(decodeChunks(data), { objectMode: false });
+}
+
+/**
+ * Decodes only the first and last `bytes` of a file, for sniffing its type.
+ * Base64 that contains line breaks can't be sliced at a known offset, so its
+ * tail is found by streaming through it instead.
+ */
+export function sampleBase64File(value: string, bytes: number): FileSample {
+  const { data, base64 } = parseEncodedFile(value);
+  if (!base64) {
+    const content = Buffer.from(decodeURIComponent(data));
+    return { head: content.subarray(0, bytes), tail: content.subarray(-bytes) };
+  }
+
+  const chars = Math.ceil(bytes / 3) * 4;
+  if (!/\s/.test(data)) {
+    const tailStart = Math.max(0, data.length - chars);
+    return {
+      head: Buffer.from(data.slice(0, chars), 'base64'),
+      tail: Buffer.from(data.slice(tailStart - (tailStart % 4)), 'base64'),
+    };
+  }
+
+  let head = Buffer.alloc(0);
+  let tail = Buffer.alloc(0);
+  for (const chunk of decodeChunks(data)) {
+    if (head.length < bytes) {
+      head = Buffer.concat([head, chunk]).subarray(0, bytes);
+    }
+    tail = Buffer.concat([tail, chunk]).subarray(-bytes);
+  }
+  return { head, tail };
+}
+
+/**
+ * Size in bytes of the decoded file, worked out from the base64 text alone
+ * so limits can be enforced before anything is decoded.
+ */
+export function decodedLength(value: string): number {
+  const { data, base64 } = parseEncodedFile(value);
+  if (!base64) {
+    return Buffer.byteLength(decodeURIComponent(data));
+  }
+
+  let length = data.length;
+  while (length > 0 && /[=\s]/.test(data[length - 1])) {
+    length--;
+  }
+  const whitespace = data.slice(0, length).match(/\s/g)?.length ?? 0;
+  return Math.floor(((length - whitespace) * 3) / 4);
+}
+
+function* decodeChunks(data: string): Generator<Buffer> {
+  let carry = '';
+  for (let offset = 0; offset < data.length; offset += DECODE_CHUNK_CHARS) {
+    const text =
+      carry +
+      data.slice(offset, offset + DECODE_CHUNK_CHARS).replace(/\s+/g, '');
+    const usable = text.length - (text.length % 4);
+    carry = text.slice(usable);
+    if (usable > 0) {
+      yield Buffer.from(text.slice(0, usable), 'base64');
+    }
+  }
+  if (carry) {
+    yield Buffer.from(carry, 'base64');
+  }
+}
@@ -0,0 +1,10 @@
+import { randomUUID } from 'node:crypto';
+
+/**
+ * Generates the Message-ID up front so callers get it back before delivery
+ * and every retry of the same email reuses it.
+ */
+export function generateMessageId(from: string): string {
+  const domain = from.split('@').pop()?.trim() || 'localhost';
+  return `<${randomUUID()}@${domain}>`;
+}
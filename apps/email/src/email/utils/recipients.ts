@@ -0,0 +1,27 @@
+/**
+ * Splits a recipient list separated by commas or semicolons, the same way the
+ * web form's `parseEmails` does.
+ */
+export function parseRecipients(value?: string | null): string[] {
+  if (!value) {
+    return [];
+  }
+
+  return value
+    .split(/[,;]/)
+    .map((address) => address.trim())
+    .filter((address) => address.length > 0);
+}
+
+/** Every address an email goes to, across to, cc and bcc. */
+export function allRecipients({
+  to,
+  cc,
+  bcc,
+}: {
+  to?: string | null;
+  cc?: string | null;
+  bcc?: string | null;
+}): string[] {
+  return [to, cc, bcc].flatMap((list) => parseRecipients(list));
+}
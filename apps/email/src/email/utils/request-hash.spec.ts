@@ -0,0 +1,13 @@
+import { hashRequest } from './request-hash';
+
+describe('hashRequest', () => {
+  it('ignores key order and undefined fields', () => {
+    expect(hashRequest({ a: 1, b: { c: 2, d: undefined } })).toBe(
+      hashRequest({ b: { c: 2 }, a: 1 }),
+    );
+  });
+
+  it('changes when any value changes', () => {
+    expect(hashRequest({ a: [1, 2] })).not.toBe(hashRequest({ a: [2, 1] }));
+  });
+});
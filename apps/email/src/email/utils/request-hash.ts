@@ -0,0 +1,29 @@
+import { createHash } from 'node:crypto';
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+        .map((key) => [
+          key,
+          canonicalize((value as Record<string, unknown>)[key]),
+        ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * SHA-256 of the request body with object keys sorted, so two requests that
+ * differ only in key order or omitted optional fields hash the same.
+ */
+export function hashRequest(body: unknown): string {
+  return createHash('sha256')
+    .update(JSON.stringify(canonicalize(body)))
+    .digest('hex');
+}
@@ -0,0 +1,21 @@
+import type {
+  EmailAdditionalInfoDto,
+  SendEmailDto,
+} from '../dto/send-email.dto';
+
+/** Files a batch stores once for all of its emails. */
+export type SharedFiles = Pick<
+  EmailAdditionalInfoDto,
+  'html_images' | 'attachment_files'
+>;
+
+export function withoutFiles(dto: SendEmailDto): SendEmailDto {
+  const additionalInfo = { ...dto.additionalInfo };
+  delete additionalInfo.html_images;
+  delete additionalInfo.attachment_files;
+  return { ...dto, additionalInfo };
+}
+
+export function withFiles(dto: SendEmailDto, files: SharedFiles): SendEmailDto {
+  return { ...dto, additionalInfo: { ...dto.additionalInfo, ...files } };
+}
@@ -0,0 +1,34 @@
+import { Controller, Get, ServiceUnavailableException } from '@nestjs/common';
+import { Public } from '../auth/auth.decorators';
+import {
+  HealthService,
+  HealthStatus,
+  type HealthReport,
+} from './health.service';
+
+/**
+ * Probes for the orchestrator. Both answer 200 while the service is up or
+ * degraded and 503, with the same breakdown, when any check is down.
+ */
+@Controller('health')
+@Public()
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  @Get('live')
+  live(): HealthReport {
+    return respond(this.healthService.liveness());
+  }
+
+  @Get('ready')
+  async ready(): Promise<HealthReport> {
+    return respond(await this.healthService.readiness());
+  }
+}
+
+function respond(report: HealthReport): HealthReport {
+  if (report.status === HealthStatus.Down) {
+    throw new ServiceUnavailableException(report);
+  }
+  return report;
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { healthConfig } from '../config/health.config';
+import { EmailModule } from '../email/email.module';
+import { MailTransportModule } from '../mail/mail-transport.module';
+import { HealthController } from './health.controller';
+import { HealthService } from './health.service';
+
+@Module({
+  imports: [
+    ConfigModule.forFeature(healthConfig),
+    EmailModule,
+    MailTransportModule,
+  ],
+  controllers: [HealthController],
+  providers: [HealthService],
+})
+export class HealthModule {}
@@ -0,0 +1,100 @@
+import { DataSource } from 'typeorm';
+import { HealthConfig } from '../config/health.config';
+import { EmailDeliveryWorker } from '../email/email-delivery.worker';
+import { EmailQueueService } from '../email/email-queue.service';
+import { MailTransportService } from '../mail/mail-transport.service';
+import { HealthService, HealthStatus } from './health.service';
+
+describe('HealthService', () => {
+  const dataSource = { query: jest.fn() };
+  const mailTransport = { verify: jest.fn() };
+  const queue = { backlog: jest.fn() };
+  const worker = { heartbeat: jest.fn() };
+  let service: HealthService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dataSource.query.mockResolvedValue([{ '?column?': 1 }]);
+    mailTransport.verify.mockResolvedValue(true);
+    queue.backlog.mockResolvedValue({
+      due: 2,
+      oldestDueAt: new Date(),
+      processing: 1,
+    });
+    worker.heartbeat.mockReturnValue({
+      enabled: true,
+      lastPollAt: new Date(),
+    });
+    service = new HealthService(
+      dataSource as unknown as DataSource,
+      mailTransport as unknown as MailTransportService,
+      queue as unknown as EmailQueueService,
+      worker as unknown as EmailDeliveryWorker,
+      {
+        checkTimeoutMs: 1_000,
+        smtpCacheMs: 30_000,
+        queueMaxLagMs: 60_000,
+        queueMaxBacklog: 100,
+        workerMaxSilenceMs: 60_000,
+      } as HealthConfig,
+    );
+  });
+
+  it('is ready when every check passes', async () => {
+    const report = await service.readiness();
+
+    expect(report.status).toBe(HealthStatus.Up);
+    expect(report.checks).toMatchObject({
+      database: { status: HealthStatus.Up },
+      smtp: { status: HealthStatus.Up },
+      queue: { status: HealthStatus.Up, due: 2, processing: 1 },
+      worker: { status: HealthStatus.Up, enabled: true },
+    });
+    expect(typeof report.checks.smtp.checkedAt).toBe('string');
+  });
+
+  it('is down when the relay refuses the handshake, and reuses the result', async () => {
+    mailTransport.verify.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    const report = await service.readiness();
+    await service.readiness();
+
+    expect(report.status).toBe(HealthStatus.Down);
+    expect(report.checks.smtp).toMatchObject({
+      status: HealthStatus.Down,
+      error: 'connect ECONNREFUSED',
+    });
+    expect(mailTransport.verify).toHaveBeenCalledTimes(1);
+  });
+
+  it('is degraded, not down, while the queue lags', async () => {
+    queue.backlog.mockResolvedValue({
+      due: 500,
+      oldestDueAt: new Date(Date.now() - 120_000),
+      processing: 10,
+    });
+
+    const report = await service.readiness();
+
+    expect(report.status).toBe(HealthStatus.Degraded);
+    expect(report.checks.queue.status).toBe(HealthStatus.Degraded);
+  });
+
+  it('fails liveness when the worker has stopped polling', () => {
+    worker.heartbeat.mockReturnValue({
+      enabled: true,
+      lastPollAt: new Date(Date.now() - 120_000),
+    });
+
+    expect(service.liveness().status).toBe(HealthStatus.Down);
+  });
+
+  it('ignores the worker where it is disabled', () => {
+    worker.heartbeat.mockReturnValue({ enabled: false, lastPollAt: null });
+
+    expect(service.liveness()).toEqual({
+      status: HealthStatus.Up,
+      checks: { worker: { status: HealthStatus.Up, enabled: false } },
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { healthConfig, type HealthConfig } from '../config/health.config';
+import { EmailDeliveryWorker } from '../email/email-delivery.worker';
+import { EmailQueueService } from '../email/email-queue.service';
+import { MailTransportService } from '../mail/mail-transport.service';
+
+export enum HealthStatus {
+  Up = 'up',
+  /** Working, but needs attention; doesn't fail the probe. */
+  Degraded = 'degraded',
+  Down = 'down',
+}
+
+export interface HealthCheck {
+  status: HealthStatus;
+  durationMs?: number;
+  error?: string;
+  [detail: string]: unknown;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  checks: Record<string, HealthCheck>;
+}
+
+@Injectable()
+export class HealthService {
+  private readonly startedAt = new Date();
+  private smtpCheck?: { startedAt: number; result: Promise<HealthCheck> };
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly mailTransport: MailTransportService,
+    private readonly queue: EmailQueueService,
+    private readonly worker: EmailDeliveryWorker,
+    @Inject(healthConfig.KEY) private readonly config: HealthConfig,
+  ) {}
+
+  /**
+   * Whether the process should be restarted: only the worker's heartbeat
+   * counts, since a restart fixes a stuck worker but not a database outage.
+   */
+  liveness(): HealthReport {
+    return summarize({ worker: this.checkWorker() });
+  }
+
+  /** Whether this instance can accept and send email right now. */
+  async readiness(): Promise<HealthReport> {
+    const [database, smtp, queue] = await Promise.all([
+      this.run(() => this.checkDatabase()),
+      this.checkSmtp(),
+      this.run(() => this.checkQueue()),
+    ]);
+    return summarize({ database, smtp, queue, worker: this.checkWorker() });
+  }
+
+  private async checkDatabase(): Promise<HealthCheck> {
+    await this.dataSource.query('SELECT 1');
+    return { status: HealthStatus.Up };
+  }
+
+  /** Connects and says EHLO (plus STARTTLS and AUTH when configured). */
+  private checkSmtp(): Promise<HealthCheck> {
+    const now = Date.now();
+    if (
+      !this.smtpCheck ||
+      now - this.smtpCheck.startedAt >= this.config.smtpCacheMs
+    ) {
+      const checkedAt = new Date(now).toISOString();
+      this.smtpCheck = {
+        startedAt: now,
+        result: this.run(async () => {
+          await this.mailTransport.verify();
+          return { status: HealthStatus.Up };
+        }).then((check) => ({ ...check, checkedAt })),
+      };
+    }
+    return this.smtpCheck.result;
+  }
+
+  private async checkQueue(): Promise<HealthCheck> {
+    const { due, oldestDueAt, processing } = await this.queue.backlog();
+    const lagMs = oldestDueAt
+      ? Math.max(0, Date.now() - oldestDueAt.getTime())
+      : 0;
+    return {
+      status:
+        due > this.config.queueMaxBacklog || lagMs > this.config.queueMaxLagMs
+          ? HealthStatus.Degraded
+          : HealthStatus.Up,
+      due,
+      processing,
+      lagMs,
+    };
+  }
+
+  private checkWorker(): HealthCheck {
+    const { enabled, lastPollAt } = this.worker.heartbeat();
+    if (!enabled) {
+      return { status: HealthStatus.Up, enabled };
+    }
+    // Before the first poll, count from startup.
+    const silentMs = Date.now() - (lastPollAt ?? this.startedAt).getTime();
+    return {
+      status:
+        silentMs > this.config.workerMaxSilenceMs
+          ? HealthStatus.Down
+          : HealthStatus.Up,
+      enabled,
+      lastPollAt: lastPollAt?.toISOString() ?? null,
+    };
+  }
+
+  /** Times a check, failing it if it throws or takes too long. */
+  private async run(check: () => Promise<HealthCheck>): Promise<HealthCheck> {
+    const started = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const result = await Promise.race([
+        check(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () =>
+              reject(
+                new Error(`Timed out after ${this.config.checkTimeoutMs} ms`),
+              ),
+            this.config.checkTimeoutMs,
+          );
+        }),
+      ]);
+      return { ...result, durationMs: Date.now() - started };
+    } catch (error) {
+      return {
+        status: HealthStatus.Down,
+        durationMs: Date.now() - started,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+function summarize(checks: Record<string, HealthCheck>): HealthReport {
+  const statuses = Object.values(checks).map(({ status }) => status);
+  const status = statuses.includes(HealthStatus.Down)
+    ? HealthStatus.Down
+    : statuses.includes(HealthStatus.Degraded)
+      ? HealthStatus.Degraded
+      : HealthStatus.Up;
+  return { status, checks };
+}
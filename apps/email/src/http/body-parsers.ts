@@ -0,0 +1,118 @@
+import { HttpStatus } from '@nestjs/common';
+import bytes from 'bytes';
+import type { NestExpressApplication } from '@nestjs/platform-express';
+import {
+  json,
+  urlencoded,
+  type NextFunction,
+  type Request,
+  type Response,
+} from 'express';
+import type { HttpConfig } from '../config/http.config';
+
+interface TooLargeError {
+  type: 'entity.too.large';
+  limit: number;
+  length?: number;
+}
+
+/**
+ * Parses request bodies with a size limit per route, so the send endpoint can
+ * take multi-megabyte attachments without raising the limit everywhere.
+ * Bodies over the limit get a JSON 413 that states it. Multipart bodies are
+ * parsed by the route itself, but are held to the same limit here.
+ */
+export function configureBodyParsers(
+  app: NestExpressApplication,
+  config: HttpConfig,
+): void {
+  const { bodyLimit } = config;
+  const routeBodyLimits: Record<string, string> = config.routeBodyLimits;
+  for (const [path, limit] of Object.entries(routeBodyLimits)) {
+    app.use(path, json({ limit }));
+  }
+  // Bodies already parsed by a route's own parser are skipped.
+  app.use(json({ limit: bodyLimit }));
+  app.use(urlencoded({ extended: true, limit: bodyLimit }));
+  app.use(limitMultipartBodies(config));
+  app.use(
+    (
+      error: unknown,
+      request: Request,
+      response: Response,
+      next: NextFunction,
+    ) => {
+      if (!isTooLarge(error)) {
+        next(error);
+        return;
+      }
+
+      const path = request.originalUrl.split('?')[0];
+      const limit = routeBodyLimit(config, path);
+      const size = error.length ? `${error.length}-byte ` : '';
+      response.status(HttpStatus.PAYLOAD_TOO_LARGE).json({
+        statusCode: HttpStatus.PAYLOAD_TOO_LARGE,
+        error: 'Payload Too Large',
+        message: `The ${size}request body exceeds the ${limit} limit for ${request.method} ${path}`,
+        limit,
+        limitBytes: error.limit,
+      });
+    },
+  );
+}
+
+/** The body limit for `path`, e.g. `25mb`, from its longest matching route. */
+export function routeBodyLimit(config: HttpConfig, path: string): string {
+  const routeBodyLimits: Record<string, string> = config.routeBodyLimits;
+  const route = Object.keys(routeBodyLimits)
+    .filter((prefix) => path === prefix || path.startsWith(`${prefix}/`))
+    .sort((a, b) => b.length - a.length)[0];
+  return route ? routeBodyLimits[route] : config.bodyLimit;
+}
+
+/**
+ * Multer reads the parts as they arrive and has no limit on their total, so
+ * multipart requests must declare their length up front. Node cuts a body
+ * off at its Content-Length, so a declared length within the limit is the
+ * most that will be read.
+ */
+function limitMultipartBodies(config: HttpConfig) {
+  return (request: Request, response: Response, next: NextFunction) => {
+    if (!request.is('multipart/form-data')) {
+      next();
+      return;
+    }
+    const path = request.originalUrl.split('?')[0];
+    const limit = routeBodyLimit(config, path);
+    const declared = request.get('Content-Length');
+    if (declared === undefined) {
+      response.status(HttpStatus.LENGTH_REQUIRED).json({
+        statusCode: HttpStatus.LENGTH_REQUIRED,
+        error: 'Length Required',
+        message: `Multipart requests to ${request.method} ${path} must have a Content-Length`,
+      });
+      return;
+    }
+    const limitBytes = bytes.parse(limit) ?? 0;
+    const length = Number(declared);
+    if (length > limitBytes) {
+      response.status(HttpStatus.PAYLOAD_TOO_LARGE).json({
+        statusCode: HttpStatus.PAYLOAD_TOO_LARGE,
+        error: 'Payload Too Large',
+        message: `The ${length}-byte request body exceeds the ${limit} limit for ${request.method} ${path}`,
+        limit,
+        limitBytes,
+      });
+      return;
+    }
+    next();
+  };
+}
+
+function isTooLarge(error: unknown): error is TooLargeError {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as { type?: unknown }).type === 'entity.too.large'
+  );
+}
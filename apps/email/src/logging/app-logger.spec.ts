@@ -0,0 +1,89 @@
+import { LoggingConfig } from '../config/logging.config';
+import { AppLogger } from './app-logger';
+import { runWithLogContext } from './log-context';
+
+describe('AppLogger', () => {
+  let output: string[];
+
+  const createLogger = (config: Partial<LoggingConfig> = {}) =>
+    new AppLogger({
+      format: 'json',
+      level: 'log',
+      moduleLevels: {},
+      ...config,
+    });
+
+  const lines = () =>
+    output.map((line) => JSON.parse(line) as Record<string, unknown>);
+
+  beforeEach(() => {
+    output = [];
+    jest.spyOn(process.stdout, 'write').mockImplementation((chunk) => {
+      output.push(String(chunk));
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('writes one JSON object per line with the correlation ids', () => {
+    runWithLogContext({ requestId: 'req-1' }, () => {
+      runWithLogContext({ txnRefNo: 'Email-1' }, () => {
+        createLogger().log('Queued', 'EmailService');
+      });
+    });
+
+    expect(lines()).toEqual([
+      expect.objectContaining({
+        level: 'log',
+        context: 'EmailService',
+        message: 'Queued',
+        requestId: 'req-1',
+        txnRefNo: 'Email-1',
+      }),
+    ]);
+  });
+
+  it('applies per-module levels over the default', () => {
+    const logger = createLogger({
+      level: 'warn',
+      moduleLevels: { EmailDeliveryWorker: 'debug', HTTP: 'error' },
+    });
+
+    logger.debug('Claimed 2 jobs', 'EmailDeliveryWorker');
+    logger.log('Queued', 'EmailService');
+    logger.warn('POST /api/email/send 503 2ms', 'HTTP');
+    logger.warn('Rate limited', 'EmailService');
+
+    expect(lines().map(({ message }) => message)).toEqual([
+      'Claimed 2 jobs',
+      'Rate limited',
+    ]);
+  });
+
+  it('leaves base64 content out of messages', () => {
+    const logger = createLogger();
+
+    logger.log(
+      'Rendered <img src="data:image/png;base64,iVBORw0KGgoAAAANSUhEUg==">',
+      'EmailService',
+    );
+    logger.log(
+      {
+        txnRefNo: 'Email-1',
+        attachment_files: [{ filename: 'a.pdf', base64: 'JVBERi0xLjQK' }],
+      },
+      'EmailService',
+    );
+
+    expect(lines().map(({ message }) => message)).toEqual([
+      'Rendered <img src="data:image/png;base64,[16 bytes]">',
+      {
+        txnRefNo: 'Email-1',
+        attachment_files: [{ filename: 'a.pdf', base64: '[base64, 9 bytes]' }],
+      },
+    ]);
+  });
+});
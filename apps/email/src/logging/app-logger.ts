@@ -0,0 +1,71 @@
+import { ConsoleLogger, type LogLevel } from '@nestjs/common';
+import { omitEncodedContent, redactValue } from '../audit/redaction';
+import { LOG_LEVELS, type LoggingConfig } from '../config/logging.config';
+import { currentLogContext } from './log-context';
+
+type JsonLogOptions = Parameters<ConsoleLogger['getJsonLogObject']>[1];
+
+/**
+ * Nest's console logger with per-logger levels, the request's correlation
+ * ids on every line, and base64 content left out, so an attachment that
+ * ends up in a message doesn't turn one line into megabytes.
+ */
+export class AppLogger extends ConsoleLogger {
+  constructor(private readonly config: LoggingConfig) {
+    const mostVerbose = Math.max(
+      ...[config.level, ...Object.values(config.moduleLevels)].map((level) =>
+        LOG_LEVELS.indexOf(level),
+      ),
+    );
+    super({
+      json: config.format === 'json',
+      logLevels: LOG_LEVELS.slice(0, mostVerbose + 1),
+    });
+  }
+
+  /** Whether a logger named `context` logs at `level`. */
+  isEnabledFor(context: string, level: LogLevel): boolean {
+    const threshold = this.config.moduleLevels[context] ?? this.config.level;
+    return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(threshold);
+  }
+
+  protected printMessages(
+    messages: unknown[],
+    context = '',
+    logLevel: LogLevel = 'log',
+    writeStreamType?: 'stdout' | 'stderr',
+    errorStack?: unknown,
+  ): void {
+    if (!this.isEnabledFor(context, logLevel)) {
+      return;
+    }
+    super.printMessages(
+      messages.map(withoutEncodedContent),
+      context,
+      logLevel,
+      writeStreamType,
+      errorStack,
+    );
+  }
+
+  protected getJsonLogObject(message: unknown, options: JsonLogOptions) {
+    return {
+      ...super.getJsonLogObject(message, options),
+      ...currentLogContext(),
+    };
+  }
+
+  protected formatContext(context: string): string {
+    const { txnRefNo, requestId } = currentLogContext() ?? {};
+    const ids = [txnRefNo, requestId].filter(Boolean).join(' ');
+    return super.formatContext(context) + (ids ? `(${ids}) ` : '');
+  }
+}
+
+/** Data URLs and `base64` fields are replaced by their size. */
+function withoutEncodedContent(message: unknown): unknown {
+  if (typeof message === 'string') {
+    return omitEncodedContent(message);
+  }
+  return message instanceof Error ? message : redactValue(message, []);
+}
@@ -0,0 +1,37 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { requestTxnRefNo } from '../audit/audit.interceptor';
+import type { AuthenticatedRequest } from '../auth/principal';
+import { extendLogContext, resumeLogContext } from './log-context';
+import { requestLogContext } from './request-context';
+
+/**
+ * Runs the handler in the request's log context and adds the txnRefNo to it
+ * once the request is routed. Multer hands the request back outside that
+ * context, so multipart routes apply this again after their file
+ * interceptor, which is also when their txnRefNo can be read.
+ */
+@Injectable()
+export class LogContextInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const logContext = requestLogContext(request);
+    if (!logContext) {
+      return next.handle();
+    }
+    return new Observable((subscriber) =>
+      resumeLogContext(logContext, () => {
+        const txnRefNo = requestTxnRefNo(request);
+        if (txnRefNo) {
+          extendLogContext({ txnRefNo });
+        }
+        return next.handle().subscribe(subscriber);
+      }),
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/** What ties a log line to a request and an email. */
+export interface LogContext {
+  /** From the caller's `X-Request-Id` header, or generated. */
+  requestId?: string;
+  txnRefNo?: string;
+}
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+/** Runs `fn` with `context` attached to everything it logs. */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return storage.run({ ...currentLogContext(), ...context }, fn);
+}
+
+/**
+ * Runs `fn` in `context` itself rather than a copy, so that what it adds is
+ * seen wherever else the context is in use.
+ */
+export function resumeLogContext<T>(context: LogContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+export function currentLogContext(): LogContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Adds to the current context, e.g. the txnRefNo once the request has been
+ * routed. Does nothing outside a context.
+ */
+export function extendLogContext(context: LogContext): void {
+  const store = storage.getStore();
+  if (store) {
+    Object.assign(store, context);
+  }
+}
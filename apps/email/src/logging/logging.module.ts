@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { loggingConfig } from '../config/logging.config';
+import { LogContextInterceptor } from './log-context.interceptor';
+
+@Module({
+  imports: [ConfigModule.forFeature(loggingConfig)],
+  providers: [{ provide: APP_INTERCEPTOR, useClass: LogContextInterceptor }],
+})
+export class LoggingModule {}
@@ -0,0 +1,205 @@
+import { Logger } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import type { NestExpressApplication } from '@nestjs/platform-express';
+import { Test } from '@nestjs/testing';
+import type { NextFunction, Response } from 'express';
+import type { Server } from 'node:http';
+import { request, type IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { AuthenticatedRequest } from '../auth/principal';
+import { attachmentsConfig } from '../config/attachments.config';
+import { httpConfig } from '../config/http.config';
+import { EmailMultipartParser } from '../email/email-multipart.parser';
+import { EmailController } from '../email/email.controller';
+import { EmailService } from '../email/email.service';
+import { configureBodyParsers } from '../http/body-parsers';
+import { AppLogger } from './app-logger';
+import { LogContextInterceptor } from './log-context.interceptor';
+import { requestContext } from './request-context';
+
+const BOUNDARY = 'request-context-spec';
+
+function multipartBody(fields: Record<string, string>): string {
+  return (
+    Object.entries(fields)
+      .map(
+        ([name, value]) =>
+          `--${BOUNDARY}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`,
+      )
+      .join('') + `--${BOUNDARY}--\r\n`
+  );
+}
+
+/**
+ * Posts a body a moment after the headers, the way a browser's upload
+ * arrives, so it is read after the middleware has run.
+ */
+function post(
+  server: Server,
+  path: string,
+  contentType: string,
+  body: string,
+): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const outgoing = request(
+      {
+        port: (server.address() as AddressInfo).port,
+        method: 'POST',
+        path,
+        headers: {
+          'Content-Type': contentType,
+          'Content-Length': Buffer.byteLength(body),
+          'X-Request-Id': 'req-1',
+        },
+      },
+      (response) => {
+        response.resume();
+        response.once('end', () => resolve(response));
+      },
+    );
+    outgoing.once('error', reject);
+    outgoing.flushHeaders();
+    setTimeout(() => outgoing.end(body), 20);
+  });
+}
+
+const sendBody = JSON.stringify({
+  txnRefNo: 'Email-1',
+  source: 'Testing',
+  payload: { from: 'noreply@example.com', subject: 'Hi', to: 'a@x.com' },
+  additionalInfo: { template_id: 1, isText: false },
+});
+
+describe('requestContext', () => {
+  let app: NestExpressApplication;
+  let output: string[];
+
+  const lines = () =>
+    output.map((line) => JSON.parse(line) as Record<string, unknown>);
+
+  beforeEach(async () => {
+    output = [];
+    jest.spyOn(process.stdout, 'write').mockImplementation((chunk) => {
+      output.push(String(chunk));
+      return true;
+    });
+
+    const logger = new Logger('EmailService');
+    const module = await Test.createTestingModule({
+      controllers: [EmailController],
+      providers: [
+        { provide: APP_INTERCEPTOR, useClass: LogContextInterceptor },
+        EmailMultipartParser,
+        { provide: attachmentsConfig.KEY, useValue: attachmentsConfig() },
+        { provide: httpConfig.KEY, useValue: httpConfig() },
+        {
+          provide: EmailService,
+          useValue: {
+            send: ({ txnRefNo }: { txnRefNo: string }) => {
+              logger.log('Queued');
+              return Promise.resolve({ accepted: true, txnRefNo });
+            },
+          },
+        },
+      ],
+    }).compile();
+
+    app = module.createNestApplication<NestExpressApplication>({
+      bodyParser: false,
+    });
+    app.useLogger(
+      new AppLogger({ format: 'json', level: 'log', moduleLevels: {} }),
+    );
+    app.use(requestContext());
+    configureBodyParsers(app, httpConfig());
+    app.use(
+      (
+        request: AuthenticatedRequest,
+        _response: Response,
+        next: NextFunction,
+      ) => {
+        request.principal = { kind: 'admin' };
+        next();
+      },
+    );
+    app.setGlobalPrefix('api');
+    await app.listen(0, '127.0.0.1');
+  });
+
+  afterEach(async () => {
+    await app.close();
+    jest.restoreAllMocks();
+  });
+
+  const expectLogged = (
+    line: string,
+    context: Record<string, string>,
+    queued = true,
+  ) => {
+    const expected: unknown[] = [
+      expect.objectContaining({
+        context: 'HTTP',
+        message: expect.stringMatching(new RegExp(`^${line} `)) as unknown,
+        ...context,
+      }),
+    ];
+    if (queued) {
+      expected.push(
+        expect.objectContaining({
+          context: 'EmailService',
+          message: 'Queued',
+          ...context,
+        }),
+      );
+    }
+    expect(lines()).toEqual(expect.arrayContaining(expected));
+  };
+
+  it('keeps the correlation ids through JSON parsing', async () => {
+    const response = await post(
+      app.getHttpServer(),
+      '/api/email/send',
+      'application/json',
+      sendBody,
+    );
+
+    expect(response.statusCode).toBe(202);
+    expectLogged('POST /api/email/send 202', {
+      requestId: 'req-1',
+      txnRefNo: 'Email-1',
+    });
+  });
+
+  it('keeps the correlation ids through multipart parsing', async () => {
+    const response = await post(
+      app.getHttpServer(),
+      '/api/email/send/multipart',
+      `multipart/form-data; boundary=${BOUNDARY}`,
+      multipartBody({ payload: sendBody }),
+    );
+
+    expect(response.statusCode).toBe(202);
+    expect(response.headers['x-request-id']).toBe('req-1');
+    expectLogged('POST /api/email/send/multipart 202', {
+      requestId: 'req-1',
+      txnRefNo: 'Email-1',
+    });
+  });
+
+  it('gives requests the body parsers reject an id', async () => {
+    const response = await post(
+      app.getHttpServer(),
+      '/api/email/Email-1/cancel',
+      'application/json',
+      JSON.stringify({ reason: 'x'.repeat(200 * 1024) }),
+    );
+
+    expect(response.statusCode).toBe(413);
+    expect(response.headers['x-request-id']).toBe('req-1');
+    expectLogged(
+      'POST /api/email/Email-1/cancel 413',
+      { requestId: 'req-1' },
+      false,
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { Logger } from '@nestjs/common';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import { randomUUID } from 'node:crypto';
+import {
+  currentLogContext,
+  runWithLogContext,
+  type LogContext,
+} from './log-context';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/** Caller-supplied ids are used as-is only if they look like an id. */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/** Probes and scrapes are logged at debug, so they don't drown the rest. */
+const QUIET_PATHS = ['/api/health/', '/api/metrics'];
+
+const requestLogContexts = new WeakMap<Request, LogContext>();
+
+/**
+ * Gives each request an id, taken from the web app's `X-Request-Id` header
+ * or generated, and echoed back. Everything logged while handling the
+ * request carries it, and one line is logged when the response is sent.
+ */
+export function requestContext(): RequestHandler {
+  const logger = new Logger('HTTP');
+  return (request: Request, response: Response, next: NextFunction) => {
+    const header = request.get(REQUEST_ID_HEADER);
+    const requestId =
+      header && REQUEST_ID_PATTERN.test(header) ? header : randomUUID();
+    response.setHeader(REQUEST_ID_HEADER, requestId);
+
+    const startedAt = Date.now();
+    runWithLogContext({ requestId }, () => {
+      // The txnRefNo is added to this context later, once the route is known.
+      const context = currentLogContext();
+      if (context) {
+        requestLogContexts.set(request, context);
+      }
+      response.once('finish', () => {
+        runWithLogContext({ ...context }, () =>
+          logResponse(logger, request, response.statusCode, startedAt),
+        );
+      });
+      next();
+    });
+  };
+}
+
+/**
+ * The log context `requestContext()` opened for `request`. Code that runs in
+ * a callback from outside the request, e.g. multer's once the parts are
+ * read, has to re-enter it.
+ */
+export function requestLogContext(request: Request): LogContext | undefined {
+  return requestLogContexts.get(request);
+}
+
+function logResponse(
+  logger: Logger,
+  request: Request,
+  statusCode: number,
+  startedAt: number,
+) {
+  const line = `${request.method} ${request.path} ${statusCode} ${Date.now() - startedAt}ms`;
+  if (statusCode >= 500) {
+    logger.warn(line);
+  } else if (
+    statusCode < 400 &&
+    QUIET_PATHS.some((path) => request.path.startsWith(path))
+  ) {
+    logger.debug(line);
+  } else {
+    logger.log(line);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { smtpConfig } from '../config/smtp.config';
+import { MailTransportService } from './mail-transport.service';
+
+@Module({
+  imports: [ConfigModule.forFeature(smtpConfig)],
+  providers: [MailTransportService],
+  exports: [MailTransportService],
+})
+export class MailTransportModule {}
@@ -0,0 +1,61 @@
+import { createTransport } from 'nodemailer';
+import { SmtpConfig } from '../config/smtp.config';
+import { MailTransportService } from './mail-transport.service';
+
+jest.mock('nodemailer', () => ({
+  createTransport: jest.fn(() => ({ sendMail: jest.fn(), close: jest.fn() })),
+}));
+
+const baseConfig: SmtpConfig = {
+  host: 'localhost',
+  port: 1025,
+  secure: false,
+  requireTLS: false,
+  ignoreTLS: false,
+  rejectUnauthorized: true,
+  user: undefined,
+  pass: undefined,
+  pool: false,
+  maxConnections: 5,
+  maxMessages: 100,
+  connectionTimeout: 10_000,
+};
+
+describe('MailTransportService', () => {
+  const createTransportMock = createTransport as jest.Mock;
+
+  beforeEach(() => createTransportMock.mockClear());
+
+  it('defaults to an unauthenticated single connection', () => {
+    new MailTransportService(baseConfig);
+
+    expect(createTransportMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        host: 'localhost',
+        port: 1025,
+        auth: undefined,
+      }),
+    );
+    expect(createTransportMock).toHaveBeenCalledWith(
+      expect.not.objectContaining({ pool: true }),
+    );
+  });
+
+  it('enables auth and pooling when configured', () => {
+    new MailTransportService({
+      ...baseConfig,
+      user: 'relay',
+      pass: 'secret',
+      pool: true,
+    });
+
+    expect(createTransportMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        auth: { user: 'relay', pass: 'secret' },
+        pool: true,
+        maxConnections: 5,
+        maxMessages: 100,
+      }),
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import { Inject, Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { createTransport, Transporter } from 'nodemailer';
+import type { Options as MailOptions } from 'nodemailer/lib/mailer';
+import type SMTPPool from 'nodemailer/lib/smtp-pool';
+import type SMTPTransport from 'nodemailer/lib/smtp-transport';
+import { smtpConfig, type SmtpConfig } from '../config/smtp.config';
+
+@Injectable()
+export class MailTransportService implements OnModuleDestroy {
+  private readonly logger = new Logger(MailTransportService.name);
+  private readonly transporter: Transporter<SMTPTransport.SentMessageInfo>;
+
+  constructor(@Inject(smtpConfig.KEY) private readonly config: SmtpConfig) {
+    this.transporter = createTransport(this.toTransportOptions());
+    this.logger.log(
+      `SMTP transport targeting ${config.host}:${config.port}` +
+        (config.pool ? ` (pool of ${config.maxConnections})` : ''),
+    );
+  }
+
+  sendMail(message: MailOptions): Promise<SMTPTransport.SentMessageInfo> {
+    return this.transporter.sendMail(message);
+  }
+
+  verify(): Promise<true> {
+    return this.transporter.verify();
+  }
+
+  onModuleDestroy() {
+    this.transporter.close();
+  }
+
+  private toTransportOptions(): SMTPTransport.Options | SMTPPool.Options {
+    const { config } = this;
+    const options: SMTPTransport.Options = {
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      requireTLS: config.requireTLS,
+      ignoreTLS: config.ignoreTLS,
+      connectionTimeout: config.connectionTimeout,
+      tls: { rejectUnauthorized: config.rejectUnauthorized },
+      auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+    };
+
+    if (!config.pool) {
+      return options;
+    }
+
+    return {
+      ...options,
+      pool: true,
+      maxConnections: config.maxConnections,
+      maxMessages: config.maxMessages,
+    };
+  }
+}
@@ -0,0 +1,29 @@
+export interface DeliveryFailure {
+  code: string | null;
+  message: string;
+  /** 5xx replies will fail the same way again, so they are not retried. */
+  permanent: boolean;
+}
+
+interface NodemailerError extends Error {
+  code?: string;
+  responseCode?: number;
+  response?: string;
+}
+
+/**
+ * Normalises a nodemailer error into the code/message pair we persist. SMTP
+ * reply codes (e.g. 550) win over nodemailer's own codes (e.g. ECONNECTION).
+ */
+export function toDeliveryFailure(error: unknown): DeliveryFailure {
+  if (!(error instanceof Error)) {
+    return { code: null, message: String(error), permanent: false };
+  }
+
+  const { code, responseCode, response } = error as NodemailerError;
+  return {
+    code: responseCode ? String(responseCode) : (code ?? null),
+    message: response ?? error.message,
+    permanent: !!responseCode && responseCode >= 500 && responseCode < 600,
+  };
+}
@@ -1,8 +1,25 @@
+import { ValidationPipe } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
+import type { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
+import { httpConfig, type HttpConfig } from './config/http.config';
+import { loggingConfig, type LoggingConfig } from './config/logging.config';
+import { configureBodyParsers } from './http/body-parsers';
+import { AppLogger } from './logging/app-logger';
+import { REQUEST_ID_HEADER, requestContext } from './logging/request-context';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    bodyParser: false,
+    bufferLogs: true,
+  });
+  app.useLogger(new AppLogger(app.get<LoggingConfig>(loggingConfig.KEY)));
+  app.use(requestContext());
+  configureBodyParsers(app, app.get<HttpConfig>(httpConfig.KEY));
+  app.setGlobalPrefix('api');
+  app.enableCors({ exposedHeaders: [REQUEST_ID_HEADER] });
+  app.enableShutdownHooks();
+  app.useGlobalPipes(new ValidationPipe({ whitelist: true, transform: true }));
   await app.listen(process.env.PORT ?? 3000);
 }
 bootstrap();
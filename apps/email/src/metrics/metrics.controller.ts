@@ -0,0 +1,33 @@
+import {
+  Controller,
+  Get,
+  Header,
+  Inject,
+  NotFoundException,
+} from '@nestjs/common';
+import { contentType } from 'prom-client';
+import { Public } from '../auth/auth.decorators';
+import { metricsConfig, type MetricsConfig } from '../config/metrics.config';
+import { MetricsService } from './metrics.service';
+
+/**
+ * The Prometheus scrape target. It needs no API key, so keep it reachable
+ * from the monitoring network only.
+ */
+@Controller('metrics')
+@Public()
+export class MetricsController {
+  constructor(
+    private readonly metrics: MetricsService,
+    @Inject(metricsConfig.KEY) private readonly config: MetricsConfig,
+  ) {}
+
+  @Get()
+  @Header('Content-Type', contentType)
+  scrape(): Promise<string> {
+    if (!this.config.enabled) {
+      throw new NotFoundException();
+    }
+    return this.metrics.render();
+  }
+}
@@ -0,0 +1,70 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Response } from 'express';
+import { Observable, tap } from 'rxjs';
+import { requestSource } from '../audit/audit.interceptor';
+import { AUDIT_ACTION_KEY } from '../audit/audited.decorator';
+import type { AuthenticatedRequest } from '../auth/principal';
+import { MetricsService, type RequestOutcome } from './metrics.service';
+
+/**
+ * Counts calls to `@Audited()` routes, the API's actions, by source and
+ * outcome once their response is finished. Requests turned away by the API
+ * key guard never get here, and have no trustworthy source anyway.
+ */
+@Injectable()
+export class MetricsInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly metrics: MetricsService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const action = this.reflector.get<string | undefined>(
+      AUDIT_ACTION_KEY,
+      context.getHandler(),
+    );
+    if (!action) {
+      return next.handle();
+    }
+
+    const http = context.switchToHttp();
+    const request = http.getRequest<AuthenticatedRequest>();
+    const response = http.getResponse<Response>();
+    let result: unknown;
+    response.once('close', () => {
+      this.metrics.recordRequest(
+        action,
+        requestSource(request) ?? 'none',
+        requestOutcome(response.statusCode, result),
+      );
+    });
+    return next.handle().pipe(
+      tap((value: unknown) => {
+        result = value;
+      }),
+    );
+  }
+}
+
+export function requestOutcome(
+  statusCode: number,
+  result: unknown,
+): RequestOutcome {
+  if (statusCode < 400) {
+    const duplicate =
+      typeof result === 'object' &&
+      result !== null &&
+      (result as { duplicate?: unknown }).duplicate === true;
+    return duplicate ? 'duplicate' : 'accepted';
+  }
+  if (statusCode === 429) {
+    return 'rate_limited';
+  }
+  return statusCode < 500 ? 'rejected' : 'error';
+}
@@ -0,0 +1,71 @@
+import { MetricsConfig } from '../config/metrics.config';
+import { requestOutcome } from './metrics.interceptor';
+import { MetricsService } from './metrics.service';
+
+describe('MetricsService', () => {
+  let metrics: MetricsService;
+
+  beforeEach(() => {
+    metrics = new MetricsService({
+      enabled: true,
+      processMetrics: false,
+    } as MetricsConfig);
+  });
+
+  it('reads the queue gauges from the backlog when scraped', async () => {
+    const backlog = jest.fn().mockResolvedValue({
+      due: 7,
+      oldestDueAt: new Date(Date.now() - 90_000),
+      processing: 2,
+    });
+    metrics.trackQueue(backlog);
+
+    const text = await metrics.render();
+
+    expect(backlog).toHaveBeenCalledTimes(1);
+    expect(text).toContain('email_queue_depth{state="due"} 7');
+    expect(text).toContain('email_queue_depth{state="processing"} 2');
+    expect(text).toMatch(/email_queue_lag_seconds 9\d/);
+  });
+
+  it('still answers the scrape when the backlog cannot be read', async () => {
+    metrics.trackQueue(() => Promise.reject(new Error('connection lost')));
+    metrics.recordDeadLetter('Testing');
+
+    const text = await metrics.render();
+
+    expect(text).toContain('email_dead_letters_total{source="Testing"} 1');
+  });
+
+  it('counts SMTP reply codes and times sends by outcome', async () => {
+    metrics.recordSend(0.2, true, '250');
+    metrics.recordSend(1.5, false, '421');
+    metrics.recordSend(30, false, null);
+
+    const text = await metrics.render();
+
+    expect(text).toContain('email_smtp_responses_total{code="250"} 1');
+    expect(text).toContain('email_smtp_responses_total{code="421"} 1');
+    expect(text).toContain('email_smtp_responses_total{code="unknown"} 1');
+    expect(text).toContain(
+      'email_send_duration_seconds_bucket{le="0.25",outcome="sent"} 1',
+    );
+    expect(text).toContain(
+      'email_send_duration_seconds_count{outcome="failed"} 2',
+    );
+  });
+});
+
+describe('requestOutcome', () => {
+  it.each([
+    [202, 'accepted', { duplicate: false }],
+    [200, 'duplicate', { duplicate: true }],
+    [204, 'accepted', undefined],
+    [400, 'rejected', undefined],
+    [403, 'rejected', undefined],
+    [429, 'rate_limited', undefined],
+    [503, 'error', undefined],
+  ])('maps %d to %s', (statusCode, outcome, result) => {
+    expect(requestOutcome(statusCode, result)).toBe(outcome);
+  });
+});
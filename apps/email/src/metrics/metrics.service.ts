@@ -0,0 +1,175 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from 'prom-client';
+import { metricsConfig, type MetricsConfig } from '../config/metrics.config';
+import type { QueueBacklog } from '../email/email-queue.service';
+
+/** How an API request ended, from the caller's point of view. */
+export type RequestOutcome =
+  | 'accepted'
+  | 'duplicate'
+  | 'rejected'
+  | 'rate_limited'
+  | 'error';
+
+export type AttachmentKind = 'attachment' | 'inline_image';
+
+/**
+ * The service's Prometheus metrics, kept in a registry of its own. Queue
+ * gauges are read from the database when scraped rather than kept up to
+ * date, so every instance reports the same shared queue.
+ */
+@Injectable()
+export class MetricsService {
+  readonly registry = new Registry();
+  private readonly logger = new Logger(MetricsService.name);
+  private backlog?: () => Promise<QueueBacklog>;
+  private pendingBacklog?: Promise<QueueBacklog | null>;
+
+  private readonly requests = new Counter({
+    name: 'email_requests_total',
+    help: 'API requests by action, source and outcome.',
+    labelNames: ['action', 'source', 'outcome'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly sendDuration = new Histogram({
+    name: 'email_send_duration_seconds',
+    help: 'Time taken by the SMTP relay to take or refuse an email.',
+    labelNames: ['outcome'] as const,
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+    registers: [this.registry],
+  });
+
+  private readonly deliveryLatency = new Histogram({
+    name: 'email_delivery_latency_seconds',
+    help: 'Time from acceptance (or the scheduled time) to handing the email to the relay.',
+    buckets: [1, 5, 15, 30, 60, 300, 900, 1800, 3600, 21600, 86400],
+    registers: [this.registry],
+  });
+
+  private readonly smtpResponses = new Counter({
+    name: 'email_smtp_responses_total',
+    help: 'SMTP reply codes from the relay, or the connection error code.',
+    labelNames: ['code'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly attachmentSize = new Histogram({
+    name: 'email_attachment_size_bytes',
+    help: 'Decoded size of each attachment and inline image sent.',
+    labelNames: ['kind'] as const,
+    buckets: [
+      1_024, 10_240, 102_400, 524_288, 1_048_576, 5_242_880, 10_485_760,
+      26_214_400,
+    ],
+    registers: [this.registry],
+  });
+
+  private readonly retries = new Counter({
+    name: 'email_retries_total',
+    help: 'Failed delivery attempts that were scheduled to be retried.',
+    labelNames: ['source'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly deadLetters = new Counter({
+    name: 'email_dead_letters_total',
+    help: 'Emails given up on after a permanent error or too many attempts.',
+    labelNames: ['source'] as const,
+    registers: [this.registry],
+  });
+
+  constructor(@Inject(metricsConfig.KEY) config: MetricsConfig) {
+    // Both gauges share one read of the backlog per scrape. A failed read
+    // keeps the last values rather than failing the scrape.
+    const queueDepth = new Gauge({
+      name: 'email_queue_depth',
+      help: 'Jobs due to be sent and jobs being sent, across all workers.',
+      labelNames: ['state'] as const,
+      registers: [this.registry],
+      collect: async () => {
+        const backlog = await this.readBacklog();
+        if (backlog) {
+          queueDepth.set({ state: 'due' }, backlog.due);
+          queueDepth.set({ state: 'processing' }, backlog.processing);
+        }
+      },
+    });
+    const queueLag = new Gauge({
+      name: 'email_queue_lag_seconds',
+      help: 'How long the oldest due job has been waiting.',
+      registers: [this.registry],
+      collect: async () => {
+        const backlog = await this.readBacklog();
+        if (backlog) {
+          const { oldestDueAt } = backlog;
+          queueLag.set(
+            oldestDueAt
+              ? Math.max(0, Date.now() - oldestDueAt.getTime()) / 1_000
+              : 0,
+          );
+        }
+      },
+    });
+    if (config.processMetrics) {
+      collectDefaultMetrics({ register: this.registry });
+    }
+  }
+
+  /** Where the queue gauges are read from when scraped. */
+  trackQueue(backlog: () => Promise<QueueBacklog>): void {
+    this.backlog = backlog;
+  }
+
+  private readBacklog(): Promise<QueueBacklog | null> {
+    if (!this.backlog) {
+      return Promise.resolve(null);
+    }
+    this.pendingBacklog ??= this.backlog()
+      .catch((error) => {
+        this.logger.warn(`Could not read the queue backlog: ${String(error)}`);
+        return null;
+      })
+      .finally(() => {
+        this.pendingBacklog = undefined;
+      });
+    return this.pendingBacklog;
+  }
+
+  recordRequest(action: string, source: string, outcome: RequestOutcome) {
+    this.requests.inc({ action, source, outcome });
+  }
+
+  /** `code` is the relay's reply code, or e.g. `ECONNECTION`. */
+  recordSend(seconds: number, sent: boolean, code: string | null) {
+    this.sendDuration.observe({ outcome: sent ? 'sent' : 'failed' }, seconds);
+    this.smtpResponses.inc({ code: code ?? 'unknown' });
+  }
+
+  recordDeliveryLatency(seconds: number) {
+    this.deliveryLatency.observe(Math.max(0, seconds));
+  }
+
+  recordAttachment(kind: AttachmentKind, bytes: number) {
+    this.attachmentSize.observe({ kind }, bytes);
+  }
+
+  recordRetry(source: string) {
+    this.retries.inc({ source });
+  }
+
+  recordDeadLetter(source: string) {
+    this.deadLetters.inc({ source });
+  }
+
+  /** The text exposition format Prometheus scrapes. */
+  render(): Promise<string> {
+    return this.registry.metrics();
+  }
+}
@@ -0,0 +1,36 @@
+import { Column, Entity, Index, PrimaryColumn } from 'typeorm';
+
+/**
+ * Usage of one source within one fixed window. Counters live in Postgres so
+ * every instance shares them and they survive restarts.
+ */
+@Entity({ name: 'email_rate_counters' })
+@Index('IDX_email_rate_counters_expires_at', ['expiresAt'])
+export class RateCounter {
+  @PrimaryColumn({
+    type: 'varchar',
+    length: 128,
+    primaryKeyConstraintName: 'PK_email_rate_counters',
+  })
+  source: string;
+
+  @PrimaryColumn({
+    type: 'varchar',
+    length: 16,
+    primaryKeyConstraintName: 'PK_email_rate_counters',
+  })
+  window: string;
+
+  @PrimaryColumn({
+    name: 'window_start',
+    type: 'timestamptz',
+    primaryKeyConstraintName: 'PK_email_rate_counters',
+  })
+  windowStart: Date;
+
+  @Column({ name: 'expires_at', type: 'timestamptz' })
+  expiresAt: Date;
+
+  @Column({ type: 'integer', default: 0 })
+  count: number;
+}
@@ -0,0 +1,21 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class RateLimitExceededException extends HttpException {
+  constructor(
+    message: string,
+    /** Seconds until the window resets and the request may succeed. */
+    readonly retryAfterSeconds: number,
+    limit: { name: string; limit: number; window: string },
+  ) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        error: 'Too Many Requests',
+        message,
+        limit,
+        retryAfterSeconds,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
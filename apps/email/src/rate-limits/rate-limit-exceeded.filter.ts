@@ -0,0 +1,16 @@
+import { ArgumentsHost, Catch } from '@nestjs/common';
+import { BaseExceptionFilter } from '@nestjs/core';
+import type { Response } from 'express';
+import { RateLimitExceededException } from './rate-limit-exceeded.exception';
+
+/** Adds the standard Retry-After header to 429 responses. */
+@Catch(RateLimitExceededException)
+export class RateLimitExceededFilter extends BaseExceptionFilter {
+  catch(exception: RateLimitExceededException, host: ArgumentsHost): void {
+    host
+      .switchToHttp()
+      .getResponse<Response>()
+      .setHeader('Retry-After', String(exception.retryAfterSeconds));
+    super.catch(exception, host);
+  }
+}
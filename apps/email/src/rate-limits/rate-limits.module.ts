@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { APP_FILTER } from '@nestjs/core';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { rateLimitsConfig } from '../config/rate-limits.config';
+import { RateCounter } from './entities/rate-counter.entity';
+import { RateLimitExceededFilter } from './rate-limit-exceeded.filter';
+import { RateLimitsService } from './rate-limits.service';
+
+@Module({
+  imports: [
+    ConfigModule.forFeature(rateLimitsConfig),
+    TypeOrmModule.forFeature([RateCounter]),
+  ],
+  providers: [
+    RateLimitsService,
+    { provide: APP_FILTER, useClass: RateLimitExceededFilter },
+  ],
+  exports: [RateLimitsService],
+})
+export class RateLimitsModule {}
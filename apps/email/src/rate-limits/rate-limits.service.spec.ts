@@ -0,0 +1,92 @@
+import { BadRequestException } from '@nestjs/common';
+import { DataSource, EntityManager } from 'typeorm';
+import { RateLimitsConfig } from '../config/rate-limits.config';
+import { RateLimitExceededException } from './rate-limit-exceeded.exception';
+import { RateLimitsService } from './rate-limits.service';
+
+describe('RateLimitsService', () => {
+  const manager = { query: jest.fn() };
+  const dataSource = {
+    manager,
+    query: jest.fn(),
+  } as unknown as DataSource;
+  const service = new RateLimitsService(dataSource, {
+    defaults: {
+      requestsPerSecond: 5,
+      recipientsPerHour: 100,
+      recipientsPerDay: 0,
+    },
+    sources: { Bulk: { recipientsPerHour: 1_000 } },
+  } as RateLimitsConfig);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2026-01-01T10:59:30Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('counts requests within the current one-second window', async () => {
+    manager.query.mockResolvedValue([{ count: 1 }]);
+
+    await service.consumeRequest('Testing');
+
+    expect(manager.query).toHaveBeenCalledWith(expect.anything(), [
+      'Testing',
+      'second',
+      new Date('2026-01-01T10:59:30Z'),
+      new Date('2026-01-01T10:59:31Z'),
+      1,
+      5,
+    ]);
+  });
+
+  it('rejects once a window is full, saying when it resets', async () => {
+    manager.query.mockResolvedValue([]);
+
+    const result = service.consumeRecipients(
+      manager as unknown as EntityManager,
+      'Testing',
+      3,
+    );
+
+    await expect(result).rejects.toBeInstanceOf(RateLimitExceededException);
+    await expect(result).rejects.toMatchObject({
+      retryAfterSeconds: 30,
+      response: {
+        statusCode: 429,
+        limit: { name: 'recipientsPerHour', limit: 100, window: 'hour' },
+      },
+    });
+  });
+
+  it('applies per-source overrides and skips disabled limits', async () => {
+    manager.query.mockResolvedValue([{ count: 500 }]);
+
+    await service.consumeRecipients(
+      manager as unknown as EntityManager,
+      'Bulk',
+      500,
+    );
+
+    // The hourly quota is raised for Bulk and the daily one is disabled.
+    expect(manager.query).toHaveBeenCalledTimes(1);
+    expect(manager.query).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.arrayContaining(['Bulk', 'hour', 500, 1_000]),
+    );
+  });
+
+  it('refuses emails that could never fit the quota', async () => {
+    await expect(
+      service.consumeRecipients(
+        manager as unknown as EntityManager,
+        'Testing',
+        101,
+      ),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(manager.query).not.toHaveBeenCalled();
+  });
+});
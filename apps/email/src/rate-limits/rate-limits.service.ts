@@ -0,0 +1,134 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { DataSource, EntityManager } from 'typeorm';
+import {
+  rateLimitsConfig,
+  type RateLimits,
+  type RateLimitsConfig,
+} from '../config/rate-limits.config';
+import { RateLimitExceededException } from './rate-limit-exceeded.exception';
+
+type RateWindow = 'second' | 'hour' | 'day';
+
+const WINDOW_SECONDS: Record<RateWindow, number> = {
+  second: 1,
+  hour: 60 * 60,
+  day: 24 * 60 * 60,
+};
+
+/** Expired counters are cleared out at most this often per instance. */
+const PURGE_INTERVAL_MS = 60_000;
+
+/**
+ * Fixed-window rate limits per source, counted in Postgres. A counter is only
+ * incremented while it stays within its limit, so rejected requests don't
+ * use up quota.
+ */
+@Injectable()
+export class RateLimitsService {
+  private lastPurgeAt = 0;
+
+  constructor(
+    private readonly dataSource: DataSource,
+    @Inject(rateLimitsConfig.KEY) private readonly config: RateLimitsConfig,
+  ) {}
+
+  limitsFor(source: string): RateLimits {
+    return { ...this.config.defaults, ...this.config.sources[source] };
+  }
+
+  /**
+   * Counts a request against the source's requests-per-second limit. Pass
+   * the transaction that accepts the request to count only accepted ones.
+   */
+  async consumeRequest(
+    source: string,
+    manager: EntityManager = this.dataSource.manager,
+  ): Promise<void> {
+    const { requestsPerSecond } = this.limitsFor(source);
+    await this.purgeExpired();
+    await this.consume(manager, source, {
+      name: 'requestsPerSecond',
+      window: 'second',
+      amount: 1,
+      limit: requestsPerSecond,
+    });
+  }
+
+  /**
+   * Counts an email's recipients against the hourly and daily quotas. Run it
+   * in the transaction that accepts the email, so a rejection or rollback
+   * leaves the counters untouched.
+   */
+  async consumeRecipients(
+    manager: EntityManager,
+    source: string,
+    recipients: number,
+  ): Promise<void> {
+    const { recipientsPerHour, recipientsPerDay } = this.limitsFor(source);
+    await this.consume(manager, source, {
+      name: 'recipientsPerHour',
+      window: 'hour',
+      amount: recipients,
+      limit: recipientsPerHour,
+    });
+    await this.consume(manager, source, {
+      name: 'recipientsPerDay',
+      window: 'day',
+      amount: recipients,
+      limit: recipientsPerDay,
+    });
+  }
+
+  private async consume(
+    manager: EntityManager,
+    source: string,
+    usage: { name: string; window: RateWindow; amount: number; limit: number },
+  ): Promise<void> {
+    const { name, window, amount, limit } = usage;
+    if (limit <= 0 || amount <= 0) {
+      return;
+    }
+    if (amount > limit) {
+      throw new BadRequestException(
+        `An email with ${amount} recipients can never fit the ${name} limit of ${limit} for source ${source}`,
+      );
+    }
+
+    const length = WINDOW_SECONDS[window] * 1000;
+    const now = Date.now();
+    const windowStart = new Date(Math.floor(now / length) * length);
+    const expiresAt = new Date(windowStart.getTime() + length);
+
+    const rows: unknown[] = await manager.query(
+      `INSERT INTO "email_rate_counters"
+         ("source", "window", "window_start", "expires_at", "count")
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT ("source", "window", "window_start") DO UPDATE SET
+         "count" = "email_rate_counters"."count" + EXCLUDED."count"
+       WHERE "email_rate_counters"."count" + EXCLUDED."count" <= $6
+       RETURNING "count"`,
+      [source, window, windowStart, expiresAt, amount, limit],
+    );
+    if (rows.length === 0) {
+      const retryAfterSeconds = Math.max(
+        1,
+        Math.ceil((expiresAt.getTime() - now) / 1000),
+      );
+      throw new RateLimitExceededException(
+        `Source ${source} has reached its ${name} limit of ${limit}`,
+        retryAfterSeconds,
+        { name, limit, window },
+      );
+    }
+  }
+
+  private async purgeExpired(): Promise<void> {
+    if (Date.now() - this.lastPurgeAt < PURGE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPurgeAt = Date.now();
+    await this.dataSource.query(
+      `DELETE FROM "email_rate_counters" WHERE "expires_at" < now()`,
+    );
+  }
+}
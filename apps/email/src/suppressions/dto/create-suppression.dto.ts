@@ -0,0 +1,32 @@
+import {
+  IsEmail,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { SuppressionReason } from '../entities/email-suppression.entity';
+
+export class CreateSuppressionDto {
+  @IsEmail()
+  @MaxLength(320)
+  email: string;
+
+  /** Leave out to suppress the address for every source (admin only). */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(128)
+  source?: string;
+
+  /** Defaults to `manual`. */
+  @IsOptional()
+  @IsEnum(SuppressionReason)
+  reason?: SuppressionReason;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  detail?: string;
+}
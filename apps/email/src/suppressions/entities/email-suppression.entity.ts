@@ -0,0 +1,45 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+export enum SuppressionReason {
+  Unsubscribed = 'unsubscribed',
+  HardBounce = 'hard-bounce',
+  Manual = 'manual',
+}
+
+/**
+ * An address no email may be sent to, either from one source or, when
+ * `source` is null, from any. Addresses are stored lower-cased.
+ */
+@Entity({ name: 'email_suppressions' })
+// Unique on (email, COALESCE(source, '')) so there is one global entry per
+// address too; TypeORM can't describe the expression, so it is left alone.
+@Index('UQ_email_suppressions_email_source', { synchronize: false })
+export class EmailSuppression {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 320 })
+  email: string;
+
+  @Column({ type: 'varchar', length: 128, nullable: true })
+  source: string | null;
+
+  @Column({ type: 'varchar', length: 32 })
+  reason: SuppressionReason;
+
+  @Column({ type: 'text', nullable: true })
+  detail: string | null;
+
+  /** Who added the entry, e.g. `admin` or `one-click unsubscribe`. */
+  @Column({ type: 'varchar', length: 256, nullable: true })
+  actor: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+}
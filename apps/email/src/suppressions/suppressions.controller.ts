@@ -0,0 +1,84 @@
+import {
+  Body,
+  Controller,
+  DefaultValuePipe,
+  Delete,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { Audited } from '../audit/audited.decorator';
+import { CurrentPrincipal } from '../auth/auth.decorators';
+import {
+  assertSourceAccess,
+  describePrincipal,
+  sourceScope,
+  type Principal,
+} from '../auth/principal';
+import { CreateSuppressionDto } from './dto/create-suppression.dto';
+import {
+  EmailSuppression,
+  SuppressionReason,
+} from './entities/email-suppression.entity';
+import { SuppressionsService } from './suppressions.service';
+
+/**
+ * Sources manage their own entries and can see the global ones; only the
+ * admin token can add or remove global entries.
+ */
+@Controller('suppressions')
+export class SuppressionsController {
+  constructor(private readonly suppressionsService: SuppressionsService) {}
+
+  @Get()
+  findAll(
+    @Query('limit', new DefaultValuePipe(100), ParseIntPipe) limit: number,
+    @CurrentPrincipal() principal: Principal,
+    @Query('email') email?: string,
+    @Query('source') source?: string,
+  ): Promise<EmailSuppression[]> {
+    return this.suppressionsService.findAll(
+      { email, source, limit: Math.min(limit, 1000) },
+      sourceScope(principal),
+    );
+  }
+
+  @Post()
+  @Audited('suppression.add')
+  create(
+    @Body() dto: CreateSuppressionDto,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<EmailSuppression> {
+    if (dto.source === undefined && principal.kind !== 'admin') {
+      throw new ForbiddenException(
+        'Only the admin token can suppress an address for every source',
+      );
+    }
+    if (dto.source !== undefined) {
+      assertSourceAccess(principal, dto.source);
+    }
+    return this.suppressionsService.add({
+      email: dto.email,
+      source: dto.source ?? null,
+      reason: dto.reason ?? SuppressionReason.Manual,
+      detail: dto.detail,
+      actor: describePrincipal(principal),
+    });
+  }
+
+  @Delete(':id')
+  @Audited('suppression.remove')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<void> {
+    return this.suppressionsService.remove(id, sourceScope(principal));
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { suppressionsConfig } from '../config/suppressions.config';
+import { EmailSuppression } from './entities/email-suppression.entity';
+import { SuppressionsController } from './suppressions.controller';
+import { SuppressionsService } from './suppressions.service';
+import { UnsubscribeController } from './unsubscribe.controller';
+
+@Module({
+  imports: [
+    ConfigModule.forFeature(suppressionsConfig),
+    TypeOrmModule.forFeature([EmailSuppression]),
+  ],
+  controllers: [SuppressionsController, UnsubscribeController],
+  providers: [SuppressionsService],
+  exports: [SuppressionsService],
+})
+export class SuppressionsModule {}
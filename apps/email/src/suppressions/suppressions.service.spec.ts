@@ -0,0 +1,147 @@
+import { BadRequestException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { SuppressionsConfig } from '../config/suppressions.config';
+import {
+  EmailSuppression,
+  SuppressionReason,
+} from './entities/email-suppression.entity';
+import { normalizeAddress, SuppressionsService } from './suppressions.service';
+import { signUnsubscribeToken } from './unsubscribe-token';
+
+describe('SuppressionsService', () => {
+  const manager = {
+    query: jest.fn(),
+    findOneByOrFail: jest.fn(),
+  };
+  const config: SuppressionsConfig = {
+    publicUrl: 'https://email.example.com/',
+    unsubscribeSecret: 'unsubscribe-secret',
+  };
+  let service: SuppressionsService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new SuppressionsService(
+      { manager } as unknown as Repository<EmailSuppression>,
+      config,
+    );
+  });
+
+  function tokenOf(headers: Record<string, string>): string {
+    const match = /\/api\/unsubscribe\/([^>]+)>$/.exec(
+      headers['List-Unsubscribe'],
+    );
+    return match![1];
+  }
+
+  it('links marketing emails to a one-click unsubscribe for their recipient', async () => {
+    const headers = service.unsubscribeHeaders('Testing', [
+      'Aina <Aina@Example.com>',
+    ]);
+
+    expect(headers['List-Unsubscribe']).toMatch(
+      /^<https:\/\/email\.example\.com\/api\/unsubscribe\/[\w-]+\.[\w-]+>$/,
+    );
+    expect(headers['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+
+    await expect(service.unsubscribe(tokenOf(headers))).resolves.toEqual({
+      source: 'Testing',
+      email: 'aina@example.com',
+    });
+    expect(manager.query).toHaveBeenCalledWith(expect.any(String), [
+      'aina@example.com',
+      'Testing',
+      SuppressionReason.Unsubscribed,
+      null,
+      'one-click unsubscribe',
+    ]);
+  });
+
+  it('rejects unsubscribe links that were tampered with', async () => {
+    const token = tokenOf(
+      service.unsubscribeHeaders('Testing', ['a@example.com']),
+    );
+    const [, signature] = token.split('.');
+    const forged = `${Buffer.from(
+      JSON.stringify({ s: 'Testing', e: 'someone@example.com' }),
+    ).toString('base64url')}.${signature}`;
+
+    await expect(service.unsubscribe(forged)).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(service.unsubscribe('not-a-token')).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(manager.query).not.toHaveBeenCalled();
+  });
+
+  it('leaves the headers out of emails with several recipients', () => {
+    expect(
+      service.unsubscribeHeaders('Testing', [
+        'a@example.com',
+        'Cc Reader <b@example.com>',
+      ]),
+    ).toEqual({});
+    expect(
+      service.unsubscribeHeaders('Testing', ['a@example.com', 'A@Example.com']),
+    ).toHaveProperty('List-Unsubscribe');
+  });
+
+  it('refuses tokens that list addresses', async () => {
+    const listed = signUnsubscribeToken('unsubscribe-secret', {
+      source: 'Testing',
+      email: ['a@example.com'] as unknown as string,
+    });
+
+    await expect(service.unsubscribe(listed)).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('leaves the headers out while no signing secret is set', () => {
+    service = new SuppressionsService(
+      { manager } as unknown as Repository<EmailSuppression>,
+      { ...config, unsubscribeSecret: undefined },
+    );
+
+    expect(service.unsubscribeHeaders('Testing', ['a@example.com'])).toEqual(
+      {},
+    );
+  });
+
+  it('prefers a global entry over a source entry for the same address', async () => {
+    const own = { email: 'a@example.com', source: 'Testing' };
+    const global = { email: 'a@example.com', source: null };
+    const query = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([own, global]),
+    };
+    service = new SuppressionsService(
+      {
+        manager,
+        createQueryBuilder: () => query,
+      } as unknown as Repository<EmailSuppression>,
+      config,
+    );
+
+    const suppressed = await service.findSuppressed('Testing', [
+      'A@Example.com',
+    ]);
+
+    expect(query.orderBy).toHaveBeenCalledWith(
+      'suppression.source',
+      'ASC',
+      'NULLS LAST',
+    );
+    expect(suppressed.get('a@example.com')).toBe(global);
+  });
+
+  it('normalizes addresses with display names and mixed case', () => {
+    expect(normalizeAddress(' Aina <Aina@Example.COM> ')).toBe(
+      'aina@example.com',
+    );
+    expect(normalizeAddress('Bob@Example.com')).toBe('bob@example.com');
+  });
+});
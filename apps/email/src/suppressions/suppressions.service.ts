@@ -0,0 +1,199 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, EntityManager, IsNull, Repository } from 'typeorm';
+import {
+  suppressionsConfig,
+  type SuppressionsConfig,
+} from '../config/suppressions.config';
+import {
+  EmailSuppression,
+  SuppressionReason,
+} from './entities/email-suppression.entity';
+import {
+  signUnsubscribeToken,
+  UnsubscribeClaims,
+  verifyUnsubscribeToken,
+} from './unsubscribe-token';
+
+export interface NewSuppression {
+  email: string;
+  /** Null suppresses the address for every source. */
+  source: string | null;
+  reason: SuppressionReason;
+  detail?: string | null;
+  actor: string;
+}
+
+export interface SuppressionFilter {
+  email?: string;
+  source?: string;
+  limit: number;
+}
+
+@Injectable()
+export class SuppressionsService {
+  constructor(
+    @InjectRepository(EmailSuppression)
+    private readonly suppressions: Repository<EmailSuppression>,
+    @Inject(suppressionsConfig.KEY)
+    private readonly config: SuppressionsConfig,
+  ) {}
+
+  /**
+   * The entries that stop any of `addresses` getting `source`'s emails,
+   * keyed by normalized address. Global entries win over the source's own.
+   */
+  async findSuppressed(
+    source: string,
+    addresses: string[],
+  ): Promise<Map<string, EmailSuppression>> {
+    const emails = [...new Set(addresses.map(normalizeAddress))];
+    if (emails.length === 0) {
+      return new Map();
+    }
+    const matches = await this.suppressions
+      .createQueryBuilder('suppression')
+      .where('suppression.email IN (:...emails)', { emails })
+      .andWhere(
+        '(suppression.source IS NULL OR suppression.source = :source)',
+        { source },
+      )
+      .orderBy('suppression.source', 'ASC', 'NULLS LAST')
+      .getMany();
+    // Global entries come last, so they replace the source's own.
+    return new Map(
+      matches.map((suppression) => [suppression.email, suppression]),
+    );
+  }
+
+  /** Tells a caller which of its recipients won't get the email. */
+  async warningsFor(source: string, addresses: string[]): Promise<string[]> {
+    const suppressed = await this.findSuppressed(source, addresses);
+    return [...suppressed.values()].map(
+      ({ email, reason }) =>
+        `${email} is on the suppression list (${reason}) and will not be sent to`,
+    );
+  }
+
+  /**
+   * Passing a scope shows only that source's entries and the global ones,
+   * which apply to it too.
+   */
+  findAll(
+    { email, source, limit }: SuppressionFilter,
+    scope?: string,
+  ): Promise<EmailSuppression[]> {
+    const query = this.suppressions
+      .createQueryBuilder('suppression')
+      .orderBy('suppression.createdAt', 'DESC')
+      .take(limit);
+    if (email) {
+      query.andWhere('suppression.email = :email', {
+        email: normalizeAddress(email),
+      });
+    }
+    if (scope) {
+      query.andWhere(
+        new Brackets((where) =>
+          where
+            .where('suppression.source IS NULL')
+            .orWhere('suppression.source = :scope', { scope }),
+        ),
+      );
+    } else if (source) {
+      query.andWhere('suppression.source = :source', { source });
+    }
+    return query.getMany();
+  }
+
+  /**
+   * Adds an address, keeping the existing entry if it is already
+   * suppressed with the same scope. Pass `manager` to add it within the
+   * caller's database transaction.
+   */
+  async add(
+    suppression: NewSuppression,
+    manager: EntityManager = this.suppressions.manager,
+  ): Promise<EmailSuppression> {
+    const email = normalizeAddress(suppression.email);
+    await manager.query(
+      `INSERT INTO "email_suppressions"
+         ("email", "source", "reason", "detail", "actor")
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT ("email", (COALESCE("source", ''))) DO NOTHING`,
+      [
+        email,
+        suppression.source,
+        suppression.reason,
+        suppression.detail ?? null,
+        suppression.actor,
+      ],
+    );
+    return manager.findOneByOrFail(EmailSuppression, {
+      email,
+      source: suppression.source ?? IsNull(),
+    });
+  }
+
+  /** Passing a scope only lets that source's own entries be removed. */
+  async remove(id: string, scope?: string): Promise<void> {
+    const suppression = await this.suppressions.findOneBy({ id });
+    if (!suppression || (scope && suppression.source !== scope)) {
+      throw new NotFoundException(`No suppression found with id ${id}`);
+    }
+    await this.suppressions.remove(suppression);
+  }
+
+  /** Suppresses the address a signed unsubscribe link was made for. */
+  async unsubscribe(token: string): Promise<UnsubscribeClaims> {
+    const claims = this.config.unsubscribeSecret
+      ? verifyUnsubscribeToken(this.config.unsubscribeSecret, token)
+      : null;
+    if (!claims) {
+      throw new BadRequestException('This unsubscribe link is not valid');
+    }
+    await this.add({
+      email: claims.email,
+      source: claims.source,
+      reason: SuppressionReason.Unsubscribed,
+      actor: 'one-click unsubscribe',
+    });
+    return claims;
+  }
+
+  /**
+   * RFC 8058 one-click unsubscribe headers for a marketing email. Every
+   * recipient sees the same headers, so they are only added when there is
+   * just one, across to, cc and bcc; otherwise anyone could unsubscribe
+   * the others. None either while no signing secret is configured.
+   */
+  unsubscribeHeaders(
+    source: string,
+    recipients: string[],
+  ): Record<string, string> {
+    const emails = [...new Set(recipients.map(normalizeAddress))];
+    if (!this.config.unsubscribeSecret || emails.length !== 1) {
+      return {};
+    }
+    const token = signUnsubscribeToken(this.config.unsubscribeSecret, {
+      source,
+      email: emails[0],
+    });
+    const url = `${this.config.publicUrl.replace(/\/+$/, '')}/api/unsubscribe/${token}`;
+    return {
+      'List-Unsubscribe': `<${url}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    };
+  }
+}
+
+/** The bare, lower-cased address of e.g. `Aina <Aina@Example.com>`. */
+export function normalizeAddress(address: string): string {
+  const angled = /<([^>]+)>\s*$/.exec(address);
+  return (angled ? angled[1] : address).trim().toLowerCase();
+}
@@ -0,0 +1,55 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/** Who an unsubscribe link opts out, and from which source's emails. */
+export interface UnsubscribeClaims {
+  source: string;
+  email: string;
+}
+
+/**
+ * A token for an unsubscribe link: the claims as base64url JSON, a dot and
+ * their HMAC-SHA256. Links don't expire, since they sit in mailboxes.
+ */
+export function signUnsubscribeToken(
+  secret: string,
+  claims: UnsubscribeClaims,
+): string {
+  const body = Buffer.from(
+    JSON.stringify({ s: claims.source, e: claims.email }),
+  ).toString('base64url');
+  return `${body}.${hmac(secret, body)}`;
+}
+
+/** The claims of a token made with `secret`, or null for any other. */
+export function verifyUnsubscribeToken(
+  secret: string,
+  token: string,
+): UnsubscribeClaims | null {
+  const [body, signature, ...rest] = token.split('.');
+  if (!body || !signature || rest.length > 0) {
+    return null;
+  }
+  const expected = Buffer.from(hmac(secret, body));
+  const presented = Buffer.from(signature);
+  if (
+    expected.length !== presented.length ||
+    !timingSafeEqual(expected, presented)
+  ) {
+    return null;
+  }
+  try {
+    const { s, e } = JSON.parse(
+      Buffer.from(body, 'base64url').toString('utf8'),
+    ) as { s: unknown; e: unknown };
+    if (typeof s !== 'string' || typeof e !== 'string') {
+      return null;
+    }
+    return { source: s, email: e };
+  } catch {
+    return null;
+  }
+}
+
+function hmac(secret: string, body: string): string {
+  return createHmac('sha256', secret).update(body).digest('base64url');
+}
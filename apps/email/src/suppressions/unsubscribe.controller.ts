@@ -0,0 +1,47 @@
+import {
+  Controller,
+  Get,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { Public } from '../auth/auth.decorators';
+import { SuppressionsService } from './suppressions.service';
+
+/**
+ * Where the List-Unsubscribe links in marketing emails point. Mail clients
+ * POST to it for one-click unsubscribes (RFC 8058); people who open the
+ * link get a page asking them to confirm, since link scanners also GET it.
+ */
+@Controller('unsubscribe')
+@Public()
+export class UnsubscribeController {
+  constructor(private readonly suppressionsService: SuppressionsService) {}
+
+  @Get(':token')
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  confirm(): string {
+    return page(
+      'Unsubscribe',
+      '<p>Stop receiving these emails?</p>' +
+        '<form method="post"><button type="submit">Unsubscribe</button></form>',
+    );
+  }
+
+  @Post(':token')
+  @HttpCode(HttpStatus.OK)
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  async unsubscribe(@Param('token') token: string): Promise<string> {
+    await this.suppressionsService.unsubscribe(token);
+    return page(
+      'Unsubscribed',
+      '<p>You have been unsubscribed and will not receive these emails again.</p>',
+    );
+  }
+}
+
+function page(title: string, body: string): string {
+  return `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><title>${title}</title></head><body>${body}</body></html>`;
+}
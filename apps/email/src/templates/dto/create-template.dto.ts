@@ -0,0 +1,46 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { TemplateCategory } from '../entities/email-template.entity';
+import type { TemplateVariableSchema } from '../template-variable-schema';
+
+export class CreateTemplateDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  subject: string;
+
+  @IsOptional()
+  @IsString()
+  html?: string;
+
+  @IsOptional()
+  @IsString()
+  text?: string;
+
+  @IsOptional()
+  @IsObject()
+  variables?: TemplateVariableSchema;
+
+  @IsOptional()
+  @IsEnum(TemplateCategory)
+  category?: TemplateCategory;
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
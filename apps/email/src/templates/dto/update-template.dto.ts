@@ -0,0 +1,49 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { TemplateCategory } from '../entities/email-template.entity';
+import type { TemplateVariableSchema } from '../template-variable-schema';
+
+/** Fields left out are kept; `null` clears an optional body. */
+export class UpdateTemplateDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  subject?: string;
+
+  @IsOptional()
+  @IsString()
+  html?: string | null;
+
+  @IsOptional()
+  @IsString()
+  text?: string | null;
+
+  @IsOptional()
+  @IsObject()
+  variables?: TemplateVariableSchema;
+
+  @IsOptional()
+  @IsEnum(TemplateCategory)
+  category?: TemplateCategory;
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
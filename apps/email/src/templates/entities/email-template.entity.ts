@@ -0,0 +1,68 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+  VersionColumn,
+} from 'typeorm';
+import type { TemplateVariableSchema } from '../template-variable-schema';
+
+export enum TemplateCategory {
+  Transactional = 'transactional',
+  /** Emails recipients can opt out of, sent with List-Unsubscribe headers. */
+  Marketing = 'marketing',
+}
+
+/**
+ * A reusable email body that callers select with `additionalInfo.template_id`
+ * instead of sending the subject and HTML themselves.
+ */
+@Entity({ name: 'email_templates' })
+export class EmailTemplate {
+  @PrimaryGeneratedColumn('increment', {
+    primaryKeyConstraintName: 'PK_email_templates',
+  })
+  id: number;
+
+  @Index('UQ_email_templates_name', { unique: true })
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({ type: 'text' })
+  subject: string;
+
+  @Column({ type: 'text', nullable: true })
+  html: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  text: string | null;
+
+  @Column({ type: 'jsonb', default: {} })
+  variables: TemplateVariableSchema;
+
+  @Column({
+    type: 'varchar',
+    length: 16,
+    default: TemplateCategory.Transactional,
+  })
+  category: TemplateCategory;
+
+  /** Inactive templates are kept for history but can't be sent. */
+  @Column({ type: 'boolean', default: true })
+  active: boolean;
+
+  /** Bumped on every change, and recorded against each email sent. */
+  @VersionColumn({ default: 1 })
+  version: number;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
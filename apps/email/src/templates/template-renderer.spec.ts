@@ -0,0 +1,144 @@
+import { TemplatesConfig } from '../config/templates.config';
+import {
+  RenderRequest,
+  TemplateContent,
+  TemplateRenderer,
+} from './template-renderer';
+import { TemplateVariableSchema } from './template-variable-schema';
+
+const fields = {
+  subject: 'payload.subject',
+  html: 'payload.html',
+  text: 'payload.text',
+};
+
+describe('TemplateRenderer', () => {
+  const renderer = new TemplateRenderer({
+    locale: 'en-MY',
+    currency: 'MYR',
+    timeZone: 'Asia/Kuala_Lumpur',
+  } as TemplatesConfig);
+
+  function render(
+    content: TemplateContent,
+    variables: Record<string, unknown>,
+    schema: TemplateVariableSchema = {},
+  ) {
+    const request: RenderRequest = { content, schema, variables, fields };
+    return renderer.render(request);
+  }
+
+  it('escapes HTML but not the subject or text body', () => {
+    expect(
+      render(
+        {
+          subject: 'Hi {{name}}',
+          html: '<p>{{name}}</p>{{{signature}}}',
+          text: 'Dear {{name}}',
+        },
+        { name: 'Tan & <Sons>', signature: '<b>Bank</b>' },
+      ),
+    ).toEqual({
+      ok: true,
+      content: {
+        subject: 'Hi Tan & <Sons>',
+        html: '<p>Tan &amp; &lt;Sons&gt;</p><b>Bank</b>',
+        text: 'Dear Tan & <Sons>',
+      },
+    });
+  });
+
+  it('supports conditionals, loops and formatters', () => {
+    const result = render(
+      {
+        subject: 'Loan {{accountNo}}',
+        html: [
+          '{{#if approved}}Approved{{else}}Declined{{/if}}',
+          '{{#each rows}}<tr><td>{{label}}</td><td>{{currency amount}}</td></tr>{{/each}}',
+          '{{date approvedOn}}',
+          '{{#if (eq plan "flexi")}}Flexi{{/if}}',
+        ].join('|'),
+      },
+      {
+        accountNo: 'M2908C1675',
+        approved: true,
+        rows: [{ label: 'Loan amount', amount: 9750 }],
+        approvedOn: '2026-01-15T20:00:00Z',
+        plan: 'flexi',
+      },
+    );
+
+    expect(result).toEqual({
+      ok: true,
+      content: {
+        subject: 'Loan M2908C1675',
+        html: 'Approved|<tr><td>Loan amount</td><td>RM\u00a09,750.00</td></tr>|16 January 2026|Flexi',
+      },
+    });
+  });
+
+  it('lists every missing and mistyped variable', () => {
+    const result = render(
+      {
+        subject: 'Hi {{name}}',
+        html: '{{currency amount}} {{#if vip}}VIP{{/if}}',
+      },
+      { amount: '9750', accountNo: 42 },
+      {
+        accountNo: { type: 'string' },
+        amount: { type: 'number' },
+        branch: { type: 'string', required: false },
+      },
+    );
+
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        expect.objectContaining({
+          field: 'additionalInfo.variables.accountNo',
+          code: 'INVALID_VARIABLE',
+        }),
+        expect.objectContaining({
+          field: 'additionalInfo.variables.amount',
+          code: 'INVALID_VARIABLE',
+        }),
+        expect.objectContaining({
+          field: 'additionalInfo.variables.name',
+          code: 'MISSING_VARIABLE',
+        }),
+      ],
+    });
+  });
+
+  it('does not treat names inside loops as top-level variables', () => {
+    expect(
+      render(
+        {
+          subject: 'Rows',
+          html: '{{#each rows}}{{label}}{{../title}}{{/each}}',
+        },
+        { rows: [] },
+      ),
+    ).toEqual({
+      ok: false,
+      errors: [
+        expect.objectContaining({
+          field: 'additionalInfo.variables.title',
+          code: 'MISSING_VARIABLE',
+        }),
+      ],
+    });
+  });
+
+  it('reports syntax errors against the field they came from', () => {
+    expect(render({ subject: 'Hi', html: '{{#if a}}open' }, {})).toEqual({
+      ok: false,
+      errors: [
+        expect.objectContaining({
+          field: 'payload.html',
+          code: 'TEMPLATE_SYNTAX',
+        }),
+      ],
+    });
+  });
+});
@@ -0,0 +1,356 @@
+import { Inject, Injectable } from '@nestjs/common';
+import Handlebars, { type HelperOptions } from 'handlebars';
+import {
+  templatesConfig,
+  type TemplatesConfig,
+} from '../config/templates.config';
+import type {
+  TemplateVariableSchema,
+  TemplateVariableType,
+} from './template-variable-schema';
+
+export type TemplateVariables = Record<string, unknown>;
+
+export interface TemplateContent {
+  subject: string;
+  html?: string;
+  text?: string;
+}
+
+export type TemplatePart = keyof TemplateContent;
+
+export type TemplateRenderErrorCode =
+  | 'MISSING_VARIABLE'
+  | 'INVALID_VARIABLE'
+  | 'TEMPLATE_SYNTAX'
+  | 'RENDER_FAILED';
+
+export interface TemplateRenderError {
+  field: string;
+  code: TemplateRenderErrorCode;
+  message: string;
+}
+
+export interface RenderRequest {
+  content: TemplateContent;
+  schema: TemplateVariableSchema;
+  variables: TemplateVariables;
+  /** Request field each part came from, for pointing errors at it. */
+  fields: Record<TemplatePart, string>;
+}
+
+export type RenderResult =
+  | { ok: true; content: TemplateContent }
+  | { ok: false; errors: TemplateRenderError[] };
+
+const PARTS: TemplatePart[] = ['subject', 'html', 'text'];
+
+/** Helpers whose block body runs against a new context. */
+const SCOPED_BLOCKS = new Set(['each', 'with']);
+
+/** Helpers whose arguments are tests, so a missing value is just false. */
+const CONDITIONAL_BLOCKS = new Set(['if', 'unless']);
+
+const DATE_STYLES = ['short', 'medium', 'long', 'full'] as const;
+
+const TYPE_CHECKS: Record<TemplateVariableType, (value: unknown) => boolean> = {
+  string: (value) => typeof value === 'string',
+  number: (value) => typeof value === 'number' && Number.isFinite(value),
+  boolean: (value) => typeof value === 'boolean',
+  date: (value) => toDate(value) !== null,
+  array: (value) => Array.isArray(value),
+  object: (value) =>
+    typeof value === 'object' && value !== null && !Array.isArray(value),
+};
+
+/**
+ * Renders subjects and bodies written as Handlebars templates. HTML output is
+ * escaped unless a placeholder uses triple braces; subjects and text bodies
+ * are plain text and never escaped. Besides the built-in `if`, `unless`,
+ * `each` and `with` blocks, templates can use `eq`, `currency`, `number`
+ * and `date`.
+ */
+@Injectable()
+export class TemplateRenderer {
+  private readonly handlebars = Handlebars.create();
+
+  constructor(
+    @Inject(templatesConfig.KEY) private readonly config: TemplatesConfig,
+  ) {
+    this.registerHelpers();
+  }
+
+  /**
+   * Checks the variables against the schema and the placeholders the content
+   * uses, then renders it. Every problem is reported at once so the caller
+   * can fix them together.
+   */
+  render({ content, schema, variables, fields }: RenderRequest): RenderResult {
+    const errors: TemplateRenderError[] = [];
+    const programs = new Map<TemplatePart, hbs.AST.Program>();
+    for (const part of PARTS) {
+      const source = content[part];
+      if (source === undefined) {
+        continue;
+      }
+      try {
+        programs.set(part, this.handlebars.parse(source));
+      } catch (error) {
+        errors.push({
+          field: fields[part],
+          code: 'TEMPLATE_SYNTAX',
+          message: `${part}: ${firstLine(error)}`,
+        });
+      }
+    }
+
+    const referenced = new Set<string>();
+    for (const program of programs.values()) {
+      collectRequired(program, 0, referenced);
+    }
+    errors.push(...this.checkVariables(schema, variables, referenced));
+    if (errors.length > 0) {
+      return { ok: false, errors };
+    }
+
+    const rendered: TemplateContent = { ...content };
+    for (const [part, program] of programs) {
+      try {
+        rendered[part] = this.handlebars.compile(program, {
+          noEscape: part !== 'html',
+          knownHelpers: { eq: true, currency: true, number: true, date: true },
+          knownHelpersOnly: true,
+        })(variables);
+      } catch (error) {
+        errors.push({
+          field: fields[part],
+          code: 'RENDER_FAILED',
+          message: `${part}: ${firstLine(error)}`,
+        });
+      }
+    }
+    return errors.length > 0
+      ? { ok: false, errors }
+      : { ok: true, content: rendered };
+  }
+
+  /** Parse errors in stored template content, one message per part. */
+  syntaxErrors(content: Partial<TemplateContent>): string[] {
+    return PARTS.flatMap((part) => {
+      const source = content[part];
+      if (!source) {
+        return [];
+      }
+      try {
+        this.handlebars.parse(source);
+        return [];
+      } catch (error) {
+        return [`${part}: ${firstLine(error)}`];
+      }
+    });
+  }
+
+  private checkVariables(
+    schema: TemplateVariableSchema,
+    variables: TemplateVariables,
+    referenced: Set<string>,
+  ): TemplateRenderError[] {
+    const errors: TemplateRenderError[] = [];
+    const field = (name: string) => `additionalInfo.variables.${name}`;
+
+    for (const [name, { type, required = true }] of Object.entries(schema)) {
+      const value = variables[name];
+      if (value === undefined || value === null) {
+        if (required) {
+          errors.push({
+            field: field(name),
+            code: 'MISSING_VARIABLE',
+            message: `Variable ${name} (${type}) is required`,
+          });
+        }
+      } else if (!TYPE_CHECKS[type](value)) {
+        errors.push({
+          field: field(name),
+          code: 'INVALID_VARIABLE',
+          message: `Variable ${name} must be of type ${type}, got ${describe(value)}`,
+        });
+      }
+    }
+
+    for (const name of referenced) {
+      if (!(name in schema) && variables[name] === undefined) {
+        errors.push({
+          field: field(name),
+          code: 'MISSING_VARIABLE',
+          message: `Variable ${name} is used by the template but was not provided`,
+        });
+      }
+    }
+    return errors;
+  }
+
+  private registerHelpers(): void {
+    const { locale, currency, timeZone } = this.config;
+
+    this.handlebars.registerHelper('eq', (left: unknown, right: unknown) => {
+      return left === right;
+    });
+
+    this.handlebars.registerHelper('currency', (...args: unknown[]) => {
+      const [value, code] = helperArguments(args);
+      return new Intl.NumberFormat(locale, {
+        style: 'currency',
+        currency: typeof code === 'string' ? code : currency,
+      }).format(toNumber('currency', value));
+    });
+
+    this.handlebars.registerHelper('number', (...args: unknown[]) => {
+      const [value, decimals] = helperArguments(args);
+      const digits = typeof decimals === 'number' ? decimals : undefined;
+      return new Intl.NumberFormat(locale, {
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits,
+      }).format(toNumber('number', value));
+    });
+
+    this.handlebars.registerHelper('date', (...args: unknown[]) => {
+      const [value, style = 'long'] = helperArguments(args);
+      const date = toDate(value);
+      if (!date) {
+        throw new Error(`date expects a date, got ${describe(value)}`);
+      }
+      if (style === 'iso') {
+        return date.toISOString();
+      }
+      if (style === 'datetime') {
+        return new Intl.DateTimeFormat(locale, {
+          dateStyle: 'medium',
+          timeStyle: 'short',
+          timeZone,
+        }).format(date);
+      }
+      if (!DATE_STYLES.includes(style as (typeof DATE_STYLES)[number])) {
+        throw new Error(
+          `date style must be one of ${[...DATE_STYLES, 'datetime', 'iso'].join(', ')}`,
+        );
+      }
+      return new Intl.DateTimeFormat(locale, {
+        dateStyle: style as (typeof DATE_STYLES)[number],
+        timeZone,
+      }).format(date);
+    });
+  }
+}
+
+/**
+ * Collects the top-level variables a template can't render without: those
+ * output directly, passed to formatters or looped over. Variables that are
+ * only tested by `if`/`unless` may be absent, and names inside `each`/`with`
+ * blocks belong to the item rather than the variables.
+ */
+function collectRequired(
+  node: hbs.AST.Node,
+  depth: number,
+  names: Set<string>,
+): void {
+  const addPath = (expression: hbs.AST.Expression) => {
+    if (expression.type === 'SubExpression') {
+      const sub = expression as hbs.AST.SubExpression;
+      sub.params.forEach(addPath);
+      sub.hash?.pairs.forEach((pair) => addPath(pair.value));
+      return;
+    }
+    if (expression.type !== 'PathExpression') {
+      return;
+    }
+    const path = expression as hbs.AST.PathExpression;
+    if (path.data) {
+      if (path.parts[0] === 'root' && path.parts.length > 1) {
+        names.add(path.parts[1]);
+      }
+    } else if (path.depth === depth && path.parts.length > 0) {
+      names.add(path.parts[0]);
+    }
+  };
+
+  switch (node.type) {
+    case 'Program':
+      for (const statement of (node as hbs.AST.Program).body) {
+        collectRequired(statement, depth, names);
+      }
+      return;
+    case 'MustacheStatement': {
+      const mustache = node as hbs.AST.MustacheStatement;
+      const hasArguments =
+        mustache.params.length > 0 || (mustache.hash?.pairs.length ?? 0) > 0;
+      if (hasArguments) {
+        mustache.params.forEach(addPath);
+        mustache.hash?.pairs.forEach((pair) => addPath(pair.value));
+      } else {
+        addPath(mustache.path);
+      }
+      return;
+    }
+    case 'BlockStatement': {
+      const block = node as hbs.AST.BlockStatement;
+      const helper = block.path.original;
+      if (!CONDITIONAL_BLOCKS.has(helper)) {
+        block.params.forEach(addPath);
+      }
+      const inner = SCOPED_BLOCKS.has(helper) ? depth + 1 : depth;
+      if (block.program) {
+        collectRequired(block.program, inner, names);
+      }
+      if (block.inverse) {
+        collectRequired(block.inverse, depth, names);
+      }
+      return;
+    }
+    default:
+      return;
+  }
+}
+
+/** Drops the options object Handlebars passes as a helper's last argument. */
+function helperArguments(args: unknown[]): unknown[] {
+  const options = args[args.length - 1] as HelperOptions | undefined;
+  return options && typeof options === 'object' && 'hash' in options
+    ? args.slice(0, -1)
+    : args;
+}
+
+function toNumber(helper: string, value: unknown): number {
+  const number =
+    typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) {
+    throw new Error(`${helper} expects a number, got ${describe(value)}`);
+  }
+  return number;
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'an array';
+  }
+  const type = typeof value;
+  return type === 'object' || type === 'undefined' ? `an ${type}` : `a ${type}`;
+}
+
+function firstLine(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.split('\n')[0];
+}
@@ -0,0 +1,59 @@
+export const TEMPLATE_VARIABLE_TYPES = [
+  'string',
+  'number',
+  'boolean',
+  'date',
+  'array',
+  'object',
+] as const;
+
+export type TemplateVariableType = (typeof TEMPLATE_VARIABLE_TYPES)[number];
+
+export interface TemplateVariable {
+  type: TemplateVariableType;
+  /** Defaults to true; optional variables may be left out of a send. */
+  required?: boolean;
+  description?: string;
+}
+
+/** The variables a template expects, keyed by name. */
+export type TemplateVariableSchema = Record<string, TemplateVariable>;
+
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Checks a variable schema submitted with a template, returning one message
+ * per problem. The schema is free-form JSON, so class-validator can't see
+ * inside it.
+ */
+export function checkVariableSchema(schema: unknown): string[] {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    return ['variables must be an object keyed by variable name'];
+  }
+
+  const problems: string[] = [];
+  for (const [name, variable] of Object.entries(schema)) {
+    if (!VARIABLE_NAME.test(name)) {
+      problems.push(`variables.${name} is not a valid variable name`);
+      continue;
+    }
+    if (typeof variable !== 'object' || variable === null) {
+      problems.push(`variables.${name} must be an object with a type`);
+      continue;
+    }
+
+    const { type, required, description } = variable as Record<string, unknown>;
+    if (!TEMPLATE_VARIABLE_TYPES.includes(type as TemplateVariableType)) {
+      problems.push(
+        `variables.${name}.type must be one of ${TEMPLATE_VARIABLE_TYPES.join(', ')}`,
+      );
+    }
+    if (required !== undefined && typeof required !== 'boolean') {
+      problems.push(`variables.${name}.required must be a boolean`);
+    }
+    if (description !== undefined && typeof description !== 'string') {
+      problems.push(`variables.${name}.description must be a string`);
+    }
+  }
+  return problems;
+}
@@ -0,0 +1,64 @@
+import {
+  Body,
+  Controller,
+  DefaultValuePipe,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseBoolPipe,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { Audited } from '../audit/audited.decorator';
+import { AdminOnly } from '../auth/auth.decorators';
+import { CreateTemplateDto } from './dto/create-template.dto';
+import { UpdateTemplateDto } from './dto/update-template.dto';
+import { EmailTemplate } from './entities/email-template.entity';
+import { TemplatesService } from './templates.service';
+
+@Controller('templates')
+export class TemplatesController {
+  constructor(private readonly templatesService: TemplatesService) {}
+
+  @Get()
+  findAll(
+    @Query('includeInactive', new DefaultValuePipe(false), ParseBoolPipe)
+    includeInactive: boolean,
+  ): Promise<EmailTemplate[]> {
+    return this.templatesService.findAll(includeInactive);
+  }
+
+  @Get(':id')
+  findOne(@Param('id', ParseIntPipe) id: number): Promise<EmailTemplate> {
+    return this.templatesService.findOne(id);
+  }
+
+  @Post()
+  @Audited('template.create')
+  @AdminOnly()
+  create(@Body() dto: CreateTemplateDto): Promise<EmailTemplate> {
+    return this.templatesService.create(dto);
+  }
+
+  @Patch(':id')
+  @Audited('template.update')
+  @AdminOnly()
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateTemplateDto,
+  ): Promise<EmailTemplate> {
+    return this.templatesService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @Audited('template.deactivate')
+  @AdminOnly()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  deactivate(@Param('id', ParseIntPipe) id: number): Promise<void> {
+    return this.templatesService.deactivate(id);
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { templatesConfig } from '../config/templates.config';
+import { EmailTemplate } from './entities/email-template.entity';
+import { TemplateRenderer } from './template-renderer';
+import { TemplatesController } from './templates.controller';
+import { TemplatesService } from './templates.service';
+
+@Module({
+  imports: [
+    ConfigModule.forFeature(templatesConfig),
+    TypeOrmModule.forFeature([EmailTemplate]),
+  ],
+  controllers: [TemplatesController],
+  providers: [TemplatesService, TemplateRenderer],
+  exports: [TemplatesService],
+})
+export class TemplatesModule {}
@@ -0,0 +1,217 @@
+import { BadRequestException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { SendEmailDto } from '../email/dto/send-email.dto';
+import {
+  EmailTemplate,
+  TemplateCategory,
+} from './entities/email-template.entity';
+import { TemplateRenderer } from './template-renderer';
+import { TemplatesService } from './templates.service';
+
+const template = {
+  id: 1,
+  name: 'loan-approval',
+  subject: 'Your loan is approved',
+  html: '<p>Approved</p>',
+  text: 'Approved',
+  variables: {},
+  active: true,
+  version: 3,
+  category: TemplateCategory.Transactional,
+} as EmailTemplate;
+
+function createDto(payload: Partial<SendEmailDto['payload']>): SendEmailDto {
+  return {
+    txnRefNo: 'Email-1',
+    source: 'Testing',
+    payload: { from: 'a@example.com', to: 'b@example.com', ...payload },
+    additionalInfo: { template_id: 1, isText: false },
+  };
+}
+
+describe('TemplatesService', () => {
+  const repository = {
+    findOneBy: jest.fn(),
+    create: jest.fn((value: Partial<EmailTemplate>) => value),
+    save: jest.fn((value: EmailTemplate) => Promise.resolve(value)),
+  };
+  const service = new TemplatesService(
+    repository as unknown as Repository<EmailTemplate>,
+    new TemplateRenderer({
+      locale: 'en-MY',
+      currency: 'MYR',
+      timeZone: 'Asia/Kuala_Lumpur',
+    }),
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    repository.findOneBy.mockResolvedValue(template);
+  });
+
+  it('leaves requests that carry their own content untouched', async () => {
+    const dto = createDto({ subject: 'Hi', html: '<p>Hi</p>' });
+
+    await expect(service.resolve(dto)).resolves.toEqual({
+      message: dto,
+      template: null,
+      category: TemplateCategory.Transactional,
+    });
+  });
+
+  it("takes the category of a marketing template even with the caller's own content", async () => {
+    repository.findOneBy.mockResolvedValueOnce({
+      ...template,
+      category: TemplateCategory.Marketing,
+    });
+    const dto = createDto({ subject: 'Hi', html: '<p>Hi</p>' });
+
+    await expect(service.resolve(dto)).resolves.toEqual({
+      message: dto,
+      template: null,
+      category: TemplateCategory.Marketing,
+    });
+    expect(repository.findOneBy).toHaveBeenCalledWith({ id: 1 });
+  });
+
+  it('sends unregistered template ids as transactional', async () => {
+    repository.findOneBy.mockResolvedValueOnce(null);
+
+    await expect(
+      service.resolve(createDto({ subject: 'Hi', text: 'Hi' })),
+    ).resolves.toMatchObject({ category: TemplateCategory.Transactional });
+  });
+
+  it('rejects marketing emails to more than one recipient', async () => {
+    const marketing = { ...template, category: TemplateCategory.Marketing };
+    const error = {
+      response: {
+        errors: [
+          {
+            field: 'payload.to',
+            code: 'MARKETING_RECIPIENTS',
+            message:
+              'Marketing emails go to one recipient at a time, so each gets their own unsubscribe link; this one has 2 across to, cc and bcc',
+          },
+        ],
+      },
+    };
+
+    repository.findOneBy.mockResolvedValueOnce(marketing);
+    await expect(
+      service.resolve(createDto({ bcc: 'c@example.com' })),
+    ).rejects.toMatchObject(error);
+
+    repository.findOneBy.mockResolvedValueOnce(marketing);
+    await expect(
+      service.resolve(
+        createDto({ subject: 'Hi', text: 'Hi', cc: 'c@example.com' }),
+      ),
+    ).rejects.toMatchObject(error);
+
+    repository.findOneBy.mockResolvedValueOnce(marketing);
+    await expect(
+      service.resolve(createDto({ cc: 'B <B@Example.com>' })),
+    ).resolves.toMatchObject({ category: TemplateCategory.Marketing });
+  });
+
+  it('fills in the subject and bodies from the template', async () => {
+    const { message, template: used } = await service.resolve(createDto({}));
+
+    expect(message.payload).toMatchObject({
+      subject: 'Your loan is approved',
+      html: '<p>Approved</p>',
+      text: 'Approved',
+    });
+    expect(used).toBe(template);
+  });
+
+  it("never mixes the caller's body with the template's", async () => {
+    const { message } = await service.resolve(
+      createDto({ html: '<p>Custom</p>' }),
+    );
+
+    expect(message.payload).toMatchObject({
+      subject: 'Your loan is approved',
+      html: '<p>Custom</p>',
+    });
+    expect(message.payload.text).toBeUndefined();
+  });
+
+  it('rejects unknown or inactive templates when content is missing', async () => {
+    repository.findOneBy.mockResolvedValueOnce(null);
+    await expect(service.resolve(createDto({}))).rejects.toMatchObject({
+      response: {
+        errors: [
+          expect.objectContaining({
+            field: 'additionalInfo.template_id',
+            code: 'TEMPLATE_NOT_FOUND',
+          }),
+        ],
+      },
+    });
+
+    repository.findOneBy.mockResolvedValueOnce({ ...template, active: false });
+    await expect(service.resolve(createDto({}))).rejects.toMatchObject({
+      response: {
+        errors: [expect.objectContaining({ code: 'TEMPLATE_INACTIVE' })],
+      },
+    });
+  });
+
+  it('renders variables into template content', async () => {
+    repository.findOneBy.mockResolvedValueOnce({
+      ...template,
+      subject: 'Loan {{accountNo}} approved',
+      html: '<p>Dear {{name}}</p>',
+      text: null,
+      variables: { name: { type: 'string' }, accountNo: { type: 'string' } },
+    });
+    const dto = createDto({});
+    dto.additionalInfo.variables = {
+      name: 'Andy Eng',
+      accountNo: 'M2908C1675',
+    };
+
+    const { message } = await service.resolve(dto);
+
+    expect(message.payload).toMatchObject({
+      subject: 'Loan M2908C1675 approved',
+      html: '<p>Dear Andy Eng</p>',
+    });
+  });
+
+  it('rejects sends whose variables do not match the schema', async () => {
+    repository.findOneBy.mockResolvedValueOnce({
+      ...template,
+      variables: { amount: { type: 'number' } },
+    });
+    const dto = createDto({});
+    dto.additionalInfo.variables = { amount: 'lots' };
+
+    await expect(service.resolve(dto)).rejects.toMatchObject({
+      response: {
+        errors: [
+          expect.objectContaining({
+            field: 'additionalInfo.variables.amount',
+            code: 'INVALID_VARIABLE',
+          }),
+        ],
+      },
+    });
+  });
+
+  it('validates the variable schema and body of new templates', async () => {
+    await expect(
+      service.create({
+        name: 'broken',
+        subject: 'Hi',
+        variables: { amount: { type: 'money' } } as never,
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      service.create({ name: 'broken', subject: 'Hi', html: '{{#if a}}' }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(repository.save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,258 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { QueryFailedError, Repository } from 'typeorm';
+import { SendEmailDto } from '../email/dto/send-email.dto';
+import { allRecipients } from '../email/utils/recipients';
+import { normalizeAddress } from '../suppressions/suppressions.service';
+import { CreateTemplateDto } from './dto/create-template.dto';
+import { UpdateTemplateDto } from './dto/update-template.dto';
+import {
+  EmailTemplate,
+  TemplateCategory,
+} from './entities/email-template.entity';
+import {
+  TemplateContent,
+  TemplateRenderError,
+  TemplateRenderer,
+} from './template-renderer';
+import { checkVariableSchema } from './template-variable-schema';
+
+export interface TemplateFieldError {
+  field: string;
+  code:
+    | 'TEMPLATE_NOT_FOUND'
+    | 'TEMPLATE_INACTIVE'
+    | 'MARKETING_RECIPIENTS'
+    | TemplateRenderError['code'];
+  message: string;
+}
+
+export interface TemplatedEmail {
+  /** The send request with any content taken from the template filled in. */
+  message: SendEmailDto & { payload: { subject: string } };
+  /** The template the content came from, or null if the caller sent it all. */
+  template: EmailTemplate | null;
+  /** The named template's category, even when its content wasn't used. */
+  category: TemplateCategory;
+}
+
+const UNIQUE_VIOLATION = '23505';
+
+@Injectable()
+export class TemplatesService {
+  constructor(
+    @InjectRepository(EmailTemplate)
+    private readonly templates: Repository<EmailTemplate>,
+    private readonly renderer: TemplateRenderer,
+  ) {}
+
+  findAll(includeInactive = false): Promise<EmailTemplate[]> {
+    return this.templates.find({
+      where: includeInactive ? {} : { active: true },
+      order: { id: 'ASC' },
+    });
+  }
+
+  async findOne(id: number): Promise<EmailTemplate> {
+    const template = await this.templates.findOneBy({ id });
+    if (!template) {
+      throw new NotFoundException(`No template found with id ${id}`);
+    }
+    return template;
+  }
+
+  create(dto: CreateTemplateDto): Promise<EmailTemplate> {
+    const template = this.templates.create({
+      name: dto.name,
+      description: dto.description ?? null,
+      subject: dto.subject,
+      html: dto.html ?? null,
+      text: dto.text ?? null,
+      variables: dto.variables ?? {},
+      category: dto.category ?? TemplateCategory.Transactional,
+      active: dto.active ?? true,
+    });
+    return this.save(template);
+  }
+
+  async update(id: number, dto: UpdateTemplateDto): Promise<EmailTemplate> {
+    const template = await this.findOne(id);
+    for (const field of [
+      'name',
+      'description',
+      'subject',
+      'html',
+      'text',
+      'variables',
+      'category',
+      'active',
+    ] as const) {
+      if (dto[field] !== undefined) {
+        Object.assign(template, { [field]: dto[field] });
+      }
+    }
+    return this.save(template);
+  }
+
+  /** Retires a template; emails already sent from it keep their reference. */
+  async deactivate(id: number): Promise<void> {
+    const template = await this.findOne(id);
+    if (template.active) {
+      template.active = false;
+      await this.templates.save(template);
+    }
+  }
+
+  /**
+   * Fills in the parts of a send request the caller left to the template,
+   * then renders `additionalInfo.variables` into it.
+   * The template supplies the subject when the payload has none, and the
+   * HTML and text bodies together when the payload has neither, so a
+   * caller's own body is never mixed with the template's. Requests that
+   * carry all of their content don't need `template_id` to be registered,
+   * and are only rendered when they come with variables, but still take the
+   * category of the template it names. Marketing emails must have a single
+   * recipient, as their unsubscribe link is for that one person.
+   */
+  async resolve(dto: SendEmailDto): Promise<TemplatedEmail> {
+    const { payload, additionalInfo } = dto;
+    const hasBody = Boolean(payload.html || payload.text);
+    const templateField = 'additionalInfo.template_id';
+
+    let template: EmailTemplate | null = null;
+    let category: TemplateCategory;
+    let content: TemplateContent;
+    if (payload.subject && hasBody) {
+      const named = await this.templates.findOneBy({
+        id: additionalInfo.template_id,
+      });
+      category = named?.category ?? TemplateCategory.Transactional;
+      content = {
+        subject: payload.subject,
+        html: payload.html,
+        text: payload.text,
+      };
+    } else {
+      template = await this.findUsable(additionalInfo.template_id);
+      category = template.category;
+      content = {
+        subject: payload.subject || template.subject,
+        ...(hasBody
+          ? { html: payload.html, text: payload.text }
+          : {
+              html: template.html ?? undefined,
+              text: template.text ?? undefined,
+            }),
+      };
+    }
+
+    if (category === TemplateCategory.Marketing) {
+      this.assertSingleRecipient(payload);
+    }
+
+    if (template || additionalInfo.variables) {
+      const result = this.renderer.render({
+        content,
+        schema: template?.variables ?? {},
+        variables: additionalInfo.variables ?? {},
+        fields: {
+          subject: payload.subject ? 'payload.subject' : templateField,
+          html: hasBody ? 'payload.html' : templateField,
+          text: hasBody ? 'payload.text' : templateField,
+        },
+      });
+      if (!result.ok) {
+        throw this.invalid(result.errors);
+      }
+      content = result.content;
+    }
+
+    return {
+      message: { ...dto, payload: { ...payload, ...content } },
+      template,
+      category,
+    };
+  }
+
+  private assertSingleRecipient(payload: SendEmailDto['payload']): void {
+    const recipients = new Set(allRecipients(payload).map(normalizeAddress));
+    if (recipients.size > 1) {
+      throw this.invalid([
+        {
+          field: 'payload.to',
+          code: 'MARKETING_RECIPIENTS',
+          message: `Marketing emails go to one recipient at a time, so each gets their own unsubscribe link; this one has ${recipients.size} across to, cc and bcc`,
+        },
+      ]);
+    }
+  }
+
+  private async findUsable(id: number): Promise<EmailTemplate> {
+    const field = 'additionalInfo.template_id';
+    const template = await this.templates.findOneBy({ id });
+    if (!template) {
+      throw this.invalid([
+        {
+          field,
+          code: 'TEMPLATE_NOT_FOUND',
+          message: `Template ${id} is not registered, so the payload must include a subject and body`,
+        },
+      ]);
+    }
+    if (!template.active) {
+      throw this.invalid([
+        {
+          field,
+          code: 'TEMPLATE_INACTIVE',
+          message: `Template ${template.id} (${template.name}) is no longer active`,
+        },
+      ]);
+    }
+    return template;
+  }
+
+  private async save(template: EmailTemplate): Promise<EmailTemplate> {
+    const problems = [
+      ...checkVariableSchema(template.variables),
+      ...this.renderer.syntaxErrors({
+        subject: template.subject,
+        html: template.html ?? undefined,
+        text: template.text ?? undefined,
+      }),
+    ];
+    if (!template.html && !template.text) {
+      problems.push('A template needs an html or text body');
+    }
+    if (problems.length > 0) {
+      throw new BadRequestException(problems);
+    }
+
+    try {
+      return await this.templates.save(template);
+    } catch (error) {
+      if (
+        error instanceof QueryFailedError &&
+        (error.driverError as { code?: string }).code === UNIQUE_VIOLATION
+      ) {
+        throw new ConflictException(
+          `A template named ${template.name} already exists`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  private invalid(errors: TemplateFieldError[]): BadRequestException {
+    return new BadRequestException({
+      statusCode: 400,
+      error: 'Bad Request',
+      message: errors.map((error) => error.message),
+      errors,
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { WEBHOOK_EVENTS, type WebhookEvent } from '../webhook-events';
+
+/** `require_tld: false` so a receiver on localhost can be used in testing. */
+export const WEBHOOK_URL_OPTIONS = {
+  protocols: ['http', 'https'],
+  require_protocol: true,
+  require_tld: false,
+};
+
+export class CreateWebhookDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(128)
+  source: string;
+
+  @IsUrl(WEBHOOK_URL_OPTIONS)
+  @MaxLength(2048)
+  url: string;
+
+  /** Defaults to every event. */
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsIn(WEBHOOK_EVENTS, { each: true })
+  events?: WebhookEvent[];
+}
@@ -0,0 +1,32 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { WEBHOOK_EVENTS, type WebhookEvent } from '../webhook-events';
+import { WEBHOOK_URL_OPTIONS } from './create-webhook.dto';
+
+/** Fields left out are kept. */
+export class UpdateWebhookDto {
+  @IsOptional()
+  @IsUrl(WEBHOOK_URL_OPTIONS)
+  @MaxLength(2048)
+  url?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsIn(WEBHOOK_EVENTS, { each: true })
+  events?: WebhookEvent[];
+
+  /** False stops calls, including ones already queued, until set back. */
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
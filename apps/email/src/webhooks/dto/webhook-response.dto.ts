@@ -0,0 +1,36 @@
+import type { WebhookDeliveryState } from '../entities/email-webhook-delivery.entity';
+import type { WebhookEvent } from '../webhook-events';
+
+export class WebhookResponseDto {
+  id: string;
+  source: string;
+  url: string;
+  events: WebhookEvent[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class SignedWebhookResponseDto extends WebhookResponseDto {
+  /** Signs every call. It is only returned when it is generated. */
+  secret: string;
+}
+
+export class WebhookAttemptDto {
+  attemptNumber: number;
+  statusCode: number | null;
+  response: string | null;
+  startedAt: Date;
+  finishedAt: Date;
+}
+
+export class WebhookDeliveryResponseDto {
+  id: string;
+  event: WebhookEvent;
+  txnRefNo: string;
+  state: WebhookDeliveryState;
+  nextAttemptAt: Date | null;
+  createdAt: Date;
+  deliveredAt: Date | null;
+  attempts: WebhookAttemptDto[];
+}
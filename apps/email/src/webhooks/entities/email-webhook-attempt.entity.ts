@@ -0,0 +1,47 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { EmailWebhookDelivery } from './email-webhook-delivery.entity';
+
+/** One call to a webhook and how the receiver answered, if it did. */
+@Entity({ name: 'email_webhook_attempts' })
+export class EmailWebhookAttempt {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index('IDX_email_webhook_attempts_delivery_id')
+  @Column({ name: 'delivery_id', type: 'uuid' })
+  deliveryId: string;
+
+  @ManyToOne(() => EmailWebhookDelivery, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'delivery_id',
+    foreignKeyConstraintName: 'FK_email_webhook_attempts_delivery',
+  })
+  delivery: EmailWebhookDelivery;
+
+  @Column({ name: 'attempt_number', type: 'integer' })
+  attemptNumber: number;
+
+  @Column({ type: 'varchar', length: 128 })
+  worker: string;
+
+  /** The receiver's HTTP status, or null if no response arrived. */
+  @Column({ name: 'status_code', type: 'integer', nullable: true })
+  statusCode: number | null;
+
+  /** The start of the response body, or why the call failed. */
+  @Column({ type: 'text', nullable: true })
+  response: string | null;
+
+  @Column({ name: 'started_at', type: 'timestamptz' })
+  startedAt: Date;
+
+  @Column({ name: 'finished_at', type: 'timestamptz' })
+  finishedAt: Date;
+}
@@ -0,0 +1,104 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { EmailTransaction } from '../../email/entities/email-transaction.entity';
+import type { WebhookEvent } from '../webhook-events';
+import { EmailWebhook } from './email-webhook.entity';
+
+export enum WebhookDeliveryState {
+  Pending = 'pending',
+  Processing = 'processing',
+  Delivered = 'delivered',
+  /** Given up on after the last attempt. */
+  Failed = 'failed',
+}
+
+/** What a webhook is sent, apart from the delivery id. */
+export interface WebhookPayload {
+  event: WebhookEvent;
+  txnRefNo: string;
+  source: string;
+  messageId: string | null;
+  batchId: string | null;
+  detail: string | null;
+  occurredAt: string;
+}
+
+/**
+ * One status transition to be reported to one webhook. Deliveries are
+ * queued in the same database transaction as the transition and sent by
+ * the webhook worker, so a call is never lost or made for a rolled back
+ * change.
+ */
+@Entity({ name: 'email_webhook_deliveries' })
+@Index('IDX_email_webhook_deliveries_due', ['state', 'nextAttemptAt'])
+@Index('IDX_email_webhook_deliveries_webhook', ['webhookId', 'createdAt'])
+export class EmailWebhookDelivery {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'webhook_id', type: 'uuid' })
+  webhookId: string;
+
+  @ManyToOne(() => EmailWebhook, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'webhook_id',
+    foreignKeyConstraintName: 'FK_email_webhook_deliveries_webhook',
+  })
+  webhook: EmailWebhook;
+
+  @Index('IDX_email_webhook_deliveries_transaction_id')
+  @Column({ name: 'transaction_id', type: 'uuid' })
+  transactionId: string;
+
+  @ManyToOne(() => EmailTransaction, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'transaction_id',
+    foreignKeyConstraintName: 'FK_email_webhook_deliveries_transaction',
+  })
+  transaction: EmailTransaction;
+
+  @Column({ type: 'varchar', length: 32 })
+  event: WebhookEvent;
+
+  @Column({ type: 'jsonb' })
+  payload: WebhookPayload;
+
+  @Column({
+    type: 'varchar',
+    length: 16,
+    default: WebhookDeliveryState.Pending,
+  })
+  state: WebhookDeliveryState;
+
+  @Column({ type: 'integer', default: 0 })
+  attempts: number;
+
+  @Column({ name: 'max_attempts', type: 'integer' })
+  maxAttempts: number;
+
+  @Column({
+    name: 'next_attempt_at',
+    type: 'timestamptz',
+    default: () => 'now()',
+  })
+  nextAttemptAt: Date;
+
+  @Column({ name: 'locked_at', type: 'timestamptz', nullable: true })
+  lockedAt: Date | null;
+
+  @Column({ name: 'locked_by', type: 'varchar', length: 128, nullable: true })
+  lockedBy: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @Column({ name: 'delivered_at', type: 'timestamptz', nullable: true })
+  deliveredAt: Date | null;
+}
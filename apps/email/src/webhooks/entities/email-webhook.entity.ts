@@ -0,0 +1,42 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import type { WebhookEvent } from '../webhook-events';
+
+/**
+ * A URL a source wants called when its emails change status. The secret
+ * signs every call; unlike an API key it has to be kept, since the service
+ * needs it to sign, but it is only returned when it is generated.
+ */
+@Entity({ name: 'email_webhooks' })
+@Index('IDX_email_webhooks_source', ['source'])
+export class EmailWebhook {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 128 })
+  source: string;
+
+  @Column({ type: 'varchar', length: 2048 })
+  url: string;
+
+  @Column({ type: 'varchar', length: 32, array: true })
+  events: WebhookEvent[];
+
+  @Column({ type: 'varchar', length: 64, select: false })
+  secret: string;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+
+  @Column({ name: 'disabled_at', type: 'timestamptz', nullable: true })
+  disabledAt: Date | null;
+}
@@ -0,0 +1,166 @@
+import { fetch as undiciFetch, Response, type RequestInit } from 'undici';
+import { WebhooksConfig } from '../config/webhooks.config';
+import { EmailStatus } from '../email/email-status.enum';
+import {
+  EmailWebhookDelivery,
+  WebhookDeliveryState,
+} from './entities/email-webhook-delivery.entity';
+import { WebhookDeliveryWorker } from './webhook-delivery.worker';
+import { WebhookQueueService } from './webhook-queue.service';
+import { verifyWebhook } from './webhook-signature';
+
+jest.mock('undici', () => ({
+  ...jest.requireActual<typeof import('undici')>('undici'),
+  fetch: jest.fn(),
+}));
+
+const delivery = {
+  id: 'delivery-1',
+  attempts: 1,
+  webhook: {
+    url: 'http://localhost:4000/webhooks',
+    secret: 'whsec_test',
+    disabledAt: null,
+  },
+  payload: {
+    event: EmailStatus.Sent,
+    txnRefNo: 'Email-1',
+    source: 'Testing',
+    messageId: '<id@example.com>',
+    batchId: null,
+    detail: '250 OK',
+    occurredAt: '2026-01-01T00:00:00.000Z',
+  },
+} as EmailWebhookDelivery;
+
+describe('WebhookDeliveryWorker', () => {
+  const queue = {
+    claimDue: jest.fn(),
+    complete: jest.fn(),
+    fail: jest.fn(),
+  };
+  const fetch = jest.mocked(undiciFetch);
+  let worker: WebhookDeliveryWorker;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    queue.claimDue.mockResolvedValue([delivery]);
+    worker = new WebhookDeliveryWorker(
+      queue as unknown as WebhookQueueService,
+      {
+        workerEnabled: false,
+        timeoutMs: 1_000,
+        allowPrivateUrls: true,
+      } as WebhooksConfig,
+    );
+  });
+
+  it('posts the event signed with the webhook secret', async () => {
+    fetch.mockResolvedValue(new Response('ok', { status: 200 }));
+
+    await worker.poll();
+
+    const [url, init] = fetch.mock.calls[0] as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    const body = init.body as string;
+    expect(url).toBe('http://localhost:4000/webhooks');
+    expect(JSON.parse(body)).toEqual({ id: 'delivery-1', ...delivery.payload });
+    expect(headers['x-webhook-event']).toBe('sent');
+    expect(
+      verifyWebhook('whsec_test', body, headers['x-webhook-signature']),
+    ).toBe(true);
+    expect(
+      verifyWebhook('whsec_other', body, headers['x-webhook-signature']),
+    ).toBe(false);
+    expect(queue.complete).toHaveBeenCalledWith(delivery, expect.anything(), {
+      statusCode: 200,
+      response: 'ok',
+    });
+  });
+
+  it('reads no more of the response than it keeps', async () => {
+    let pulled = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled += 1;
+        controller.enqueue(new Uint8Array(600).fill(0x61));
+      },
+    });
+    fetch.mockResolvedValue(new Response(body, { status: 200 }));
+
+    await worker.poll();
+
+    expect(queue.complete).toHaveBeenCalledWith(delivery, expect.anything(), {
+      statusCode: 200,
+      response: 'a'.repeat(1_000),
+    });
+    expect(pulled).toBeLessThan(5);
+  });
+
+  it('retries receivers that answer with an error or not at all', async () => {
+    queue.fail.mockResolvedValue(WebhookDeliveryState.Pending);
+    fetch.mockResolvedValueOnce(new Response('', { status: 503 }));
+    fetch.mockRejectedValueOnce(
+      new TypeError('fetch failed', {
+        cause: new Error('connect ECONNREFUSED 127.0.0.1:4000'),
+      }),
+    );
+
+    await worker.poll();
+    await worker.poll();
+
+    expect(queue.fail).toHaveBeenNthCalledWith(1, delivery, expect.anything(), {
+      statusCode: 503,
+      response: null,
+    });
+    expect(queue.fail).toHaveBeenNthCalledWith(2, delivery, expect.anything(), {
+      statusCode: null,
+      response: 'fetch failed: connect ECONNREFUSED 127.0.0.1:4000',
+    });
+    expect(queue.complete).not.toHaveBeenCalled();
+  });
+
+  it('refuses to call private addresses unless they are allowed', async () => {
+    queue.fail.mockResolvedValue(WebhookDeliveryState.Pending);
+    queue.claimDue.mockResolvedValue([
+      {
+        ...delivery,
+        webhook: {
+          ...delivery.webhook,
+          url: 'http://169.254.169.254/latest/meta-data',
+        },
+      },
+    ]);
+
+    await new WebhookDeliveryWorker(
+      queue as unknown as WebhookQueueService,
+      { workerEnabled: false, timeoutMs: 1_000 } as WebhooksConfig,
+    ).poll();
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(queue.fail).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      {
+        statusCode: null,
+        response: '169.254.169.254 is a private or reserved address',
+      },
+    );
+  });
+
+  it('gives up on calls to disabled webhooks without making them', async () => {
+    queue.claimDue.mockResolvedValue([
+      { ...delivery, webhook: { ...delivery.webhook, disabledAt: new Date() } },
+    ]);
+
+    await worker.poll();
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(queue.fail).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      { statusCode: null, response: 'Webhook was disabled' },
+      true,
+    );
+  });
+});
@@ -0,0 +1,218 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { hostname } from 'node:os';
+import { fetch, type Agent, type Response } from 'undici';
+import { webhooksConfig, type WebhooksConfig } from '../config/webhooks.config';
+import { runWithLogContext } from '../logging/log-context';
+import { EmailWebhookDelivery } from './entities/email-webhook-delivery.entity';
+import {
+  WebhookAttemptResult,
+  WebhookLockLostError,
+  WebhookQueueService,
+} from './webhook-queue.service';
+import { SIGNATURE_HEADER, signWebhook } from './webhook-signature';
+import { assertPublicWebhookUrl, pinnedAgent } from './webhook-url';
+
+/**
+ * How much of a receiver's response is read and kept in the delivery log;
+ * the rest is never downloaded.
+ */
+const MAX_LOGGED_RESPONSE_BYTES = 1_000;
+
+/**
+ * Polls the webhook queue and calls receivers, the same way the delivery
+ * worker sends email: deliveries are claimed with `FOR UPDATE SKIP LOCKED`
+ * so each one is made by a single instance. Any 2xx answer counts as
+ * delivered; anything else, including redirects and timeouts, is retried
+ * with backoff.
+ */
+@Injectable()
+export class WebhookDeliveryWorker
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(WebhookDeliveryWorker.name);
+  private readonly workerId = `${hostname()}:${process.pid}`;
+  private timer?: NodeJS.Timeout;
+  private inFlight: Promise<void> = Promise.resolve();
+  private stopped = false;
+
+  constructor(
+    private readonly queue: WebhookQueueService,
+    @Inject(webhooksConfig.KEY) private readonly config: WebhooksConfig,
+  ) {}
+
+  onApplicationBootstrap() {
+    if (!this.config.workerEnabled) {
+      this.logger.log('Webhook worker disabled');
+      return;
+    }
+    this.logger.log(`Webhook worker ${this.workerId} started`);
+    this.scheduleNextPoll();
+  }
+
+  async onApplicationShutdown() {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    await this.inFlight;
+  }
+
+  async poll(): Promise<void> {
+    let deliveries: EmailWebhookDelivery[];
+    try {
+      deliveries = await this.queue.claimDue(this.workerId);
+    } catch (error) {
+      this.logger.error(`Failed to claim webhook deliveries: ${String(error)}`);
+      return;
+    }
+    await Promise.all(
+      deliveries.map((delivery) =>
+        runWithLogContext({ txnRefNo: delivery.payload.txnRefNo }, () =>
+          this.deliver(delivery),
+        ),
+      ),
+    );
+  }
+
+  private scheduleNextPoll() {
+    if (this.stopped) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.inFlight = this.poll().finally(() => this.scheduleNextPoll());
+    }, this.config.pollIntervalMs);
+  }
+
+  private async deliver(delivery: EmailWebhookDelivery): Promise<void> {
+    const { webhook, payload } = delivery;
+    const context = { worker: this.workerId, startedAt: new Date() };
+    const label = `${payload.event} webhook for ${payload.txnRefNo}`;
+
+    if (webhook.disabledAt) {
+      await this.record(label, async () => {
+        await this.queue.fail(
+          delivery,
+          context,
+          { statusCode: null, response: 'Webhook was disabled' },
+          true,
+        );
+      });
+      return;
+    }
+
+    const result = await this.call(delivery);
+    const ok =
+      result.statusCode !== null &&
+      result.statusCode >= 200 &&
+      result.statusCode < 300;
+    await this.record(label, async () => {
+      if (ok) {
+        await this.queue.complete(delivery, context, result);
+        return;
+      }
+      const state = await this.queue.fail(delivery, context, result);
+      this.logger.warn(
+        `Attempt ${delivery.attempts} of ${label} to ${webhook.url} failed (${state}): ${result.statusCode ?? result.response}`,
+      );
+    });
+  }
+
+  private async call({
+    id,
+    webhook,
+    payload,
+  }: EmailWebhookDelivery): Promise<WebhookAttemptResult> {
+    const body = JSON.stringify({ id, ...payload });
+    let dispatcher: Agent | undefined;
+    try {
+      // Checked again, as the host may resolve elsewhere since it was added,
+      // and the call pinned to the addresses that passed.
+      if (!this.config.allowPrivateUrls) {
+        dispatcher = pinnedAgent(await assertPublicWebhookUrl(webhook.url));
+      }
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-webhook-id': id,
+          'x-webhook-event': payload.event,
+          [SIGNATURE_HEADER]: signWebhook(
+            webhook.secret,
+            body,
+            Math.floor(Date.now() / 1000),
+          ),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+        dispatcher,
+      });
+      return {
+        statusCode: response.status,
+        response:
+          (await readStart(response, MAX_LOGGED_RESPONSE_BYTES)) || null,
+      };
+    } catch (error) {
+      return { statusCode: null, response: describeError(error) };
+    } finally {
+      void dispatcher?.destroy();
+    }
+  }
+
+  /**
+   * If the outcome can't be saved the delivery keeps its lock until the
+   * lock timeout, after which it is made again. A delivery that was already
+   * picked up again is left to that worker.
+   */
+  private async record(label: string, save: () => Promise<void>) {
+    try {
+      await save();
+    } catch (error) {
+      if (error instanceof WebhookLockLostError) {
+        this.logger.warn(`Not recording the ${label}: ${error.message}`);
+        return;
+      }
+      this.logger.error(`Failed to record ${label}: ${String(error)}`);
+    }
+  }
+}
+
+/** Up to `maxBytes` of the body, after which the download is cancelled. */
+async function readStart(
+  response: Response,
+  maxBytes: number,
+): Promise<string> {
+  if (!response.body) {
+    return '';
+  }
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  while (length < maxBytes) {
+    const read = await reader.read();
+    if (read.done) {
+      break;
+    }
+    // undici types body chunks as any; fetch always reads bytes.
+    const chunk = read.value as Uint8Array;
+    chunks.push(chunk);
+    length += chunk.length;
+  }
+  await reader.cancel();
+  return Buffer.concat(chunks).subarray(0, maxBytes).toString('utf8');
+}
+
+/** fetch hides network errors behind a generic message and a `cause`. */
+function describeError(error: unknown): string {
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return 'Timed out waiting for a response';
+  }
+  if (error instanceof Error && error.cause instanceof Error) {
+    return `${error.message}: ${error.cause.message}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,15 @@
+import { EmailStatus } from '../email/email-status.enum';
+
+/** Status transitions a webhook can be called for. */
+export const WEBHOOK_EVENTS = [
+  EmailStatus.Sent,
+  EmailStatus.Failed,
+  EmailStatus.DeadLettered,
+  EmailStatus.Bounced,
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export function isWebhookEvent(status: EmailStatus): status is WebhookEvent {
+  return (WEBHOOK_EVENTS as readonly EmailStatus[]).includes(status);
+}
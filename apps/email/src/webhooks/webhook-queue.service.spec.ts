@@ -0,0 +1,98 @@
+import { DataSource } from 'typeorm';
+import { WebhooksConfig } from '../config/webhooks.config';
+import { EmailWebhookAttempt } from './entities/email-webhook-attempt.entity';
+import {
+  EmailWebhookDelivery,
+  WebhookDeliveryState,
+} from './entities/email-webhook-delivery.entity';
+import {
+  WebhookLockLostError,
+  WebhookQueueService,
+} from './webhook-queue.service';
+
+describe('WebhookQueueService', () => {
+  const manager = {
+    update: jest.fn(),
+    insert: jest.fn(),
+  };
+  const dataSource = {
+    transaction: jest.fn((work: (m: typeof manager) => unknown) =>
+      work(manager),
+    ),
+  };
+  const delivery = {
+    id: 'delivery-1',
+    attempts: 2,
+    maxAttempts: 5,
+  } as EmailWebhookDelivery;
+  const context = { worker: 'vm:1', startedAt: new Date() };
+  const result = { statusCode: 500, response: 'Internal Server Error' };
+  let queue: WebhookQueueService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    queue = new WebhookQueueService(
+      dataSource as unknown as DataSource,
+      { backoffBaseMs: 1_000, backoffMaxMs: 60_000 } as WebhooksConfig,
+    );
+  });
+
+  it('only records an outcome while the worker still holds the delivery', async () => {
+    manager.update.mockResolvedValue({ affected: 0 });
+
+    await expect(
+      queue.complete(delivery, context, { statusCode: 200, response: 'ok' }),
+    ).rejects.toThrow(WebhookLockLostError);
+    expect(manager.update).toHaveBeenCalledWith(
+      EmailWebhookDelivery,
+      {
+        id: 'delivery-1',
+        state: WebhookDeliveryState.Processing,
+        lockedBy: 'vm:1',
+        attempts: 2,
+      },
+      expect.objectContaining({
+        state: WebhookDeliveryState.Delivered,
+        lockedAt: null,
+        lockedBy: null,
+      }),
+    );
+    await expect(queue.fail(delivery, context, result)).rejects.toThrow(
+      WebhookLockLostError,
+    );
+    expect(manager.insert).not.toHaveBeenCalled();
+  });
+
+  it('schedules a retry and logs the attempt', async () => {
+    manager.update.mockResolvedValue({ affected: 1 });
+
+    await expect(queue.fail(delivery, context, result)).resolves.toBe(
+      WebhookDeliveryState.Pending,
+    );
+    expect(manager.insert).toHaveBeenCalledWith(
+      EmailWebhookAttempt,
+      expect.objectContaining({
+        deliveryId: 'delivery-1',
+        attemptNumber: 2,
+        statusCode: 500,
+      }),
+    );
+  });
+
+  it('gives up on final failures', async () => {
+    manager.update.mockResolvedValue({ affected: 1 });
+
+    await expect(queue.fail(delivery, context, result, true)).resolves.toBe(
+      WebhookDeliveryState.Failed,
+    );
+    expect(manager.update).toHaveBeenCalledWith(
+      EmailWebhookDelivery,
+      expect.anything(),
+      {
+        state: WebhookDeliveryState.Failed,
+        lockedAt: null,
+        lockedBy: null,
+      },
+    );
+  });
+});
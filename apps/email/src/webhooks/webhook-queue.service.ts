@@ -0,0 +1,227 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { DataSource, EntityManager } from 'typeorm';
+import type { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+import { webhooksConfig, type WebhooksConfig } from '../config/webhooks.config';
+import { EmailStatus } from '../email/email-status.enum';
+import { backoffDelay } from '../email/utils/backoff';
+import { EmailWebhookAttempt } from './entities/email-webhook-attempt.entity';
+import {
+  EmailWebhookDelivery,
+  WebhookDeliveryState,
+} from './entities/email-webhook-delivery.entity';
+import { isWebhookEvent } from './webhook-events';
+
+export interface WebhookAttemptContext {
+  worker: string;
+  startedAt: Date;
+}
+
+export interface WebhookAttemptResult {
+  statusCode: number | null;
+  response: string | null;
+}
+
+/**
+ * The delivery was claimed again after its lock timed out, so this call's
+ * outcome is no longer the worker's to record.
+ */
+export class WebhookLockLostError extends Error {
+  constructor(delivery: EmailWebhookDelivery, worker: string) {
+    super(
+      `${worker} no longer holds webhook delivery ${delivery.id} (attempt ${delivery.attempts}); another worker claimed it`,
+    );
+  }
+}
+
+@Injectable()
+export class WebhookQueueService {
+  constructor(
+    private readonly dataSource: DataSource,
+    @Inject(webhooksConfig.KEY) private readonly config: WebhooksConfig,
+  ) {}
+
+  /**
+   * Queues a call to every live webhook of the emails' sources that wants
+   * `status`. Must run inside the database transaction that records the
+   * transition, after the email itself has been updated.
+   */
+  async enqueue(
+    manager: EntityManager,
+    transactionIds: string[],
+    status: EmailStatus,
+    detail: string | null,
+  ): Promise<void> {
+    if (!isWebhookEvent(status) || transactionIds.length === 0) {
+      return;
+    }
+    await manager.query(
+      `INSERT INTO "email_webhook_deliveries"
+         ("webhook_id", "transaction_id", "event", "payload", "max_attempts")
+       SELECT "webhook"."id", "email"."id", $2, jsonb_build_object(
+           'event', $2::text,
+           'txnRefNo', "email"."txn_ref_no",
+           'source', "email"."source",
+           'messageId', "email"."message_id",
+           'batchId', "email"."batch_id",
+           'detail', $3::text,
+           'occurredAt', $4::text
+         ), $5
+       FROM "email_transactions" "email"
+       JOIN "email_webhooks" "webhook"
+         ON "webhook"."source" = "email"."source"
+        AND "webhook"."disabled_at" IS NULL
+        AND $2 = ANY("webhook"."events")
+       WHERE "email"."id" = ANY($1::uuid[])`,
+      [
+        transactionIds,
+        status,
+        detail,
+        new Date().toISOString(),
+        this.config.maxAttempts,
+      ],
+    );
+  }
+
+  /**
+   * Locks up to a batch of due deliveries for `worker`, with their webhook
+   * and its secret. Deliveries whose lock outlived the lock timeout are
+   * picked up again, since their worker must have died.
+   */
+  claimDue(worker: string): Promise<EmailWebhookDelivery[]> {
+    return this.dataSource.transaction(async (manager) => {
+      const [rows]: [{ id: string }[], number] = await manager.query(
+        `UPDATE "email_webhook_deliveries" SET
+           "state" = '${WebhookDeliveryState.Processing}',
+           "attempts" = "attempts" + 1,
+           "locked_at" = now(),
+           "locked_by" = $1
+         WHERE "id" IN (
+           SELECT "id" FROM "email_webhook_deliveries"
+           WHERE ("state" = '${WebhookDeliveryState.Pending}' AND "next_attempt_at" <= now())
+              OR ("state" = '${WebhookDeliveryState.Processing}'
+                  AND "locked_at" < now() - make_interval(secs => $3))
+           ORDER BY "next_attempt_at"
+           LIMIT $2
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING "id"`,
+        [worker, this.config.batchSize, this.config.lockTimeoutMs / 1000],
+      );
+      if (rows.length === 0) {
+        return [];
+      }
+      return manager
+        .createQueryBuilder(EmailWebhookDelivery, 'delivery')
+        .innerJoinAndSelect('delivery.webhook', 'webhook')
+        .addSelect('webhook.secret')
+        .where('delivery.id IN (:...ids)', { ids: rows.map((row) => row.id) })
+        .getMany();
+    });
+  }
+
+  complete(
+    delivery: EmailWebhookDelivery,
+    context: WebhookAttemptContext,
+    result: WebhookAttemptResult,
+  ): Promise<void> {
+    return this.dataSource.transaction(async (manager) => {
+      await this.release(manager, delivery, context, {
+        state: WebhookDeliveryState.Delivered,
+        deliveredAt: new Date(),
+      });
+      await this.recordAttempt(manager, delivery, context, result);
+    });
+  }
+
+  /**
+   * Records a failed call and either schedules a retry or gives up on the
+   * delivery. A `final` failure, such as a disabled webhook, is not retried.
+   * Returns the resulting state.
+   */
+  fail(
+    delivery: EmailWebhookDelivery,
+    context: WebhookAttemptContext,
+    result: WebhookAttemptResult,
+    final = false,
+  ): Promise<WebhookDeliveryState> {
+    return this.dataSource.transaction(async (manager) => {
+      const retry = !final && delivery.attempts < delivery.maxAttempts;
+      if (retry) {
+        const delay = backoffDelay(
+          delivery.attempts,
+          this.config.backoffBaseMs,
+          this.config.backoffMaxMs,
+        );
+        await this.release(manager, delivery, context, {
+          state: WebhookDeliveryState.Pending,
+          nextAttemptAt: new Date(Date.now() + delay),
+        });
+      } else {
+        await this.release(manager, delivery, context, {
+          state: WebhookDeliveryState.Failed,
+        });
+      }
+      await this.recordAttempt(manager, delivery, context, result);
+      return retry ? WebhookDeliveryState.Pending : WebhookDeliveryState.Failed;
+    });
+  }
+
+  /**
+   * Gives a failed delivery a fresh set of attempts, e.g. once its receiver
+   * is back. Returns false if the delivery hasn't failed.
+   */
+  async redeliver(deliveryId: string): Promise<boolean> {
+    const { affected } = await this.dataSource.manager.update(
+      EmailWebhookDelivery,
+      { id: deliveryId, state: WebhookDeliveryState.Failed },
+      {
+        state: WebhookDeliveryState.Pending,
+        // Keep counting attempts so the log stays in order.
+        maxAttempts: () => `"attempts" + ${this.config.maxAttempts}`,
+        nextAttemptAt: new Date(),
+      },
+    );
+    return Boolean(affected);
+  }
+
+  /**
+   * Unlocks a claimed delivery with its outcome, provided this worker's
+   * claim of it still stands, the same way the email queue releases jobs.
+   */
+  private async release(
+    manager: EntityManager,
+    delivery: EmailWebhookDelivery,
+    context: WebhookAttemptContext,
+    changes: QueryDeepPartialEntity<EmailWebhookDelivery>,
+  ): Promise<void> {
+    const { affected } = await manager.update(
+      EmailWebhookDelivery,
+      {
+        id: delivery.id,
+        state: WebhookDeliveryState.Processing,
+        lockedBy: context.worker,
+        attempts: delivery.attempts,
+      },
+      { ...changes, lockedAt: null, lockedBy: null },
+    );
+    if (!affected) {
+      throw new WebhookLockLostError(delivery, context.worker);
+    }
+  }
+
+  private async recordAttempt(
+    manager: EntityManager,
+    delivery: EmailWebhookDelivery,
+    context: WebhookAttemptContext,
+    result: WebhookAttemptResult,
+  ): Promise<void> {
+    await manager.insert(EmailWebhookAttempt, {
+      deliveryId: delivery.id,
+      attemptNumber: delivery.attempts,
+      worker: context.worker,
+      startedAt: context.startedAt,
+      finishedAt: new Date(),
+      ...result,
+    });
+  }
+}
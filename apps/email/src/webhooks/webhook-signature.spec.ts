@@ -0,0 +1,29 @@
+import { signWebhook, verifyWebhook } from './webhook-signature';
+
+describe('webhook signatures', () => {
+  const body = '{"event":"sent"}';
+  const now = Date.UTC(2026, 0, 1);
+  const timestamp = now / 1000;
+
+  it('verify against the body and secret they were made with', () => {
+    const header = signWebhook('whsec_test', body, timestamp);
+
+    expect(header).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhook('whsec_test', body, header, 300, now)).toBe(true);
+    expect(verifyWebhook('whsec_test', `${body} `, header, 300, now)).toBe(
+      false,
+    );
+    expect(verifyWebhook('whsec_other', body, header, 300, now)).toBe(false);
+  });
+
+  it('expire so old calls cannot be replayed', () => {
+    const header = signWebhook('whsec_test', body, timestamp - 301);
+
+    expect(verifyWebhook('whsec_test', body, header, 300, now)).toBe(false);
+  });
+
+  it('reject malformed headers', () => {
+    expect(verifyWebhook('whsec_test', body, 'v1=abc', 300, now)).toBe(false);
+    expect(verifyWebhook('whsec_test', body, '', 300, now)).toBe(false);
+  });
+});
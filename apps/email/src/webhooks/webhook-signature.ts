@@ -0,0 +1,61 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+const SECRET_PREFIX = 'whsec_';
+
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+
+/** A new signing secret, e.g. `whsec_Jx0c...`. */
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * The signature header value for a body sent at `timestamp` (Unix seconds):
+ * `t=<timestamp>,v1=<hex HMAC-SHA256 of "<timestamp>.<body>">`. Signing the
+ * timestamp lets receivers reject replays of old calls.
+ */
+export function signWebhook(
+  secret: string,
+  body: string,
+  timestamp: number,
+): string {
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`;
+}
+
+/**
+ * What a receiver does with the header: true if it was made with the secret
+ * for this exact body, no more than `toleranceSeconds` ago.
+ */
+export function verifyWebhook(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds = 300,
+  now = Date.now(),
+): boolean {
+  const parts = new Map(
+    header.split(',').map((part) => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')] as const;
+    }),
+  );
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) {
+    return false;
+  }
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+  const expected = Buffer.from(hmac(secret, timestamp, body));
+  const presented = Buffer.from(signature);
+  return (
+    expected.length === presented.length && timingSafeEqual(expected, presented)
+  );
+}
+
+function hmac(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
@@ -0,0 +1,85 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { assertPublicWebhookUrl, pinnedAgent } from './webhook-url';
+
+describe('assertPublicWebhookUrl', () => {
+  const resolvesTo =
+    (...addresses: string[]) =>
+    () =>
+      Promise.resolve(
+        addresses.map((address) => ({
+          address,
+          family: address.includes(':') ? 6 : 4,
+        })),
+      );
+
+  it.each([
+    'http://localhost:4000/hook',
+    'http://127.0.0.1/hook',
+    'http://10.1.2.3/hook',
+    'http://172.20.0.1/hook',
+    'http://192.168.1.10/hook',
+    'http://169.254.169.254/latest/meta-data',
+    'http://[::1]/hook',
+    'http://[fd00::1]/hook',
+    'http://[::ffff:127.0.0.1]/hook',
+  ])('refuses %s', async (url) => {
+    await expect(
+      assertPublicWebhookUrl(url, resolvesTo('127.0.0.1')),
+    ).rejects.toThrow('private or reserved address');
+  });
+
+  it('refuses hosts with any internal address', async () => {
+    await expect(
+      assertPublicWebhookUrl(
+        'https://hooks.example.com/email',
+        resolvesTo('93.184.216.34', '10.0.0.5'),
+      ),
+    ).rejects.toThrow(
+      'hooks.example.com resolves to 10.0.0.5, a private or reserved address',
+    );
+  });
+
+  it('refuses hosts that do not resolve', async () => {
+    await expect(
+      assertPublicWebhookUrl('https://billing.internal/email', () =>
+        Promise.reject(new Error('getaddrinfo ENOTFOUND')),
+      ),
+    ).rejects.toThrow('billing.internal could not be resolved');
+  });
+
+  it('accepts public hosts', async () => {
+    await expect(
+      assertPublicWebhookUrl(
+        'https://hooks.example.com/email',
+        resolvesTo('93.184.216.34', '2606:2800:220:1::248'),
+      ),
+    ).resolves.toEqual([
+      { address: '93.184.216.34', family: 4 },
+      { address: '2606:2800:220:1::248', family: 6 },
+    ]);
+  });
+});
+
+describe('pinnedAgent', () => {
+  it('connects to the pinned address whatever the host resolves to', async () => {
+    const server = createServer((request, response) =>
+      response.end(request.headers.host),
+    );
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    const dispatcher = pinnedAgent([{ address: '127.0.0.1', family: 4 }]);
+
+    try {
+      const response = await fetch(`http://hooks.invalid:${port}/email`, {
+        dispatcher,
+      } as RequestInit);
+      await expect(response.text()).resolves.toBe(`hooks.invalid:${port}`);
+    } finally {
+      await dispatcher.close();
+      server.close();
+    }
+  });
+});
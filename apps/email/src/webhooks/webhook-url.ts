@@ -0,0 +1,93 @@
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import { Agent } from 'undici';
+
+export interface ResolvedAddress {
+  address: string;
+  family: number;
+}
+
+export type HostLookup = (hostname: string) => Promise<ResolvedAddress[]>;
+
+/**
+ * Addresses a webhook may not be called at: loopback, private, link-local
+ * (including cloud metadata services at 169.254.169.254), carrier-grade
+ * NAT, multicast and reserved ranges. IPv4-mapped IPv6 addresses are
+ * checked against the IPv4 ranges; NAT64 ones are refused outright.
+ */
+const BLOCKED = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  BLOCKED.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED.addSubnet(network, prefix, 'ipv6');
+}
+
+export class WebhookUrlError extends Error {}
+
+/**
+ * Rejects URLs whose host is, or resolves to, an address inside the
+ * network, so a webhook can't be used to reach internal services. Returns
+ * the addresses that were checked.
+ */
+export async function assertPublicWebhookUrl(
+  url: string,
+  resolve: HostLookup = (hostname) => lookup(hostname, { all: true }),
+): Promise<ResolvedAddress[]> {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  let addresses: ResolvedAddress[];
+  try {
+    addresses = isIP(hostname)
+      ? [{ address: hostname, family: isIP(hostname) }]
+      : await resolve(hostname);
+  } catch {
+    throw new WebhookUrlError(`${hostname} could not be resolved`);
+  }
+  const blocked = addresses.find(({ address, family }) =>
+    BLOCKED.check(address, family === 6 ? 'ipv6' : 'ipv4'),
+  );
+  if (blocked) {
+    throw new WebhookUrlError(
+      blocked.address === hostname
+        ? `${hostname} is a private or reserved address`
+        : `${hostname} resolves to ${blocked.address}, a private or reserved address`,
+    );
+  }
+  return addresses;
+}
+
+/**
+ * A dispatcher for `fetch` that connects only to `addresses`, so the call
+ * goes where the check said it would even if the host's DNS has since
+ * changed to point inside the network.
+ */
+export function pinnedAgent(addresses: ResolvedAddress[]): Agent {
+  return new Agent({
+    connect: {
+      lookup: (_hostname, options, callback) => {
+        if (options.all) {
+          callback(null, addresses);
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      },
+    },
+  });
+}
@@ -0,0 +1,111 @@
+import {
+  Body,
+  Controller,
+  DefaultValuePipe,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { Audited } from '../audit/audited.decorator';
+import { CurrentPrincipal } from '../auth/auth.decorators';
+import {
+  assertSourceAccess,
+  sourceScope,
+  type Principal,
+} from '../auth/principal';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import {
+  SignedWebhookResponseDto,
+  WebhookDeliveryResponseDto,
+  WebhookResponseDto,
+} from './dto/webhook-response.dto';
+import { WebhooksService } from './webhooks.service';
+
+/** Sources manage their own webhooks; the admin token manages any. */
+@Controller('webhooks')
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Get()
+  findAll(
+    @CurrentPrincipal() principal: Principal,
+    @Query('source') source?: string,
+  ): Promise<WebhookResponseDto[]> {
+    return this.webhooksService.findAll(sourceScope(principal) ?? source);
+  }
+
+  @Post()
+  @Audited('webhook.create')
+  create(
+    @Body() dto: CreateWebhookDto,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<SignedWebhookResponseDto> {
+    assertSourceAccess(principal, dto.source);
+    return this.webhooksService.create(dto);
+  }
+
+  @Patch(':id')
+  @Audited('webhook.update')
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateWebhookDto,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<WebhookResponseDto> {
+    return this.webhooksService.update(id, dto, sourceScope(principal));
+  }
+
+  @Post(':id/rotate-secret')
+  @Audited('webhook.rotate-secret')
+  rotateSecret(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<SignedWebhookResponseDto> {
+    return this.webhooksService.rotateSecret(id, sourceScope(principal));
+  }
+
+  @Delete(':id')
+  @Audited('webhook.disable')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  disable(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<void> {
+    return this.webhooksService.disable(id, sourceScope(principal));
+  }
+
+  @Get(':id/deliveries')
+  findDeliveries(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<WebhookDeliveryResponseDto[]> {
+    return this.webhooksService.findDeliveries(
+      id,
+      Math.min(limit, 500),
+      sourceScope(principal),
+    );
+  }
+
+  @Post(':id/deliveries/:deliveryId/redeliver')
+  @Audited('webhook.redeliver')
+  @HttpCode(HttpStatus.ACCEPTED)
+  redeliver(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('deliveryId', ParseUUIDPipe) deliveryId: string,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<void> {
+    return this.webhooksService.redeliver(
+      id,
+      deliveryId,
+      sourceScope(principal),
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { webhooksConfig } from '../config/webhooks.config';
+import { EmailWebhookAttempt } from './entities/email-webhook-attempt.entity';
+import { EmailWebhookDelivery } from './entities/email-webhook-delivery.entity';
+import { EmailWebhook } from './entities/email-webhook.entity';
+import { WebhookDeliveryWorker } from './webhook-delivery.worker';
+import { WebhookQueueService } from './webhook-queue.service';
+import { WebhooksController } from './webhooks.controller';
+import { WebhooksService } from './webhooks.service';
+
+@Module({
+  imports: [
+    ConfigModule.forFeature(webhooksConfig),
+    TypeOrmModule.forFeature([
+      EmailWebhook,
+      EmailWebhookDelivery,
+      EmailWebhookAttempt,
+    ]),
+  ],
+  controllers: [WebhooksController],
+  providers: [WebhooksService, WebhookQueueService, WebhookDeliveryWorker],
+  exports: [WebhookQueueService],
+})
+export class WebhooksModule {}
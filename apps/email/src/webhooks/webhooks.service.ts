@@ -0,0 +1,213 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { webhooksConfig, type WebhooksConfig } from '../config/webhooks.config';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import {
+  SignedWebhookResponseDto,
+  WebhookDeliveryResponseDto,
+  WebhookResponseDto,
+} from './dto/webhook-response.dto';
+import { EmailWebhookAttempt } from './entities/email-webhook-attempt.entity';
+import {
+  EmailWebhookDelivery,
+  WebhookDeliveryState,
+} from './entities/email-webhook-delivery.entity';
+import { EmailWebhook } from './entities/email-webhook.entity';
+import { WEBHOOK_EVENTS } from './webhook-events';
+import { WebhookQueueService } from './webhook-queue.service';
+import { generateWebhookSecret } from './webhook-signature';
+import { assertPublicWebhookUrl, WebhookUrlError } from './webhook-url';
+
+/**
+ * Manages each source's webhooks. Passing a source hides other sources'
+ * webhooks as if they didn't exist.
+ */
+@Injectable()
+export class WebhooksService {
+  constructor(
+    @InjectRepository(EmailWebhook)
+    private readonly webhooks: Repository<EmailWebhook>,
+    @InjectRepository(EmailWebhookDelivery)
+    private readonly deliveries: Repository<EmailWebhookDelivery>,
+    @InjectRepository(EmailWebhookAttempt)
+    private readonly attempts: Repository<EmailWebhookAttempt>,
+    private readonly queue: WebhookQueueService,
+    @Inject(webhooksConfig.KEY) private readonly config: WebhooksConfig,
+  ) {}
+
+  async findAll(source?: string): Promise<WebhookResponseDto[]> {
+    const webhooks = await this.webhooks.find({
+      where: source ? { source } : {},
+      order: { createdAt: 'DESC' },
+    });
+    return webhooks.map((webhook) => this.toResponse(webhook));
+  }
+
+  async create(dto: CreateWebhookDto): Promise<SignedWebhookResponseDto> {
+    await this.checkUrl(dto.url);
+    const secret = generateWebhookSecret();
+    const webhook = await this.webhooks.save(
+      this.webhooks.create({
+        source: dto.source,
+        url: dto.url,
+        events: dto.events ?? [...WEBHOOK_EVENTS],
+        secret,
+        disabledAt: null,
+      }),
+    );
+    return { ...this.toResponse(webhook), secret };
+  }
+
+  async update(
+    id: string,
+    dto: UpdateWebhookDto,
+    source?: string,
+  ): Promise<WebhookResponseDto> {
+    const webhook = await this.findOne(id, source);
+    if (dto.url !== undefined) {
+      await this.checkUrl(dto.url);
+    }
+    webhook.url = dto.url ?? webhook.url;
+    webhook.events = dto.events ?? webhook.events;
+    if (dto.active !== undefined) {
+      webhook.disabledAt = dto.active
+        ? null
+        : (webhook.disabledAt ?? new Date());
+    }
+    return this.toResponse(await this.webhooks.save(webhook));
+  }
+
+  /** Replaces the secret straight away; calls already queued use the new one. */
+  async rotateSecret(
+    id: string,
+    source?: string,
+  ): Promise<SignedWebhookResponseDto> {
+    const webhook = await this.findOne(id, source);
+    const secret = generateWebhookSecret();
+    await this.webhooks.update(webhook.id, { secret });
+    return { ...this.toResponse(webhook), secret };
+  }
+
+  async disable(id: string, source?: string): Promise<void> {
+    await this.update(id, { active: false }, source);
+  }
+
+  /**
+   * The delivery log, newest first, with every call made for each. What
+   * receivers answered is only shown to the admin; sources see status codes
+   * and why calls that got no answer failed.
+   */
+  async findDeliveries(
+    id: string,
+    limit: number,
+    source?: string,
+  ): Promise<WebhookDeliveryResponseDto[]> {
+    const webhook = await this.findOne(id, source);
+    const deliveries = await this.deliveries.find({
+      where: { webhookId: webhook.id },
+      order: { createdAt: 'DESC' },
+      take: limit,
+    });
+    const attempts =
+      deliveries.length === 0
+        ? []
+        : await this.attempts
+            .createQueryBuilder('attempt')
+            .where('attempt.deliveryId IN (:...ids)', {
+              ids: deliveries.map((delivery) => delivery.id),
+            })
+            .orderBy('attempt.attemptNumber', 'ASC')
+            .getMany();
+
+    return deliveries.map((delivery) => ({
+      id: delivery.id,
+      event: delivery.event,
+      txnRefNo: delivery.payload.txnRefNo,
+      state: delivery.state,
+      nextAttemptAt:
+        delivery.state === WebhookDeliveryState.Pending
+          ? delivery.nextAttemptAt
+          : null,
+      createdAt: delivery.createdAt,
+      deliveredAt: delivery.deliveredAt,
+      attempts: attempts
+        .filter((attempt) => attempt.deliveryId === delivery.id)
+        .map(
+          ({ attemptNumber, statusCode, response, startedAt, finishedAt }) => ({
+            attemptNumber,
+            statusCode,
+            response: source && statusCode !== null ? null : response,
+            startedAt,
+            finishedAt,
+          }),
+        ),
+    }));
+  }
+
+  async redeliver(
+    id: string,
+    deliveryId: string,
+    source?: string,
+  ): Promise<void> {
+    const webhook = await this.findOne(id, source);
+    const delivery = await this.deliveries.findOneBy({
+      id: deliveryId,
+      webhookId: webhook.id,
+    });
+    if (!delivery) {
+      throw new NotFoundException(
+        `No delivery found with id ${deliveryId} for webhook ${id}`,
+      );
+    }
+    if (!(await this.queue.redeliver(delivery.id))) {
+      throw new ConflictException(
+        `Delivery ${deliveryId} is ${delivery.state}; only failed deliveries can be redelivered`,
+      );
+    }
+  }
+
+  private async checkUrl(url: string): Promise<void> {
+    if (this.config.allowPrivateUrls) {
+      return;
+    }
+    try {
+      await assertPublicWebhookUrl(url);
+    } catch (error) {
+      if (error instanceof WebhookUrlError) {
+        throw new BadRequestException(`url is not allowed: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  private async findOne(id: string, source?: string): Promise<EmailWebhook> {
+    const webhook = await this.webhooks.findOneBy({
+      id,
+      ...(source ? { source } : {}),
+    });
+    if (!webhook) {
+      throw new NotFoundException(`No webhook found with id ${id}`);
+    }
+    return webhook;
+  }
+
+  private toResponse(webhook: EmailWebhook): WebhookResponseDto {
+    return {
+      id: webhook.id,
+      source: webhook.source,
+      url: webhook.url,
+      events: webhook.events,
+      active: webhook.disabledAt === null,
+      createdAt: webhook.createdAt,
+      updatedAt: webhook.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,97 @@
+import type { NextRequest } from 'next/server';
+import { readSession } from '@/lib/session';
+
+// The browser calls the email service through this route, so the API keys
+// stay on the server: EMAIL_API_KEYS maps sources to keys as JSON. Requests
+// need a web session and use the key of the session's source.
+const parseApiKeys = (): Record<string, string> => {
+    try {
+        return JSON.parse(process.env.EMAIL_API_KEYS || '{}');
+    } catch (error) {
+        console.error('EMAIL_API_KEYS is not valid JSON', error);
+        return {};
+    }
+};
+
+const apiKeys = parseApiKeys();
+
+// Only what the web app itself calls: sends and status lookups. Everything
+// else on the email service is for its API clients and operators.
+const ALLOWED_ROUTES: Array<{ method: string; path: RegExp }> = [
+    { method: 'POST', path: /^send$/ },
+    { method: 'POST', path: /^send\/multipart$/ },
+    { method: 'GET', path: /^[^/]+$/ },
+];
+
+const isAllowed = (method: string, path: string[]): boolean =>
+    ALLOWED_ROUTES.some(
+        (route) => route.method === method && route.path.test(path.join('/')),
+    );
+
+const FORWARDED_REQUEST_HEADERS = ['Content-Type', 'Content-Length', 'X-Request-Id'];
+const FORWARDED_RESPONSE_HEADERS = ['Content-Type', 'Retry-After', 'X-Request-Id'];
+
+const copyHeaders = (from: Headers, names: string[]): Headers => {
+    const headers = new Headers();
+    for (const name of names) {
+        const value = from.get(name);
+        if (value !== null) {
+            headers.set(name, value);
+        }
+    }
+    return headers;
+};
+
+const proxy = async (
+    request: NextRequest,
+    { params }: { params: Promise<{ path: string[] }> },
+): Promise<Response> => {
+    const backendUrl = process.env.EMAIL_SERVICE_URL;
+    if (!backendUrl) {
+        return Response.json({ message: 'EMAIL_SERVICE_URL is not set' }, { status: 500 });
+    }
+
+    const session = readSession(request);
+    if (!session) {
+        return Response.json({ message: 'Sign in to use the email service' }, { status: 401 });
+    }
+
+    const { path } = await params;
+    if (!isAllowed(request.method, path)) {
+        return Response.json({ message: 'Not found' }, { status: 404 });
+    }
+
+    const apiKey = Object.hasOwn(apiKeys, session.source) ? apiKeys[session.source] : undefined;
+    if (!apiKey) {
+        console.error('No API key for source', { source: session.source });
+        return Response.json(
+            { message: `No API key is configured for source ${session.source}` },
+            { status: 500 },
+        );
+    }
+
+    const url = new URL(
+        `/api/email/${path.map(encodeURIComponent).join('/')}${request.nextUrl.search}`,
+        backendUrl,
+    );
+
+    const headers = copyHeaders(request.headers, FORWARDED_REQUEST_HEADERS);
+    headers.set('Authorization', `Bearer ${apiKey}`);
+
+    // Buffered rather than streamed: the email service requires a
+    // Content-Length on multipart uploads
+    const body = request.method === 'GET' ? undefined : await request.arrayBuffer();
+
+    try {
+        const response = await fetch(url, { method: request.method, headers, body });
+        return new Response(response.body, {
+            status: response.status,
+            headers: copyHeaders(response.headers, FORWARDED_RESPONSE_HEADERS),
+        });
+    } catch (error) {
+        console.error('Email service unreachable', { url: url.toString(), error });
+        return Response.json({ message: 'Email service unreachable' }, { status: 502 });
+    }
+};
+
+export { proxy as GET, proxy as POST };
@@ -0,0 +1,35 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { readSession, SESSION_COOKIE, sessionCookie, signIn } from '@/lib/session';
+
+// The signed-in user and the source they send as
+export const GET = (request: NextRequest): Response => {
+    const session = readSession(request);
+    if (!session) {
+        return Response.json({ message: 'Not signed in' }, { status: 401 });
+    }
+    const { username, source } = session;
+    return Response.json({ username, source });
+};
+
+// Signs in with {"username", "password"}
+export const POST = async (request: NextRequest): Promise<Response> => {
+    const { username, password } = await request.json().catch(() => ({}));
+    const session =
+        typeof username === 'string' && typeof password === 'string'
+            ? signIn(username, password)
+            : null;
+    if (!session) {
+        return Response.json({ message: 'Invalid username or password' }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ username, source: session.source });
+    response.cookies.set(sessionCookie(session));
+    return response;
+};
+
+export const DELETE = (): Response => {
+    const response = new NextResponse(null, { status: 204 });
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+};
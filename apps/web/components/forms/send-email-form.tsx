@@ -27,11 +27,35 @@ import {
   DialogTitle,
 } from "@workspace/ui/components/dialog"
 import { X, Paperclip, Send, Copy, Check, Loader2 } from "lucide-react"
-import { useState } from "react"
-import { sendEmail, type EmailPayload } from "@/services/email"
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { EmailServiceError, getEmailStatus, sendEmail, sendEmailMultipart, type EmailPayload, type EmailStatusResult } from "@/services/email"
+import { getSession } from "@/services/session"
 import { de } from "zod/locales"
 
-const MAX_TOTAL_SIZE = 150 * 1024 * 1024 // 15MB total for all files
+const STATUS_POLL_INTERVAL_MS = 3000
+
+const formatRetryAfter = (seconds = 1) => {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`
+  const minutes = Math.ceil(seconds / 60)
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"}`
+  const hours = Math.ceil(minutes / 60)
+  return `${hours} hour${hours === 1 ? "" : "s"}`
+}
+
+const describeStatus = (result: EmailStatusResult) => {
+  if (result.status === "scheduled" && result.sendAt) {
+    return `Email ${result.txnRefNo} is scheduled for ${new Date(result.sendAt).toLocaleString()} (Message ID: ${result.messageId}).`
+  }
+  const latest = result.history[result.history.length - 1]
+  const detail = result.error?.message ?? latest?.detail
+  const retry = result.nextAttemptAt ? ` Next attempt at ${new Date(result.nextAttemptAt).toLocaleTimeString()}.` : ""
+  return `Email ${result.txnRefNo} is ${result.status} (Message ID: ${result.messageId}).${detail ? ` ${detail}` : ""}${retry}`
+}
+
+const MAX_TOTAL_SIZE = 15 * 1024 * 1024 // 15MB total for all files, matching the email service's default policy
+// Above this, files go up as multipart parts instead of base64 in the JSON body
+const MULTIPART_THRESHOLD = 2 * 1024 * 1024
 const ACCEPTED_FILE_TYPES = [
   "image/jpeg",
   "image/jpg",
@@ -57,6 +81,10 @@ const formSchema = z.object({
   htmlBody: z.string().optional(),
   autoPrompt: z.string().optional(),
   templateId: z.string().optional(),
+  // datetime-local value in the browser's time zone; empty sends straight away
+  sendAt: z.string().optional().refine((value) => !value || new Date(value).getTime() > Date.now(), {
+    message: "Send time must be in the future",
+  }),
 })
 
 interface FileWithBase64 {
@@ -65,15 +93,18 @@ interface FileWithBase64 {
   type: string
   base64: string
   originalName?: string
+  file: File
 }
 
 interface HtmlImage {
   filename: string
   base64: string
   originalName?: string
+  file: File
 }
 
 export function SendEmailForm() {
+  const router = useRouter()
   const [files, setFiles] = useState<FileWithBase64[]>([])
   const [htmlImages, setHtmlImages] = useState<HtmlImage[]>([])
   const [alertDialog, setAlertDialog] = useState<{ open: boolean; title: string; description: string }>({
@@ -86,6 +117,7 @@ export function SendEmailForm() {
   const [showPayloadDialog, setShowPayloadDialog] = useState(false)
   const [copied, setCopied] = useState(false)
   const [isSending, setIsSending] = useState(false)
+  const [trackedEmail, setTrackedEmail] = useState<string | null>(null)
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -101,11 +133,47 @@ export function SendEmailForm() {
       htmlBody: "<!DOCTYPE html><html lang=\"en\"><head><meta charset=\"UTF-8\"><meta http-equiv=\"x-ua-compatible\" , content=\"IE=edge\"><meta name=\"viewport\" , content=\"width=device-width, initial-scale=1\"><style>* {box-sizing: border-box;}body {width: 100%;text-align: center;font-family: 'Helvetica', 'Arial', sans-serif;}.container {display: inline-block;width: 600px;background: #FFF;text-align: start;}.heading {width: inherit;height: 242px;background-repeat: no-repeat;background-size: auto 100%;background-position: right center;position: relative;}.heading .header-img {width: 100%;height: 100%;}.heading .logo {position: absolute;top: 11px;left: 9px;}.heading .floating-circle {position: absolute;width: 134px;height: 134px;left: 62px;top: 77px;background: #FECE00;border-radius: 50%;}.heading .text-wrap {position: absolute;width: 126px;height: 65px;top: 50%;left: 50%;transform: translate(-50%, -50%);text-align: center;padding-top: 10px;}.heading .text-wrap span {font-size: 12px;}.heading .text-wrap .label {font-size: 15px;font-weight: bold;}.content {padding: 24px 46px;}.content .message {font-size: 16px;line-height: 21px;}.content .infos {margin-top: 30px;padding: 30px 27px;width: 506px;box-shadow: 0px 4px 35px rgba(0, 0, 0, 0.2);}.content .infos table {width: 100%;}.content .infos table tr {line-height: 20px;font-size: 15px;}.content .info-row td:nth-child(1) {text-align: start;letter-spacing: 1px;}.content .info-row td:nth-child(2) {text-align: end;font-weight: bold;letter-spacing: 0.5px;}.footer {text-align: center;margin-top: 20px;}.footer > span {font-size: 13px;}</style></head><body><div class=\"container\"><div class=\"heading\"><img class=\"header-img\" src=\"cid:header.png\" /><img src=\"cid:maybank_logo.png\" class=\"logo\"/><div class=\"floating-circle\"><div class=\"text-wrap\"><span class=\"label\">Congratulations!</span><span>Your loan/financing is approved</span></div></div></div><div class=\"content\"><p class=\"message\">Dear <b>Andy Eng,</b><br/><br/>Your Personal Loan/Financing-i has been approved! <br/><br/>Congrats! Go to Maybank2u to check your account balance now.<br/>Your loan/financing details as below:</p><div class=\"infos\"><table><tr class=\"info-row\"><td>Facility</td><td>Personal Financing-i</td></tr><tr class=\"info-row\"><td>Loan/Financing Amount</td><td>RM 9,750</td></tr><tr class=\"info-row\"><td>Tenure</td><td>3 years</td></tr><tr class=\"info-row\"><td>Interest/Profit Rate</td><td>8% p.a</td></tr><tr class=\"info-row\"><td>Monthly Payments</td><td>RM 300</td></tr><tr class=\"info-row\"><td>Payout Account</td><td>Savings Account 123123133213</td></tr><tr class=\"info-row\"><td>Reference Number</td><td>M2908C1675</td></tr></table></div></div><div class=\"footer\"><span>Call <b>1300 8866 88,</b> or log on to <b>www.maybank2u.com.my</b> for more information.</span><img src=\"cid:footer.png\"/></div></div></body></html>",
       autoPrompt: "",
       templateId: "1",
+      sendAt: "",
     },
   })
 
   const emailType = form.watch("emailType")
 
+  // Emails are sent as the signed-in user's source
+  useEffect(() => {
+    getSession()
+      .then((session) => {
+        if (session) {
+          form.resetField("source", { defaultValue: session.source })
+        } else {
+          router.push("/login")
+        }
+      })
+      .catch((error) => console.error(error))
+  }, [form, router])
+
+  // Poll the delivery status while the success dialog is open
+  useEffect(() => {
+    if (!trackedEmail || !alertDialog.open) return
+
+    let cancelled = false
+    const poll = async () => {
+      try {
+        const result = await getEmailStatus(trackedEmail)
+        if (cancelled) return
+        setAlertDialog((prev) => ({ ...prev, description: describeStatus(result) }))
+        if (result.final) setTrackedEmail(null)
+      } catch (error) {
+        console.error(error)
+      }
+    }
+    const interval = setInterval(poll, STATUS_POLL_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [trackedEmail, alertDialog.open])
+
   const convertToBase64 = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
       const reader = new FileReader()
@@ -152,6 +220,7 @@ export function SendEmailForm() {
             type: file.type,
             base64: base64,
             originalName: file.name,
+            file,
           }
           setFiles((prev) => [...prev, fileWithBase64])
           currentTotalSize += file.size
@@ -187,6 +256,7 @@ export function SendEmailForm() {
             filename: file.name,
             base64: base64,
             originalName: file.name,
+            file,
           }
           setHtmlImages((prev) => [...prev, htmlImage])
         } catch (error) {
@@ -238,7 +308,8 @@ export function SendEmailForm() {
   }
 
   const generateTxnRefNo = () => {
-    return `Email-${Date.now()}`
+    // txnRefNo is the server's idempotency key, so it must not collide
+    return `Email-${Date.now()}-${crypto.randomUUID().slice(0, 8)}`
   }
 
   const generateHtmlFromPrompt = (prompt: string, images: HtmlImage[]) => {
@@ -285,6 +356,9 @@ export function SendEmailForm() {
         isText: isText,
       }
     }
+    if (values.sendAt) {
+      payload.additionalInfo.sendAt = new Date(values.sendAt).toISOString()
+    }
     if(values.cc) {
       payload.payload.cc = parseEmails(values.cc)
     } else {
@@ -333,6 +407,11 @@ export function SendEmailForm() {
     setShowPayloadDialog(true)
   }
 
+  const closeAlertDialog = () => {
+    setAlertDialog((prev) => ({ ...prev, open: false }))
+    setTrackedEmail(null)
+  }
+
   const copyToClipboard = () => {
     navigator.clipboard.writeText(jsonPayload)
     setCopied(true)
@@ -344,18 +423,39 @@ export function SendEmailForm() {
 
     setIsSending(true)
     try {
-      const response = await sendEmail(payloadObject)
+      const uploadSize = [...files.map((f) => f.file), ...htmlImages.map((img) => img.file)]
+        .reduce((total, file) => total + file.size, 0)
+      // The payload only carries files the chosen email type sends
+      const response = uploadSize > MULTIPART_THRESHOLD
+        ? await sendEmailMultipart(payloadObject, {
+            html_images: payloadObject.additionalInfo.html_images && htmlImages.map((img) => ({ filename: img.filename, file: img.file })),
+            attachment_files: payloadObject.additionalInfo.attachment_files && files.map((f) => ({ filename: f.name, file: f.file })),
+          })
+        : await sendEmail(payloadObject)
       console.log(response)
       setAlertDialog({
         open: true,
-        title: "Email Sent Successfully",
-        description: `Email has been sent successfully. ${response.message || ''}`,
+        title: response.status === "scheduled" ? "Email Scheduled" : "Email Accepted",
+        description: `Email ${response.txnRefNo} is ${response.status} (Message ID: ${response.messageId}). ${response.message || ''} ${response.warnings.join(" ")}`.trim(),
       })
+      setTrackedEmail(response.txnRefNo)
       setShowPayloadDialog(false)
       form.reset()
       setFiles([])
       setHtmlImages([])
     } catch (error: any) {
+      if (error instanceof EmailServiceError && error.status === 401) {
+        router.push("/login")
+        return
+      }
+      if (error instanceof EmailServiceError && error.status === 429) {
+        setAlertDialog({
+          open: true,
+          title: "Sending Limit Reached",
+          description: `${error.message}. Try again in ${formatRetryAfter(error.retryAfterSeconds)}.`,
+        })
+        return
+      }
       setAlertDialog({
         open: true,
         title: "Failed to Send Email",
@@ -384,9 +484,10 @@ export function SendEmailForm() {
                     <FormLabel>Source</FormLabel>
                     <FormControl>
                       <Input
-                        
+                        readOnly
                         placeholder="e.g., QR-something, Testing" {...field} />
                     </FormControl>
+                    <FormDescription>The source you are signed in as</FormDescription>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -534,6 +635,21 @@ export function SendEmailForm() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="sendAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Send At (Optional)</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormDescription>Leave empty to send now. The time is in your local time zone.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               {emailType === "text" && (
                 <>
                   <FormField
@@ -638,7 +754,7 @@ export function SendEmailForm() {
                                   placeholder="image.png"
                                 />
                                 <p className="text-xs text-muted-foreground">
-                                  Will be referenced as: cid:img@{img.filename}
+                                  Reference in HTML as: cid:{img.filename} or cid:img@{img.filename}
                                 </p>
                               </div>
                               <Button
@@ -916,14 +1032,14 @@ export function SendEmailForm() {
       </Card>
 
       {/* Alert Dialog for Errors */}
-      <AlertDialog open={alertDialog.open} onOpenChange={(open) => setAlertDialog({ ...alertDialog, open })}>
+      <AlertDialog open={alertDialog.open} onOpenChange={(open) => !open && closeAlertDialog()}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>{alertDialog.title}</AlertDialogTitle>
             <AlertDialogDescription>{alertDialog.description}</AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogAction onClick={() => setAlertDialog({ ...alertDialog, open: false })}>
+            <AlertDialogAction onClick={closeAlertDialog}>
               OK
             </AlertDialogAction>
           </AlertDialogFooter>
@@ -0,0 +1,77 @@
+import { scryptSync } from 'node:crypto';
+import type { NextRequest } from 'next/server';
+
+const hashPassword = (password: string, salt: string): string =>
+    `scrypt:${salt}:${scryptSync(password, salt, 32).toString('hex')}`;
+
+process.env.WEB_SESSION_SECRET = 'test-secret';
+process.env.WEB_USERS = JSON.stringify({
+    aina: { password: hashPassword('correct horse', 'salt-1'), source: 'Testing' },
+});
+
+// Imported after the environment is set, since WEB_USERS is read on load
+const { readSession, SESSION_COOKIE, sessionCookie, signIn } =
+    require('./session') as typeof import('./session');
+
+const requestWith = (cookie?: string): NextRequest =>
+    ({
+        cookies: {
+            get: (name: string) => (name === SESSION_COOKIE && cookie ? { value: cookie } : undefined),
+        },
+    }) as unknown as NextRequest;
+
+describe('session', () => {
+    beforeEach(() => {
+        jest.useFakeTimers({ now: new Date('2026-01-01T09:00:00Z') });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('signs in with the right password only', () => {
+        expect(signIn('aina', 'correct horse')).toEqual({
+            username: 'aina',
+            source: 'Testing',
+            expiresAt: new Date('2026-01-01T17:00:00Z').getTime(),
+        });
+        expect(signIn('aina', 'wrong horse')).toBeNull();
+        expect(signIn('nobody', 'correct horse')).toBeNull();
+        expect(signIn('constructor', 'correct horse')).toBeNull();
+    });
+
+    it('reads back the session it signed', () => {
+        const session = signIn('aina', 'correct horse')!;
+
+        expect(readSession(requestWith(sessionCookie(session).value))).toEqual(session);
+        expect(readSession(requestWith())).toBeNull();
+    });
+
+    it('rejects cookies whose session or signature was tampered with', () => {
+        const session = signIn('aina', 'correct horse')!;
+        const [, signature] = sessionCookie(session).value.split('.');
+        const forged = Buffer.from(JSON.stringify({ ...session, source: 'Payroll' })).toString(
+            'base64url',
+        );
+
+        expect(readSession(requestWith(`${forged}.${signature}`))).toBeNull();
+        expect(readSession(requestWith(`${forged}.`))).toBeNull();
+        expect(readSession(requestWith(forged))).toBeNull();
+    });
+
+    it('rejects sessions that have expired', () => {
+        const cookie = sessionCookie(signIn('aina', 'correct horse')!).value;
+
+        jest.setSystemTime(new Date('2026-01-01T16:59:59Z'));
+        expect(readSession(requestWith(cookie))).not.toBeNull();
+
+        jest.setSystemTime(new Date('2026-01-01T17:00:00Z'));
+        expect(readSession(requestWith(cookie))).toBeNull();
+    });
+
+    it('rejects sessions for a source the user no longer sends as', () => {
+        const session = { username: 'aina', source: 'Payroll', expiresAt: Date.now() + 60_000 };
+
+        expect(readSession(requestWith(sessionCookie(session).value))).toBeNull();
+    });
+});
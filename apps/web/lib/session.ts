@@ -0,0 +1,98 @@
+import { createHmac, scryptSync, timingSafeEqual } from 'node:crypto';
+import type { NextRequest } from 'next/server';
+
+// Who is signed in to the web app, and the one source they send as. The
+// source comes from WEB_USERS, never from the request.
+export interface WebSession {
+    username: string;
+    source: string;
+    expiresAt: number;
+}
+
+// WEB_USERS maps usernames to a scrypt password hash and a source, e.g.
+// {"aina":{"password":"scrypt:<salt>:<hash>","source":"Testing"}}
+interface WebUser {
+    password: string;
+    source: string;
+}
+
+export const SESSION_COOKIE = 'email_session';
+
+const SESSION_TTL_SECONDS = 8 * 60 * 60;
+
+const parseUsers = (): Record<string, WebUser> => {
+    try {
+        return JSON.parse(process.env.WEB_USERS || '{}');
+    } catch (error) {
+        console.error('WEB_USERS is not valid JSON', error);
+        return {};
+    }
+};
+
+const users = parseUsers();
+
+const sessionSecret = (): string => {
+    const secret = process.env.WEB_SESSION_SECRET;
+    if (!secret) {
+        throw new Error('WEB_SESSION_SECRET is not set');
+    }
+    return secret;
+};
+
+const sign = (value: string): string =>
+    createHmac('sha256', sessionSecret()).update(value).digest('base64url');
+
+const safeEqual = (a: Buffer, b: Buffer): boolean =>
+    a.length === b.length && timingSafeEqual(a, b);
+
+const passwordMatches = (password: string, stored: string): boolean => {
+    const [scheme, salt, hash] = stored.split(':');
+    if (scheme !== 'scrypt' || !salt || !hash) {
+        return false;
+    }
+    const expected = Buffer.from(hash, 'hex');
+    return safeEqual(scryptSync(password, salt, expected.length), expected);
+};
+
+// Returns a session for valid credentials, or null
+export const signIn = (username: string, password: string): WebSession | null => {
+    const user = Object.hasOwn(users, username) ? users[username] : undefined;
+    if (!user || !passwordMatches(password, user.password)) {
+        return null;
+    }
+    return {
+        username,
+        source: user.source,
+        expiresAt: Date.now() + SESSION_TTL_SECONDS * 1000,
+    };
+};
+
+// The cookie value: the session as base64url JSON and its HMAC
+export const sessionCookie = (session: WebSession) => {
+    const value = Buffer.from(JSON.stringify(session)).toString('base64url');
+    return {
+        name: SESSION_COOKIE,
+        value: `${value}.${sign(value)}`,
+        httpOnly: true,
+        sameSite: 'strict' as const,
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        maxAge: SESSION_TTL_SECONDS,
+    };
+};
+
+// The request's session, or null if it has none or it is forged or expired.
+// Users removed from WEB_USERS lose their sessions.
+export const readSession = (request: NextRequest): WebSession | null => {
+    const [value, signature] = request.cookies.get(SESSION_COOKIE)?.value.split('.') ?? [];
+    if (!value || !signature || !safeEqual(Buffer.from(signature), Buffer.from(sign(value)))) {
+        return null;
+    }
+    try {
+        const session = JSON.parse(Buffer.from(value, 'base64url').toString()) as WebSession;
+        const user = Object.hasOwn(users, session.username) ? users[session.username] : undefined;
+        return session.expiresAt > Date.now() && user?.source === session.source ? session : null;
+    } catch {
+        return null;
+    }
+};
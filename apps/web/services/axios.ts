@@ -1,11 +1,30 @@
 import axios from 'axios';
 
-const axiosInstance = axios.create({
-    baseURL: process.env.NEXT_PUBLIC_BACKEND_URL,
-});
+// Same-origin: app/api/email proxies to the email service and attaches the
+// API key of the signed-in user's source there, so no key is ever sent to
+// the browser
+const axiosInstance = axios.create();
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// The email service logs every line of a request with this id, so a failure
+// seen here can be found in its logs
+const newRequestId = (): string =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const requestIdOf = (config?: { headers?: unknown }): string | undefined => {
+    const headers = config?.headers as Record<string, unknown> | undefined;
+    const requestId = headers?.[REQUEST_ID_HEADER];
+    return typeof requestId === 'string' ? requestId : undefined;
+};
 
-axiosInstance.interceptors.request.use(async (config) => {
+axiosInstance.interceptors.request.use((config) => {
+    if (!config.headers[REQUEST_ID_HEADER]) {
+        config.headers[REQUEST_ID_HEADER] = newRequestId();
+    }
     return config;
 });
 
-export default axiosInstance;
\ No newline at end of file
+export default axiosInstance;
@@ -1,12 +1,12 @@
-import { tr } from 'zod/locales';
-import axiosInstance from './axios';
+import axiosInstance, { requestIdOf } from './axios';
 
 export interface EmailPayload {
   txnRefNo: string;
   source: string;
   payload: {
     from: string;
-    subject: string;
+    // Optional when additionalInfo.template_id supplies it
+    subject?: string;
     to: string;
     cc?: string;
     bcc?: string;
@@ -16,18 +16,164 @@ export interface EmailPayload {
   additionalInfo: {
     template_id: number;
     isText: boolean;
+    // ISO 8601 time with a zone to send at, e.g. 2025-11-01T01:00:00.000Z
+    sendAt?: string;
+    // Values for the template's {{placeholders}}
+    variables?: Record<string, unknown>;
     html_images?: Array<{ filename: string; base64: string }>;
     attachment_files?: Array<{ filename: string; base64: string }>;
   };
 }
 
-export const sendEmail = async (payload: EmailPayload) => {
- try {
-   const response = await axiosInstance.post('/api/email/send', payload);
-   console.log(response.data);
-   return response.data;
- } catch (error: any) {
-   console.error(error);
-   throw new Error(error.response?.data?.message || error.message);
- }
+export type EmailStatus =
+  | 'received'
+  | 'scheduled'
+  | 'queued'
+  | 'sending'
+  | 'sent'
+  | 'failed'
+  | 'dead-lettered'
+  | 'cancelled'
+  | 'suppressed'
+  | 'blocked'
+  | 'bounced';
+
+export interface SendEmailResult {
+  accepted: boolean;
+  txnRefNo: string;
+  messageId: string | null;
+  status: EmailStatus;
+  message: string;
+  duplicate: boolean;
+  warnings: string[];
+}
+
+// Validation errors from the email service carry one message per field
+const formatErrorMessage = (error: any): string => {
+  const message = error.response?.data?.message;
+  return Array.isArray(message) ? message.join('; ') : message || error.message;
+};
+
+export class EmailServiceError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    // Set on 429 responses: how long until the source's limit resets
+    readonly retryAfterSeconds?: number,
+  ) {
+    super(message);
+    this.name = 'EmailServiceError';
+  }
+}
+
+const toServiceError = (error: any): EmailServiceError =>
+  new EmailServiceError(
+    formatErrorMessage(error),
+    error.response?.status,
+    error.response?.data?.retryAfterSeconds,
+  );
+
+// Posts a send and logs the ids needed to find it in the email service's
+// logs, not the request itself, which can carry megabytes of base64
+// attachments
+const postSend = async (
+  url: string,
+  body: EmailPayload | FormData,
+  { txnRefNo, source }: EmailPayload,
+): Promise<SendEmailResult> => {
+  try {
+    const response = await axiosInstance.post<SendEmailResult>(url, body);
+    const { status, duplicate, warnings } = response.data;
+    console.info('Email accepted', {
+      txnRefNo,
+      source,
+      requestId: requestIdOf(response.config),
+      status,
+      duplicate,
+      warnings,
+    });
+    return response.data;
+  } catch (error: any) {
+    const serviceError = toServiceError(error);
+    console.error('Email not accepted', {
+      txnRefNo,
+      source,
+      requestId: requestIdOf(error.config),
+      status: serviceError.status,
+      message: serviceError.message,
+    });
+    throw serviceError;
+  }
+};
+
+export const sendEmail = (payload: EmailPayload): Promise<SendEmailResult> =>
+  postSend('/api/email/send', payload, payload);
+
+// Files sent as binary parts; filename may differ from the file's own name
+export interface EmailUpload {
+  filename: string;
+  file: Blob;
+}
+
+export interface EmailUploads {
+  html_images?: EmailUpload[];
+  attachment_files?: EmailUpload[];
+}
+
+// Same request as sendEmail, as multipart/form-data: the JSON goes in the
+// "payload" part and each file is its own binary part, so large attachments
+// aren't inflated by base64. The server builds an identical message.
+export const sendEmailMultipart = async (
+  payload: EmailPayload,
+  uploads: EmailUploads,
+): Promise<SendEmailResult> => {
+  const { html_images, attachment_files, ...additionalInfo } = payload.additionalInfo;
+  const formData = new FormData();
+  formData.append('payload', JSON.stringify({ ...payload, additionalInfo }));
+  for (const field of ['html_images', 'attachment_files'] as const) {
+    for (const { filename, file } of uploads[field] ?? []) {
+      formData.append(field, file, filename);
+    }
+  }
+
+  return postSend('/api/email/send/multipart', formData, payload);
+};
+
+export interface EmailStatusResult {
+  txnRefNo: string;
+  source: string;
+  status: EmailStatus;
+  final: boolean;
+  messageId: string | null;
+  error: { code: string | null; message: string } | null;
+  sendAt: string | null;
+  nextAttemptAt: string | null;
+  history: Array<{ status: EmailStatus; detail: string | null; actor: string | null; occurredAt: string }>;
+  attempts: Array<{
+    attemptNumber: number;
+    outcome: string;
+    responseCode: string | null;
+    response: string | null;
+    startedAt: string;
+    finishedAt: string;
+  }>;
+  bounces: Array<{
+    recipient: string;
+    type: 'hard' | 'soft';
+    status: string | null;
+    diagnosticCode: string | null;
+    receivedAt: string;
+  }>;
+}
+
+// Lookups are scoped to the signed-in user's source
+export const getEmailStatus = async (txnRefNo: string): Promise<EmailStatusResult> => {
+  try {
+    const response = await axiosInstance.get<EmailStatusResult>(
+      `/api/email/${encodeURIComponent(txnRefNo)}`,
+    );
+    return response.data;
+  } catch (error: any) {
+    throw toServiceError(error);
+  }
 };
@@ -0,0 +1,34 @@
+import axiosInstance from './axios';
+
+export interface WebSessionInfo {
+  username: string;
+  // Every email is sent as this source
+  source: string;
+}
+
+const formatErrorMessage = (error: any): string =>
+  error.response?.data?.message || error.message;
+
+export const signIn = async (username: string, password: string): Promise<WebSessionInfo> => {
+  try {
+    const response = await axiosInstance.post<WebSessionInfo>('/api/session', { username, password });
+    return response.data;
+  } catch (error: any) {
+    throw new Error(formatErrorMessage(error));
+  }
+};
+
+// Null when not signed in
+export const getSession = async (): Promise<WebSessionInfo | null> => {
+  try {
+    const response = await axiosInstance.get<WebSessionInfo>('/api/session');
+    return response.data;
+  } catch (error: any) {
+    if (error.response?.status === 401) return null;
+    throw new Error(formatErrorMessage(error));
+  }
+};
+
+export const signOut = async (): Promise<void> => {
+  await axiosInstance.delete('/api/session');
+};